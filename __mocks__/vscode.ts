@@ -236,6 +236,18 @@ export interface Disposable {
   dispose(): void;
 }
 
+export interface OutputChannel extends Disposable {
+  append(value: string): void;
+  appendLine(value: string): void;
+}
+
+export interface Memento {
+  keys(): readonly string[];
+  get<T>(key: string): T | undefined;
+  get<T>(key: string, defaultValue: T): T;
+  update(key: string, value: unknown): Promise<void>;
+}
+
 export enum ExtensionMode {
   Production = 1,
   Development = 2,
@@ -326,6 +338,13 @@ export const window = {
   showInformationMessage: jest.fn(),
   showErrorMessage: jest.fn(),
   createWebviewPanel: jest.fn(),
+  createOutputChannel: jest.fn(
+    (_name: string): OutputChannel => ({
+      append: jest.fn(),
+      appendLine: jest.fn(),
+      dispose: jest.fn(),
+    })
+  ),
 };
 
 export const workspace = {
@@ -0,0 +1,409 @@
+import * as vscode from "vscode";
+import type {
+  AnthropicContentBlock,
+  AnthropicMessage,
+  AnthropicStreamEvent,
+  AnthropicTool,
+  AnthropicUsage,
+  Json,
+  JsonObject,
+  ZaiTool,
+} from "./types";
+import {
+  extractImageData,
+  getDataPartTextValue,
+  getMessageImages,
+  getTextPartValue,
+  getThinkingPartInfo,
+  getToolCallInfo,
+  getToolResultTexts,
+  tryParseJSONObject,
+} from "./utils";
+import type { LegacyPart } from "./utils";
+import { toStreamLanguageModelError } from "./errors";
+
+/** Version header required by the Messages API */
+export const ANTHROPIC_VERSION = "2023-06-01";
+
+/** Smallest thinking budget the Messages API accepts */
+const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Thinking budget for a request: half of the output allowance, at least
+ * the API minimum and always below `max_tokens`.
+ * @returns undefined when `max_tokens` leaves no room for thinking
+ */
+export function getThinkingBudget(maxTokens: number): number | undefined {
+  if (maxTokens <= MIN_THINKING_BUDGET) {
+    return undefined;
+  }
+  return Math.min(
+    Math.max(MIN_THINKING_BUDGET, Math.floor(maxTokens / 2)),
+    maxTokens - 1
+  );
+}
+
+/**
+ * Convert VS Code messages to the Anthropic Messages API format.
+ * System messages are collected into the top-level `system` prompt,
+ * tool results become `tool_result` blocks, and thinking parts that
+ * carry a signature are passed back as `thinking` blocks. Consecutive
+ * thinking parts with the same id are one block: the streamed text parts
+ * and the part that carries the signature.
+ */
+export function convertMessagesToAnthropic(
+  messages: readonly vscode.LanguageModelChatMessage[],
+  options?: { maxToolResultChars?: number }
+): { system?: string; messages: AnthropicMessage[] } {
+  const systemParts: string[] = [];
+  const result: AnthropicMessage[] = [];
+
+  for (const msg of messages) {
+    const isUser = msg.role === vscode.LanguageModelChatMessageRole.User;
+    const isAssistant =
+      msg.role === vscode.LanguageModelChatMessageRole.Assistant;
+
+    if (!isUser && !isAssistant) {
+      for (const part of msg.content) {
+        const tv = getTextPartValue(part);
+        if (tv !== undefined) {
+          systemParts.push(tv);
+        }
+      }
+      continue;
+    }
+
+    const thinkingBlocks: AnthropicContentBlock[] = [];
+    const toolResultBlocks: AnthropicContentBlock[] = [];
+    const blocks: AnthropicContentBlock[] = [];
+    let thinking: ReturnType<typeof getThinkingPartInfo>;
+    const endThinking = () => {
+      const signature = thinking?.metadata?.signature;
+      const redacted = thinking?.metadata?.redactedData;
+      if (typeof redacted === "string" && redacted) {
+        thinkingBlocks.push({ type: "redacted_thinking", data: redacted });
+      } else if (thinking && typeof signature === "string" && signature) {
+        thinkingBlocks.push({
+          type: "thinking",
+          thinking: thinking.text,
+          signature,
+        });
+      }
+      // Unsigned thinking cannot be replayed to the Messages API
+      thinking = undefined;
+    };
+
+    for (const part of msg.content as Array<
+      vscode.LanguageModelInputPart | LegacyPart
+    >) {
+      const info = getThinkingPartInfo(part);
+      if (info) {
+        if (!isAssistant) {
+          continue;
+        }
+        if (thinking && info.id !== undefined && info.id === thinking.id) {
+          thinking = {
+            text: thinking.text + info.text,
+            id: info.id,
+            metadata: { ...thinking.metadata, ...info.metadata },
+          };
+        } else {
+          endThinking();
+          thinking = info;
+        }
+        continue;
+      }
+      endThinking();
+
+      if (part instanceof vscode.LanguageModelToolResultPart) {
+        const text = getToolResultTexts(part, options?.maxToolResultChars)
+          .join("\n")
+          .trim();
+        const images = getMessageImages([part]);
+        toolResultBlocks.push({
+          type: "tool_result",
+          tool_use_id: part.callId,
+          content:
+            images.length === 0
+              ? text
+              : [
+                  ...(text ? [{ type: "text" as const, text }] : []),
+                  ...images.map((img) => ({
+                    type: "image" as const,
+                    source: {
+                      type: "base64" as const,
+                      media_type: img.mimeType,
+                      data: Buffer.from(img.data).toString("base64"),
+                    },
+                  })),
+                ],
+        });
+        continue;
+      }
+
+      const toolCall = getToolCallInfo(part);
+      if (toolCall) {
+        blocks.push({
+          type: "tool_use",
+          id: toolCall.id ?? `toolu_${Math.random().toString(36).slice(2, 10)}`,
+          name: toolCall.name ?? "unknown",
+          input: toToolInput(toolCall.args),
+        });
+        continue;
+      }
+
+      const tv = getTextPartValue(part);
+      if (tv !== undefined) {
+        if (tv) {
+          blocks.push({ type: "text", text: tv });
+        }
+        continue;
+      }
+
+      const dv = getDataPartTextValue(part);
+      if (dv !== undefined) {
+        blocks.push({ type: "text", text: dv });
+        continue;
+      }
+
+      const img = extractImageData(part);
+      if (img && isUser) {
+        blocks.push({
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: img.mimeType,
+            data: Buffer.from(img.data).toString("base64"),
+          },
+        });
+      }
+    }
+    endThinking();
+
+    // Thinking must lead an assistant turn; tool results must lead a user turn
+    const content = isAssistant
+      ? [...thinkingBlocks, ...blocks]
+      : [...toolResultBlocks, ...blocks];
+    if (content.length === 0) {
+      content.push({ type: "text", text: "(empty message)" });
+    }
+
+    const role = isAssistant ? "assistant" : "user";
+    const previous = result[result.length - 1];
+    if (previous && previous.role === role) {
+      // The Messages API expects alternating roles; merge consecutive turns
+      previous.content.push(...content);
+    } else {
+      result.push({ role, content });
+    }
+  }
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+    messages: result,
+  };
+}
+
+function toToolInput(args: Json | string | undefined): JsonObject {
+  if (typeof args === "string") {
+    const parsed = tryParseJSONObject<JsonObject>(args);
+    return parsed.ok && isJsonObject(parsed.value) ? parsed.value : {};
+  }
+  return isJsonObject(args) ? args : {};
+}
+
+function isJsonObject(value: Json | undefined): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Convert OpenAI-style tool definitions to Messages API tools.
+ */
+export function convertToolsToAnthropic(
+  tools: ZaiTool[] | undefined,
+  toolChoice:
+    | "auto"
+    | "none"
+    | { type: string; function: { name: string } }
+    | undefined
+): {
+  tools?: AnthropicTool[];
+  tool_choice?: { type: "auto" } | { type: "tool"; name: string };
+} {
+  if (!tools || tools.length === 0) {
+    return {};
+  }
+  return {
+    tools: tools.map((t) => ({
+      name: t.function.name,
+      description: t.function.description,
+      input_schema: t.function.parameters ?? {
+        type: "object",
+        properties: {},
+      },
+    })),
+    tool_choice:
+      toolChoice && typeof toolChoice === "object"
+        ? { type: "tool", name: toolChoice.function.name }
+        : { type: "auto" },
+  };
+}
+
+/**
+ * Receiver for the parts decoded from a Messages API stream
+ */
+export interface AnthropicStreamSink {
+  text(value: string): void;
+  thinking(
+    value: string,
+    id: string,
+    metadata?: { signature?: string; redactedData?: string }
+  ): void;
+  toolCall(part: vscode.LanguageModelToolCallPart): void;
+  usage(promptTokens: number, completionTokens: number): void;
+}
+
+/**
+ * Per-request state for decoding a Messages API event stream into
+ * response parts. Tool calls are emitted once their input JSON is complete.
+ */
+export class AnthropicStreamState {
+  /** Open content blocks by stream index */
+  private readonly _blocks = new Map<
+    number,
+    {
+      type: string;
+      id?: string;
+      name?: string;
+      json: string;
+      signature?: string;
+    }
+  >();
+
+  private _messageId = "";
+  private _inputTokens = 0;
+  private _outputTokens = 0;
+
+  constructor(private readonly sink: AnthropicStreamSink) {}
+
+  /**
+   * Handle one decoded stream event.
+   * @throws LanguageModelError when the stream reports an error event.
+   */
+  handleEvent(event: AnthropicStreamEvent): void {
+    switch (event.type) {
+      case "message_start":
+        this._messageId = event.message.id ?? "";
+        this.updateUsage(event.message.usage);
+        break;
+      case "content_block_start": {
+        const block = event.content_block;
+        this._blocks.set(event.index, {
+          type: block.type,
+          id: block.type === "tool_use" ? block.id : undefined,
+          name: block.type === "tool_use" ? block.name : undefined,
+          json: "",
+        });
+        if (block.type === "text" && block.text) {
+          this.sink.text(block.text);
+        } else if (block.type === "thinking" && block.thinking) {
+          this.sink.thinking(block.thinking, this.thinkingId(event.index));
+        } else if (block.type === "redacted_thinking") {
+          this.sink.thinking("", this.thinkingId(event.index), {
+            redactedData: block.data,
+          });
+        }
+        break;
+      }
+      case "content_block_delta": {
+        const block = this._blocks.get(event.index);
+        const delta = event.delta;
+        if (delta.type === "text_delta") {
+          this.sink.text(delta.text);
+        } else if (delta.type === "thinking_delta") {
+          this.sink.thinking(delta.thinking, this.thinkingId(event.index));
+        } else if (delta.type === "signature_delta" && block) {
+          block.signature = (block.signature ?? "") + delta.signature;
+        } else if (delta.type === "input_json_delta" && block) {
+          block.json += delta.partial_json;
+        }
+        break;
+      }
+      case "content_block_stop":
+        this.closeBlock(event.index);
+        break;
+      case "message_delta":
+        this.updateUsage(event.usage);
+        break;
+      case "message_stop":
+        this.finish();
+        break;
+      case "error":
+        throw toStreamLanguageModelError(event.error ?? {});
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Close any blocks left open by a truncated stream and report usage.
+   */
+  finish(): void {
+    for (const index of Array.from(this._blocks.keys())) {
+      this.closeBlock(index);
+    }
+    if (this._inputTokens > 0 || this._outputTokens > 0) {
+      this.sink.usage(this._inputTokens, this._outputTokens);
+    }
+  }
+
+  private closeBlock(index: number): void {
+    const block = this._blocks.get(index);
+    if (!block) {
+      return;
+    }
+    this._blocks.delete(index);
+
+    if (block.type === "thinking" && block.signature) {
+      // Attach the signature so the block can be replayed on later turns
+      this.sink.thinking("", this.thinkingId(index), {
+        signature: block.signature,
+      });
+    } else if (block.type === "tool_use") {
+      const parsed = tryParseJSONObject<JsonObject>(block.json || "{}");
+      if (!parsed.ok || !isJsonObject(parsed.value)) {
+        console.error("[Z.ai Model Provider] Invalid JSON for tool call", {
+          name: block.name,
+          snippet: block.json.slice(0, 200),
+        });
+        throw new Error("Invalid JSON for tool call");
+      }
+      this.sink.toolCall(
+        new vscode.LanguageModelToolCallPart(
+          block.id ?? `toolu_${Math.random().toString(36).slice(2, 10)}`,
+          block.name ?? "unknown_tool",
+          parsed.value
+        )
+      );
+    }
+  }
+
+  private updateUsage(usage: AnthropicUsage | undefined): void {
+    if (!usage) {
+      return;
+    }
+    if (typeof usage.input_tokens === "number") {
+      this._inputTokens =
+        usage.input_tokens +
+        (usage.cache_read_input_tokens ?? 0) +
+        (usage.cache_creation_input_tokens ?? 0);
+    }
+    if (typeof usage.output_tokens === "number") {
+      this._outputTokens = usage.output_tokens;
+    }
+  }
+
+  private thinkingId(index: number): string {
+    return `${this._messageId || "thinking"}_${index}`;
+  }
+}
@@ -0,0 +1,86 @@
+import type * as vscode from "vscode";
+
+/** globalState key for the recorded estimate/usage pairs */
+const CALIBRATION_KEY = "zai.tokenCalibration";
+
+/** Recent requests kept per model */
+const MAX_SAMPLES = 20;
+/** Requests needed before the estimates are corrected */
+const MIN_SAMPLES = 3;
+/** Smaller prompts are dominated by the chat template and are not recorded */
+const MIN_SAMPLE_ESTIMATE = 200;
+/** Bounds for the correction, so one odd response cannot skew counting */
+const MIN_RATIO = 0.25;
+const MAX_RATIO = 2;
+
+/**
+ * A request's token estimate and the `prompt_tokens` the API reported
+ */
+export interface ZaiCalibrationSample {
+  estimate: number;
+  actual: number;
+}
+
+type CalibrationData = Record<string, ZaiCalibrationSample[]>;
+
+/**
+ * Per-model correction of token estimates, learned from the usage the API
+ * reports for recent requests and persisted in globalState.
+ * Without a globalState (e.g. in tests) samples are kept in memory only.
+ */
+export class ZaiTokenCalibration {
+  private readonly _samples: CalibrationData;
+
+  constructor(private readonly globalState?: vscode.Memento) {
+    const stored = globalState?.get<CalibrationData>(CALIBRATION_KEY);
+    this._samples = stored && typeof stored === "object" ? { ...stored } : {};
+  }
+
+  /**
+   * Ratio of actual to estimated prompt tokens for a model.
+   * @returns 1 until enough requests have been recorded
+   */
+  getRatio(modelId: string): number {
+    const samples = this._samples[modelId];
+    if (!Array.isArray(samples) || samples.length < MIN_SAMPLES) {
+      return 1;
+    }
+    let estimate = 0;
+    let actual = 0;
+    for (const sample of samples) {
+      estimate += sample.estimate;
+      actual += sample.actual;
+    }
+    if (estimate <= 0 || actual <= 0) {
+      return 1;
+    }
+    return Math.min(MAX_RATIO, Math.max(MIN_RATIO, actual / estimate));
+  }
+
+  /**
+   * Correct a raw token estimate for a model.
+   */
+  apply(modelId: string, estimate: number): number {
+    return Math.ceil(estimate * this.getRatio(modelId));
+  }
+
+  /**
+   * Record the raw estimate of a request and the prompt tokens the API
+   * reported for it.
+   */
+  async record(
+    modelId: string,
+    estimate: number,
+    actual: number
+  ): Promise<void> {
+    if (estimate < MIN_SAMPLE_ESTIMATE || actual <= 0) {
+      return;
+    }
+    const samples = [
+      ...(this._samples[modelId] ?? []),
+      { estimate, actual },
+    ].slice(-MAX_SAMPLES);
+    this._samples[modelId] = samples;
+    await this.globalState?.update(CALIBRATION_KEY, this._samples);
+  }
+}
@@ -0,0 +1,401 @@
+import * as vscode from "vscode";
+import {
+  estimateMessagesTokens,
+  extractImageData,
+  getDataPartTextValue,
+  getMessageImages,
+  getTextPartValue,
+  getToolCallInfo,
+  getToolResultTexts,
+  replaceImageParts,
+} from "./utils";
+import type { LegacyPart } from "./utils";
+import type { ZaiImageTokenRule } from "./images";
+
+/**
+ * How to handle a request that exceeds the context window:
+ * - `off`: fail with "Message exceeds token limit"
+ * - `truncate`: shorten old tool results, replace old images and drop the
+ *   oldest turns
+ * - `summarize`: like `truncate`, but dropped turns are replaced by a summary
+ */
+export type ZaiCompactionStrategy = "off" | "truncate" | "summarize";
+
+export const DEFAULT_COMPACTION_SUMMARY_MODEL = "glm-4.7-flash";
+
+/** Turns at the end of the conversation that are never compacted */
+const KEEP_RECENT_TURNS = 2;
+/** Length old tool results are shortened to */
+const OLD_TOOL_RESULT_CHARS = 2000;
+/** Tokens kept free for the summary that replaces dropped turns */
+const SUMMARY_TOKEN_RESERVE = 1024;
+/** Longest transcript sent to the summary model */
+const MAX_TRANSCRIPT_CHARS = 60000;
+/** Longest single entry in the transcript */
+const MAX_TRANSCRIPT_ENTRY_CHARS = 2000;
+
+type ChatMessage = vscode.LanguageModelChatMessage;
+
+/**
+ * Read the compaction strategy from settings.
+ */
+export function getCompactionStrategy(): ZaiCompactionStrategy {
+  const strategy = vscode.workspace
+    .getConfiguration("zai")
+    .get<string>("compaction.strategy", "off");
+  return strategy === "truncate" || strategy === "summarize" ? strategy : "off";
+}
+
+/**
+ * Read the model used to summarize dropped turns.
+ */
+export function getCompactionSummaryModel(): string {
+  const model = vscode.workspace
+    .getConfiguration("zai")
+    .get<string>("compaction.summaryModel", DEFAULT_COMPACTION_SUMMARY_MODEL);
+  return model?.trim() || DEFAULT_COMPACTION_SUMMARY_MODEL;
+}
+
+export interface ZaiCompactionOptions {
+  strategy: Exclude<ZaiCompactionStrategy, "off">;
+  /** Tokens the messages may use after compaction */
+  tokenBudget: number;
+  /** Tool result limit applied when the request is converted */
+  maxToolResultChars?: number;
+  /** How images are costed for the target model */
+  imageTokenRule?: ZaiImageTokenRule;
+  /** Describe an image that is removed from the history */
+  describeImage?: (image: {
+    mimeType: string;
+    data: Uint8Array;
+  }) => Promise<string>;
+  /** Summarize the transcript of dropped turns (`summarize` strategy) */
+  summarize?: (transcript: string) => Promise<string>;
+}
+
+export interface ZaiCompactionResult {
+  messages: ChatMessage[];
+  /** Estimated tokens of the compacted messages */
+  tokens: number;
+  /** Whether the messages fit into the budget */
+  fits: boolean;
+  shortenedToolResults: number;
+  replacedImages: number;
+  droppedTurns: number;
+  /** Whether the dropped turns were replaced by a summary */
+  summarized: boolean;
+}
+
+function isConversationRole(message: ChatMessage): boolean {
+  return (
+    message.role === vscode.LanguageModelChatMessageRole.User ||
+    message.role === vscode.LanguageModelChatMessageRole.Assistant
+  );
+}
+
+/**
+ * Whether a message starts a new turn: a user message with content other
+ * than tool results. Tool calls and their results stay in the same turn.
+ */
+function startsTurn(message: ChatMessage): boolean {
+  return (
+    message.role === vscode.LanguageModelChatMessageRole.User &&
+    message.content.some(
+      (part) => !(part instanceof vscode.LanguageModelToolResultPart)
+    )
+  );
+}
+
+/**
+ * Group the indices of the conversation messages into turns.
+ * System messages are not part of any turn.
+ */
+function splitTurns(messages: readonly ChatMessage[]): number[][] {
+  const turns: number[][] = [];
+  messages.forEach((message, index) => {
+    if (!isConversationRole(message)) {
+      return;
+    }
+    if (turns.length === 0 || startsTurn(message)) {
+      turns.push([index]);
+    } else {
+      turns[turns.length - 1].push(index);
+    }
+  });
+  return turns;
+}
+
+function withContent(
+  message: ChatMessage,
+  content: vscode.LanguageModelInputPart[]
+): ChatMessage {
+  return new vscode.LanguageModelChatMessage(
+    message.role,
+    content,
+    message.name
+  );
+}
+
+/**
+ * Shorten the tool results of a message.
+ * @returns the new message, or undefined when nothing was shortened
+ */
+function shortenToolResults(
+  message: ChatMessage,
+  counter: { count: number }
+): ChatMessage | undefined {
+  let changed = false;
+  const content = message.content.map((part) => {
+    if (!(part instanceof vscode.LanguageModelToolResultPart)) {
+      return part;
+    }
+    const text = getToolResultTexts(part).join("\n");
+    if (text.length <= OLD_TOOL_RESULT_CHARS) {
+      return part;
+    }
+    changed = true;
+    counter.count++;
+    const omitted = text.length - OLD_TOOL_RESULT_CHARS;
+    return new vscode.LanguageModelToolResultPart(part.callId, [
+      new vscode.LanguageModelTextPart(
+        `${text.slice(0, OLD_TOOL_RESULT_CHARS)}\n...[${omitted} chars removed to fit the context window]`
+      ),
+    ]);
+  });
+  return changed ? withContent(message, content) : undefined;
+}
+
+/**
+ * Replace the images of a message, including images returned by tools,
+ * with descriptions.
+ * @returns the new message, or undefined when it has no images
+ */
+async function replaceImages(
+  message: ChatMessage,
+  describeImage: ZaiCompactionOptions["describeImage"],
+  counter: { count: number }
+): Promise<ChatMessage | undefined> {
+  const descriptions: (string | undefined)[] = [];
+  for (const image of getMessageImages(message.content)) {
+    let description: string | undefined;
+    if (describeImage) {
+      try {
+        description = await describeImage(image);
+      } catch (err) {
+        if (err instanceof vscode.CancellationError) {
+          throw err;
+        }
+        console.warn(
+          "[Z.ai Model Provider] Could not describe image during compaction",
+          err
+        );
+      }
+    }
+    descriptions.push(description);
+  }
+  let next = 0;
+  const content = replaceImageParts(message.content, () => {
+    const description = descriptions[next++];
+    counter.count++;
+    return new vscode.LanguageModelTextPart(
+      description
+        ? `[Image Analysis]:\n${description}`
+        : "[Image removed to fit the context window]"
+    );
+  });
+  return content ? withContent(message, content) : undefined;
+}
+
+function clip(text: string, maxChars: number): string {
+  return text.length > maxChars
+    ? `${text.slice(0, maxChars)}...[truncated]`
+    : text;
+}
+
+/**
+ * Render messages as a plain transcript for the summary model.
+ */
+export function renderTranscript(messages: readonly ChatMessage[]): string {
+  const lines: string[] = [];
+  for (const message of messages) {
+    const speaker =
+      message.role === vscode.LanguageModelChatMessageRole.Assistant
+        ? "Assistant"
+        : "User";
+    for (const part of message.content as Array<
+      vscode.LanguageModelInputPart | LegacyPart
+    >) {
+      const toolCall = getToolCallInfo(part);
+      if (toolCall) {
+        const args =
+          typeof toolCall.args === "string"
+            ? toolCall.args
+            : JSON.stringify(toolCall.args ?? {});
+        lines.push(
+          `${speaker} called ${toolCall.name ?? "a tool"}: ${clip(args, MAX_TRANSCRIPT_ENTRY_CHARS)}`
+        );
+        continue;
+      }
+      const toolResult = getToolResultTexts(part);
+      if (toolResult.length > 0) {
+        lines.push(
+          `Tool result: ${clip(toolResult.join("\n"), MAX_TRANSCRIPT_ENTRY_CHARS)}`
+        );
+        continue;
+      }
+      const text = getTextPartValue(part) ?? getDataPartTextValue(part);
+      if (text) {
+        lines.push(`${speaker}: ${clip(text, MAX_TRANSCRIPT_ENTRY_CHARS)}`);
+      } else if (extractImageData(part)) {
+        lines.push(`${speaker}: [image]`);
+      }
+    }
+  }
+  return clip(lines.join("\n\n"), MAX_TRANSCRIPT_CHARS);
+}
+
+/**
+ * Shrink a conversation until it fits into the token budget.
+ *
+ * System messages and the latest turns are kept as they are. Older turns
+ * are compacted in steps, stopping as soon as the messages fit: long tool
+ * results are shortened, images are replaced by descriptions, and finally
+ * the oldest turns are dropped (and summarized with the `summarize`
+ * strategy).
+ */
+export async function compactMessages(
+  messages: readonly ChatMessage[],
+  options: ZaiCompactionOptions
+): Promise<ZaiCompactionResult> {
+  const estimate = (list: readonly ChatMessage[]) =>
+    estimateMessagesTokens(list, {
+      maxToolResultChars: options.maxToolResultChars,
+      imageTokenRule: options.imageTokenRule,
+    });
+
+  const current = [...messages];
+  const turns = splitTurns(current);
+  const oldTurns = turns.slice(
+    0,
+    Math.max(0, turns.length - KEEP_RECENT_TURNS)
+  );
+  const oldIndices = oldTurns.flat();
+
+  const result: ZaiCompactionResult = {
+    messages: current,
+    tokens: estimate(current),
+    fits: false,
+    shortenedToolResults: 0,
+    replacedImages: 0,
+    droppedTurns: 0,
+    summarized: false,
+  };
+  const done = (): ZaiCompactionResult => {
+    result.fits = result.tokens <= options.tokenBudget;
+    return result;
+  };
+  if (result.tokens <= options.tokenBudget || oldIndices.length === 0) {
+    return done();
+  }
+
+  // Step 1: shorten old tool results
+  const shortened = { count: 0 };
+  for (const index of oldIndices) {
+    current[index] =
+      shortenToolResults(current[index], shortened) ?? current[index];
+  }
+  result.shortenedToolResults = shortened.count;
+  result.tokens = estimate(current);
+  if (result.tokens <= options.tokenBudget) {
+    return done();
+  }
+
+  // Step 2: replace old images with descriptions
+  const replaced = { count: 0 };
+  for (const index of oldIndices) {
+    current[index] =
+      (await replaceImages(current[index], options.describeImage, replaced)) ??
+      current[index];
+  }
+  result.replacedImages = replaced.count;
+  result.tokens = estimate(current);
+  if (result.tokens <= options.tokenBudget) {
+    return done();
+  }
+
+  // Step 3: drop the oldest turns, leaving room for the summary or notice
+  const budget =
+    options.strategy === "summarize"
+      ? options.tokenBudget - SUMMARY_TOKEN_RESERVE
+      : options.tokenBudget;
+  const dropped = new Set<number>();
+  let tokens = result.tokens;
+  for (const turn of oldTurns) {
+    if (tokens <= budget) {
+      break;
+    }
+    const turnMessages = turn.map((index) => current[index]);
+    tokens -= estimate(turnMessages);
+    turn.forEach((index) => dropped.add(index));
+    result.droppedTurns++;
+  }
+
+  if (dropped.size === 0) {
+    return done();
+  }
+
+  const droppedMessages = current.filter((_, index) => dropped.has(index));
+  let replacement = `[${result.droppedTurns} earlier turn(s) were removed to fit the context window]`;
+  if (options.strategy === "summarize" && options.summarize) {
+    try {
+      const summary = (
+        await options.summarize(renderTranscript(droppedMessages))
+      ).trim();
+      if (summary) {
+        replacement = `[Summary of ${result.droppedTurns} earlier turn(s), compacted to fit the context window]\n${summary}`;
+        result.summarized = true;
+      }
+    } catch (err) {
+      if (err instanceof vscode.CancellationError) {
+        throw err;
+      }
+      console.warn(
+        "[Z.ai Model Provider] Could not summarize dropped turns",
+        err
+      );
+    }
+  }
+
+  const compacted: ChatMessage[] = [];
+  current.forEach((message, index) => {
+    if (!dropped.has(index)) {
+      compacted.push(message);
+    } else if (index === oldIndices[0]) {
+      compacted.push(vscode.LanguageModelChatMessage.User(replacement));
+    }
+  });
+  result.messages = compacted;
+  result.tokens = estimate(compacted);
+  return done();
+}
+
+/**
+ * Chat notice describing what was compacted.
+ */
+export function formatCompactionNotice(result: ZaiCompactionResult): string {
+  const changes: string[] = [];
+  if (result.shortenedToolResults > 0) {
+    changes.push(`shortened ${result.shortenedToolResults} old tool result(s)`);
+  }
+  if (result.replacedImages > 0) {
+    changes.push(`replaced ${result.replacedImages} old image(s) with text`);
+  }
+  if (result.droppedTurns > 0) {
+    changes.push(
+      result.summarized
+        ? `summarized ${result.droppedTurns} earlier turn(s)`
+        : `removed ${result.droppedTurns} earlier turn(s)`
+    );
+  }
+  return `> 🗜️ The conversation was compacted to fit the model's context window: ${changes.join(", ")}.\n\n`;
+}
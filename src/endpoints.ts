@@ -0,0 +1,162 @@
+import * as vscode from "vscode";
+import type { ZaiTransport } from "./types";
+
+/**
+ * Identifier of a named Z.ai endpoint profile
+ */
+export type ZaiEndpointProfileId = "coding" | "general" | "bigmodel" | "custom";
+
+/**
+ * A named API endpoint the provider can talk to
+ */
+export interface ZaiEndpointProfile {
+  id: ZaiEndpointProfileId;
+  label: string;
+  /** OpenAI-compatible base URL (without trailing slash) */
+  baseUrl: string;
+  /** Anthropic-compatible base URL, when the profile offers one */
+  anthropicBaseUrl?: string;
+}
+
+/**
+ * A resolved request target
+ */
+export interface ZaiEndpoint {
+  baseUrl: string;
+  transport: ZaiTransport;
+}
+
+/**
+ * Built-in endpoint profiles. `custom` is resolved from settings.
+ */
+export const ZAI_ENDPOINT_PROFILES: Record<
+  Exclude<ZaiEndpointProfileId, "custom">,
+  ZaiEndpointProfile
+> = {
+  coding: {
+    id: "coding",
+    label: "Z.ai Coding Plan",
+    baseUrl: "https://api.z.ai/api/coding/paas/v4",
+    anthropicBaseUrl: "https://api.z.ai/api/anthropic",
+  },
+  general: {
+    id: "general",
+    label: "Z.ai (pay-as-you-go)",
+    baseUrl: "https://api.z.ai/api/paas/v4",
+    anthropicBaseUrl: "https://api.z.ai/api/anthropic",
+  },
+  bigmodel: {
+    id: "bigmodel",
+    label: "BigModel (open.bigmodel.cn)",
+    baseUrl: "https://open.bigmodel.cn/api/paas/v4",
+    anthropicBaseUrl: "https://open.bigmodel.cn/api/anthropic",
+  },
+};
+
+export const DEFAULT_ENDPOINT_PROFILE_ID = "coding";
+
+/**
+ * Remove trailing slashes so paths can be appended with `${baseUrl}/...`
+ */
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+/**
+ * Resolve the endpoint profile selected in settings.
+ * Falls back to the coding plan when the selection is unknown or the
+ * custom profile has no URL configured.
+ */
+export function getEndpointProfile(): ZaiEndpointProfile {
+  const config = vscode.workspace.getConfiguration("zai");
+  const profileId = config.get<string>(
+    "endpoint.profile",
+    DEFAULT_ENDPOINT_PROFILE_ID
+  );
+
+  if (profileId === "custom") {
+    const customUrl = normalizeBaseUrl(
+      config.get<string>("endpoint.customBaseUrl", "") ?? ""
+    );
+    if (customUrl) {
+      return { id: "custom", label: "Custom", baseUrl: customUrl };
+    }
+    console.warn(
+      "[Z.ai Provider] zai.endpoint.customBaseUrl is empty, using the default endpoint"
+    );
+  } else if (
+    Object.prototype.hasOwnProperty.call(ZAI_ENDPOINT_PROFILES, profileId)
+  ) {
+    return ZAI_ENDPOINT_PROFILES[
+      profileId as Exclude<ZaiEndpointProfileId, "custom">
+    ];
+  }
+
+  return ZAI_ENDPOINT_PROFILES[DEFAULT_ENDPOINT_PROFILE_ID];
+}
+
+/**
+ * Base URL of the currently selected endpoint profile
+ */
+export function getBaseUrl(): string {
+  return getEndpointProfile().baseUrl;
+}
+
+/**
+ * Transport selected for the endpoint profile in settings
+ */
+export function getTransport(): ZaiTransport {
+  const transport = vscode.workspace
+    .getConfiguration("zai")
+    .get<string>("endpoint.transport", "openai");
+  return transport === "anthropic" ? "anthropic" : "openai";
+}
+
+/**
+ * Resolve where and how to send a model's requests.
+ * @param endpoint Endpoint override: a profile id or a base URL.
+ *   The selected profile is used when omitted.
+ * @param transport Transport override. The setting is used when omitted.
+ */
+export function resolveEndpoint(
+  endpoint?: string,
+  transport?: ZaiTransport
+): ZaiEndpoint {
+  const effectiveTransport = transport ?? getTransport();
+  const value = endpoint?.trim();
+
+  let profile: ZaiEndpointProfile;
+  if (!value) {
+    profile = getEndpointProfile();
+  } else if (
+    Object.prototype.hasOwnProperty.call(ZAI_ENDPOINT_PROFILES, value)
+  ) {
+    profile =
+      ZAI_ENDPOINT_PROFILES[value as Exclude<ZaiEndpointProfileId, "custom">];
+  } else if (value === "custom") {
+    const customUrl = normalizeBaseUrl(
+      vscode.workspace
+        .getConfiguration("zai")
+        .get<string>("endpoint.customBaseUrl", "") ?? ""
+    );
+    profile = customUrl
+      ? { id: "custom", label: "Custom", baseUrl: customUrl }
+      : getEndpointProfile();
+  } else if (/^https?:\/\//i.test(value)) {
+    // A plain URL is used as-is for either transport
+    return { baseUrl: normalizeBaseUrl(value), transport: effectiveTransport };
+  } else {
+    console.warn(
+      `[Z.ai Provider] Unknown endpoint override "${value}", using the default endpoint`
+    );
+    profile = getEndpointProfile();
+  }
+
+  return {
+    baseUrl:
+      effectiveTransport === "anthropic"
+        ? (profile.anthropicBaseUrl ?? profile.baseUrl)
+        : profile.baseUrl,
+    transport: effectiveTransport,
+  };
+}
@@ -0,0 +1,96 @@
+import * as vscode from "vscode";
+
+/**
+ * Error object sent inside a stream, by the Z.ai chat API
+ * (`{"error": {"code": "1302", "message": "..."}}`) or the
+ * Messages API (`{"type": "error", "error": {"type": "...", "message": "..."}}`).
+ */
+export interface ZaiStreamErrorPayload {
+  code?: string | number;
+  type?: string;
+  message?: string;
+}
+
+/** Z.ai business codes for authentication and permission failures */
+const ZAI_AUTH_ERROR_CODES = new Set([
+  "1000",
+  "1001",
+  "1002",
+  "1003",
+  "1004",
+  "1220",
+]);
+
+/** Z.ai business code for an unknown model */
+const ZAI_MODEL_NOT_FOUND_CODE = "1211";
+
+/** Z.ai business codes for content filtering, rate and usage limits */
+const ZAI_BLOCKED_ERROR_CODES = new Set([
+  "1301",
+  "1302",
+  "1303",
+  "1304",
+  "1305",
+  "1308",
+  "1309",
+  "1310",
+]);
+
+/**
+ * Read the error object from a parsed stream payload.
+ * @returns undefined when the payload is not an error
+ */
+export function getStreamErrorPayload(
+  payload: unknown
+): ZaiStreamErrorPayload | undefined {
+  if (!payload || typeof payload !== "object" || !("error" in payload)) {
+    return undefined;
+  }
+  const error = (payload as { error: unknown }).error;
+  if (typeof error === "string") {
+    return { message: error };
+  }
+  if (!error || typeof error !== "object") {
+    return undefined;
+  }
+  const e = error as Record<string, unknown>;
+  return {
+    code:
+      typeof e.code === "string" || typeof e.code === "number"
+        ? e.code
+        : undefined,
+    type: typeof e.type === "string" ? e.type : undefined,
+    message: typeof e.message === "string" ? e.message : undefined,
+  };
+}
+
+/**
+ * Convert an error reported inside a response stream to a LanguageModelError.
+ */
+export function toStreamLanguageModelError(
+  error: ZaiStreamErrorPayload
+): vscode.LanguageModelError {
+  const code = error.code !== undefined ? String(error.code) : undefined;
+  const label = [code ?? error.type ?? "error", error.message ?? ""]
+    .join(" ")
+    .trim();
+  const message = `Z.ai API stream error: ${label}`;
+
+  if (
+    (code && ZAI_AUTH_ERROR_CODES.has(code)) ||
+    error.type === "authentication_error" ||
+    error.type === "permission_error"
+  ) {
+    return vscode.LanguageModelError.NoPermissions(message);
+  }
+  if (code === ZAI_MODEL_NOT_FOUND_CODE || error.type === "not_found_error") {
+    return vscode.LanguageModelError.NotFound(message);
+  }
+  if (
+    (code && ZAI_BLOCKED_ERROR_CODES.has(code)) ||
+    error.type === "rate_limit_error"
+  ) {
+    return vscode.LanguageModelError.Blocked(message);
+  }
+  return new vscode.LanguageModelError(message);
+}
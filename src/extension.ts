@@ -3,6 +3,7 @@ import packageJson from "../package.json";
 import { ZaiChatModelProvider } from "./provider";
 import { registerZaiTools } from "./tools";
 import { shouldShowWelcome, showWelcomePanel } from "./welcome";
+import { TOGGLE_THINKING_COMMAND } from "./thinking";
 
 // Global provider reference for API key management
 let _provider: ZaiChatModelProvider | null = null;
@@ -14,7 +15,12 @@ export function activate(context: vscode.ExtensionContext) {
   // Keep UA minimal: only extension version and VS Code version
   const ua = `zai-vscode-chat/${extVersion} VSCode/${vscodeVersion}`;
 
-  const provider = new ZaiChatModelProvider(context.secrets, ua);
+  const provider = new ZaiChatModelProvider(
+    context.secrets,
+    ua,
+    context.globalState,
+    context.globalStorageUri.fsPath
+  );
   _provider = provider;
 
   // Refresh model list when API key is changed outside the management command.
@@ -26,6 +32,18 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Refresh model list when custom models or the endpoint change.
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration("zai.customModels") ||
+        e.affectsConfiguration("zai.endpoint")
+      ) {
+        _provider?.fireModelInfoChanged();
+      }
+    })
+  );
+
   // Register the Z.ai provider under the vendor id used in package.json
   const registration = vscode.lm.registerLanguageModelChatProvider(
     "zai",
@@ -36,7 +54,10 @@ export function activate(context: vscode.ExtensionContext) {
   console.log("[Z.ai Provider] Z.ai provider registered successfully");
 
   // Register Z.ai tools (vision analysis, etc.) for Copilot to use
-  const toolsRegistration = registerZaiTools(context.secrets);
+  const toolsRegistration = registerZaiTools(
+    context.secrets,
+    provider.retryPolicy
+  );
   context.subscriptions.push(toolsRegistration);
 
   console.log("[Z.ai Provider] Z.ai tools registered successfully");
@@ -71,6 +92,50 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Command to drop cached image descriptions
+  context.subscriptions.push(
+    vscode.commands.registerCommand("zai.clearImageCache", async () => {
+      await provider.imageCache.clear();
+      vscode.window.showInformationMessage(
+        "Z.ai image description cache cleared."
+      );
+    })
+  );
+
+  // Session toggle for thinking, shown in the status bar
+  const thinkingItem = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Right,
+    100
+  );
+  thinkingItem.name = "Z.ai Thinking";
+  thinkingItem.command = TOGGLE_THINKING_COMMAND;
+  thinkingItem.tooltip = "Toggle Z.ai thinking for this session";
+  const updateThinkingItem = () => {
+    const mode = provider.thinking.getMode();
+    thinkingItem.text =
+      mode === "disabled"
+        ? "$(circle-slash) Thinking: off"
+        : `$(lightbulb) Thinking: ${mode === "auto" ? "auto" : "on"}`;
+  };
+  updateThinkingItem();
+  thinkingItem.show();
+  context.subscriptions.push(
+    provider.thinking,
+    thinkingItem,
+    provider.thinking.onDidChange(updateThinkingItem),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("zai.thinking")) {
+        updateThinkingItem();
+      }
+    }),
+    vscode.commands.registerCommand(TOGGLE_THINKING_COMMAND, () => {
+      const mode = provider.thinking.toggle();
+      vscode.window.showInformationMessage(
+        `Z.ai thinking ${mode === "disabled" ? "disabled" : "enabled"} for this session.`
+      );
+    })
+  );
+
   console.log("[Z.ai Provider] Extension activated");
 
   // Show welcome page on first install (when no API key is stored)
@@ -0,0 +1,249 @@
+import type * as vscode from "vscode";
+import type { Json, JsonObject } from "./types";
+import { partialTokenLength, tryParseJSONObject } from "./utils";
+
+const TOOL_CALL_OPEN = "<tool_call>";
+const TOOL_CALL_CLOSE = "</tool_call>";
+/** Longest tool call kept in the buffer before it is given up as text */
+const MAX_TOOL_CALL_CHARS = 1024 * 1024;
+
+/**
+ * Piece of streamed content: visible text, or a tool call written in
+ * GLM's native format
+ */
+export type GlmContentSegment =
+  | { type: "text"; text: string }
+  | { type: "toolCall"; name: string; input: JsonObject };
+
+/**
+ * Tells whether an argument of a tool is declared as a string, so its value
+ * is kept verbatim instead of being parsed as JSON.
+ */
+export type GlmStringArgumentLookup = (tool: string, key: string) => boolean;
+
+/**
+ * Build a `GlmStringArgumentLookup` from the JSON schemas of the request tools.
+ */
+export function getStringArgumentLookup(
+  tools: readonly vscode.LanguageModelChatTool[] | undefined
+): GlmStringArgumentLookup {
+  return (tool, key) => {
+    const schema = tools?.find((t) => t.name === tool)?.inputSchema as
+      | { properties?: Record<string, { type?: unknown }> }
+      | undefined;
+    const type = schema?.properties?.[key]?.type;
+    return (
+      type === "string" || (Array.isArray(type) && type.includes("string"))
+    );
+  };
+}
+
+/**
+ * Argument value as written by the chat template: strings verbatim, other
+ * values as JSON.
+ */
+function parseArgumentValue(
+  value: string,
+  isString: boolean | undefined
+): Json {
+  if (isString) {
+    return value;
+  }
+  try {
+    return JSON.parse(value.trim()) as Json;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse the body of a `<tool_call>…</tool_call>` block:
+ * `name<arg_key>k</arg_key><arg_value>v</arg_value>…`, or a JSON object with
+ * `name` and `arguments`.
+ * @returns undefined when the body is not a tool call
+ */
+export function parseGlmToolCall(
+  body: string,
+  isStringArgument?: GlmStringArgumentLookup
+): { name: string; input: JsonObject } | undefined {
+  const trimmed = body.trim();
+  if (trimmed.startsWith("{")) {
+    const parsed = tryParseJSONObject<Record<string, Json>>(trimmed);
+    if (!parsed.ok || typeof parsed.value.name !== "string") {
+      return undefined;
+    }
+    let args = parsed.value.arguments ?? parsed.value.parameters ?? {};
+    if (typeof args === "string") {
+      const parsedArgs = tryParseJSONObject<JsonObject>(args);
+      if (!parsedArgs.ok) {
+        return undefined;
+      }
+      args = parsedArgs.value;
+    }
+    if (typeof args !== "object" || args === null || Array.isArray(args)) {
+      return undefined;
+    }
+    return { name: parsed.value.name, input: args };
+  }
+
+  const firstKey = trimmed.indexOf("<arg_key>");
+  const name = (firstKey === -1 ? trimmed : trimmed.slice(0, firstKey)).trim();
+  if (!/^[A-Za-z0-9_\-.]+$/.test(name)) {
+    return undefined;
+  }
+  const input: JsonObject = {};
+  const rest = firstKey === -1 ? "" : trimmed.slice(firstKey);
+  const pair =
+    /<arg_key>([\s\S]*?)<\/arg_key>\s*<arg_value>([\s\S]*?)<\/arg_value>/g;
+  let consumed = 0;
+  for (let m = pair.exec(rest); m; m = pair.exec(rest)) {
+    if (rest.slice(consumed, m.index).trim()) {
+      return undefined;
+    }
+    const key = m[1].trim();
+    input[key] = parseArgumentValue(m[2], isStringArgument?.(name, key));
+    consumed = m.index + m[0].length;
+  }
+  if (rest.slice(consumed).trim()) {
+    return undefined;
+  }
+  return { name, input };
+}
+
+/**
+ * Streaming parser for tool calls that GLM-4.5/4.6 write into `content` in
+ * their native format:
+ *
+ * ```
+ * <tool_call>read_file
+ * <arg_key>path</arg_key>
+ * <arg_value>src/a.ts</arg_value>
+ * </tool_call>
+ * ```
+ *
+ * Text is passed through as soon as it cannot be the start of a tool call;
+ * tool call blocks are held back until they are complete. A `<tool_call>`
+ * tag that is not followed by a declared tool name or a JSON object (e.g.
+ * one mentioned in prose) is passed through right away. Blocks that do not
+ * parse, or that call a tool the request did not declare, are passed
+ * through as text.
+ */
+export class GlmToolCallParser {
+  private _buffer = "";
+  private _inToolCall = false;
+  private readonly _toolNames: ReadonlySet<string>;
+  private readonly _isStringArgument: GlmStringArgumentLookup;
+
+  /**
+   * @param tools Tools of the request; only calls to these are accepted.
+   */
+  constructor(tools: readonly vscode.LanguageModelChatTool[] = []) {
+    this._toolNames = new Set(tools.map((tool) => tool.name));
+    this._isStringArgument = getStringArgumentLookup(tools);
+  }
+
+  /**
+   * Feed the next chunk of content.
+   */
+  push(chunk: string): GlmContentSegment[] {
+    this._buffer += chunk;
+    const segments: GlmContentSegment[] = [];
+    for (;;) {
+      if (!this._inToolCall) {
+        const open = this._buffer.indexOf(TOOL_CALL_OPEN);
+        if (open === -1) {
+          const keep = partialTokenLength(this._buffer, TOOL_CALL_OPEN);
+          this.pushText(
+            segments,
+            this._buffer.slice(0, this._buffer.length - keep)
+          );
+          this._buffer = this._buffer.slice(this._buffer.length - keep);
+          return segments;
+        }
+        this.pushText(segments, this._buffer.slice(0, open));
+        this._buffer = this._buffer.slice(open);
+        this._inToolCall = true;
+      }
+
+      if (!this.canStartToolCall(this._buffer.slice(TOOL_CALL_OPEN.length))) {
+        this.pushText(segments, TOOL_CALL_OPEN);
+        this._buffer = this._buffer.slice(TOOL_CALL_OPEN.length);
+        this._inToolCall = false;
+        continue;
+      }
+      const close = this._buffer.indexOf(TOOL_CALL_CLOSE);
+      if (close === -1) {
+        if (this._buffer.length > MAX_TOOL_CALL_CHARS) {
+          this.pushText(segments, this._buffer);
+          this._buffer = "";
+          this._inToolCall = false;
+        }
+        return segments;
+      }
+      const block = this._buffer.slice(0, close + TOOL_CALL_CLOSE.length);
+      this._buffer = this._buffer.slice(block.length);
+      this._inToolCall = false;
+      this.pushBlock(segments, block);
+    }
+  }
+
+  /**
+   * End of the stream: return what is still buffered. An unterminated tool
+   * call is emitted when its arguments are complete, otherwise as text.
+   */
+  flush(): GlmContentSegment[] {
+    const segments: GlmContentSegment[] = [];
+    if (this._inToolCall) {
+      this.pushBlock(segments, this._buffer);
+    } else {
+      this.pushText(segments, this._buffer);
+    }
+    this._buffer = "";
+    this._inToolCall = false;
+    return segments;
+  }
+
+  /**
+   * Whether the text after `<tool_call>` can still be a call: empty so far,
+   * a JSON object, or a declared tool name or the start of one.
+   */
+  private canStartToolCall(body: string): boolean {
+    const start = body.trimStart();
+    if (!start || start.startsWith("{")) {
+      return true;
+    }
+    for (const name of this._toolNames) {
+      if (start.startsWith(name) || name.startsWith(start)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private pushBlock(segments: GlmContentSegment[], block: string): void {
+    const body = block.slice(
+      TOOL_CALL_OPEN.length,
+      block.endsWith(TOOL_CALL_CLOSE)
+        ? block.length - TOOL_CALL_CLOSE.length
+        : block.length
+    );
+    const call = parseGlmToolCall(body, this._isStringArgument);
+    if (call && this._toolNames.has(call.name)) {
+      segments.push({ type: "toolCall", ...call });
+    } else {
+      this.pushText(segments, block);
+    }
+  }
+
+  private pushText(segments: GlmContentSegment[], text: string): void {
+    if (!text) {
+      return;
+    }
+    const last = segments[segments.length - 1];
+    if (last?.type === "text") {
+      last.text += text;
+    } else {
+      segments.push({ type: "text", text });
+    }
+  }
+}
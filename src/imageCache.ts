@@ -0,0 +1,186 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+/** File in the extension's global storage holding cached descriptions */
+export const IMAGE_CACHE_FILE = "image-descriptions.json";
+
+/** Characters of descriptions kept before the least recently used are evicted */
+const MAX_CACHE_CHARS = 4 * 1024 * 1024;
+
+interface CacheFile {
+  version: 1;
+  /** [key, description] pairs, least recently used first */
+  entries: [string, string][];
+}
+
+/**
+ * Descriptions of images analyzed for non-vision models, keyed by the
+ * image content and the prompt. Entries live in memory and, with a storage
+ * path, in a JSON file so they survive restarts. The least recently used
+ * entries are evicted when the total size exceeds the cap.
+ */
+export class ZaiImageDescriptionCache {
+  private _entries: Map<string, string> | undefined;
+  private _loading: Promise<Map<string, string>> | undefined;
+  private _chars = 0;
+  private _saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param storagePath Directory for the cache file, usually
+   *   `globalStorageUri.fsPath`. Without it entries are kept in memory only.
+   */
+  constructor(
+    private readonly storagePath?: string,
+    private readonly maxChars = MAX_CACHE_CHARS
+  ) {}
+
+  /**
+   * Cache key of an image analyzed with a prompt.
+   */
+  static key(image: Uint8Array, prompt: string): string {
+    const imageHash = crypto.createHash("sha256").update(image).digest("hex");
+    const promptHash = crypto.createHash("sha256").update(prompt).digest("hex");
+    return `${imageHash}:${promptHash.slice(0, 16)}`;
+  }
+
+  /** Number of cached descriptions */
+  async size(): Promise<number> {
+    return (await this.load()).size;
+  }
+
+  /**
+   * Look up the description of an image analyzed with the same prompt.
+   */
+  async get(image: Uint8Array, prompt: string): Promise<string | undefined> {
+    const entries = await this.load();
+    const key = ZaiImageDescriptionCache.key(image, prompt);
+    const description = entries.get(key);
+    if (description !== undefined) {
+      // Mark as recently used; the order is persisted with the next write
+      entries.delete(key);
+      entries.set(key, description);
+    }
+    return description;
+  }
+
+  /**
+   * Store the description of an image and persist the cache.
+   */
+  async set(
+    image: Uint8Array,
+    prompt: string,
+    description: string
+  ): Promise<void> {
+    const entries = await this.load();
+    const key = ZaiImageDescriptionCache.key(image, prompt);
+    const previous = entries.get(key);
+    if (previous !== undefined) {
+      this._chars -= previous.length;
+      entries.delete(key);
+    }
+    entries.set(key, description);
+    this._chars += description.length;
+    for (const [oldestKey, oldest] of entries) {
+      if (this._chars <= this.maxChars || oldestKey === key) {
+        break;
+      }
+      entries.delete(oldestKey);
+      this._chars -= oldest.length;
+    }
+    await this.save();
+  }
+
+  /**
+   * Remove all cached descriptions, including the cache file.
+   */
+  async clear(): Promise<void> {
+    const entries = await this.load();
+    entries.clear();
+    this._chars = 0;
+    const file = this.filePath();
+    if (file) {
+      await this.enqueue(
+        () => fs.promises.rm(file, { force: true }),
+        "Failed to delete image description cache"
+      );
+    }
+  }
+
+  private filePath(): string | undefined {
+    return this.storagePath
+      ? path.join(this.storagePath, IMAGE_CACHE_FILE)
+      : undefined;
+  }
+
+  private load(): Promise<Map<string, string>> {
+    if (this._entries) {
+      return Promise.resolve(this._entries);
+    }
+    this._loading ??= this.readFile().then((entries) => {
+      this._entries = entries;
+      this._chars = 0;
+      for (const description of entries.values()) {
+        this._chars += description.length;
+      }
+      return entries;
+    });
+    return this._loading;
+  }
+
+  private async readFile(): Promise<Map<string, string>> {
+    const file = this.filePath();
+    if (!file) {
+      return new Map();
+    }
+    try {
+      const data = JSON.parse(
+        await fs.promises.readFile(file, "utf8")
+      ) as Partial<CacheFile>;
+      if (data.version !== 1 || !Array.isArray(data.entries)) {
+        return new Map();
+      }
+      return new Map(
+        data.entries.filter(
+          (entry): entry is [string, string] =>
+            Array.isArray(entry) &&
+            typeof entry[0] === "string" &&
+            typeof entry[1] === "string"
+        )
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(
+          "[Z.ai Model Provider] Ignoring unreadable image description cache",
+          error
+        );
+      }
+      return new Map();
+    }
+  }
+
+  /**
+   * Write the cache file. Writes are serialized and go through a temporary
+   * file, so a crash never leaves a partial cache behind.
+   */
+  private save(): Promise<void> {
+    const file = this.filePath();
+    const entries = this._entries;
+    if (!file || !entries) {
+      return Promise.resolve();
+    }
+    return this.enqueue(async () => {
+      const data: CacheFile = { version: 1, entries: [...entries] };
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(data));
+      await fs.promises.rename(`${file}.tmp`, file);
+    }, "Failed to save image description cache");
+  }
+
+  private enqueue(task: () => Promise<void>, failure: string): Promise<void> {
+    this._saving = this._saving.then(task).catch((error: unknown) => {
+      console.warn(`[Z.ai Model Provider] ${failure}`, error);
+    });
+    return this._saving;
+  }
+}
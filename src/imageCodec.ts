@@ -0,0 +1,1631 @@
+import * as zlib from "zlib";
+
+/**
+ * Decoded image with 4 bytes (RGBA) per pixel
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/** Larger images are rejected before their pixels are allocated */
+const MAX_DECODED_PIXELS = 25_000_000;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Adam7 passes: x offset, y offset, x step, y step */
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+/** Channels per PNG color type */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Natural order index of each zigzag coefficient */
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+];
+
+/** DCT basis: DCT_BASIS[x * 8 + u] = C(u) / 2 · cos((2x + 1)uπ / 16) */
+const DCT_BASIS = (() => {
+  const basis = new Float64Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      const c = u === 0 ? Math.SQRT1_2 : 1;
+      basis[x * 8 + u] = (c / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return basis;
+})();
+
+function checkPixelCount(width: number, height: number): void {
+  if (width <= 0 || height <= 0) {
+    throw new Error("Image has no pixels");
+  }
+  if (width * height > MAX_DECODED_PIXELS) {
+    throw new Error(`Image is too large to decode (${width}×${height})`);
+  }
+}
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+function readUint16BE(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1];
+}
+
+/**
+ * Whether PNG data contains an animation (APNG `acTL` chunk).
+ * Decoding such a file yields its default image.
+ */
+export function isAnimatedPng(data: Uint8Array): boolean {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    if (type === "acTL") {
+      return true;
+    }
+    if (type === "IDAT" || type === "IEND") {
+      return false;
+    }
+    offset += 12 + buffer.readUInt32BE(offset);
+  }
+  return false;
+}
+
+/**
+ * Whether GIF data has more than one frame.
+ */
+export function isAnimatedGif(data: Uint8Array): boolean {
+  let frames = 0;
+  let pos = 13;
+  if (data[10] & 0x80) {
+    pos += 3 * (1 << ((data[10] & 0x07) + 1));
+  }
+  const skipSubBlocks = () => {
+    while (pos < data.length && data[pos] !== 0) {
+      pos += data[pos] + 1;
+    }
+    pos++;
+  };
+  while (pos < data.length) {
+    const block = data[pos++];
+    if (block === 0x21) {
+      pos++;
+      skipSubBlocks();
+    } else if (block === 0x2c) {
+      if (++frames > 1) {
+        return true;
+      }
+      const packed = data[pos + 8];
+      pos += 9;
+      if (packed & 0x80) {
+        pos += 3 * (1 << ((packed & 0x07) + 1));
+      }
+      pos++;
+      skipSubBlocks();
+    } else {
+      break;
+    }
+  }
+  return false;
+}
+
+/**
+ * Decode a PNG (any color type and bit depth, interlaced or not).
+ * Animated PNGs yield their default image.
+ */
+export function decodePng(data: Uint8Array): RgbaImage {
+  if (PNG_SIGNATURE.some((byte, i) => data[i] !== byte)) {
+    throw new Error("Not a PNG image");
+  }
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlaced = false;
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  const idat: Uint8Array[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const start = offset + 8;
+    const end = start + length;
+    if (end > buffer.length) {
+      throw new Error("Truncated PNG chunk");
+    }
+    const chunk = buffer.subarray(start, end);
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlaced = chunk[12] === 1;
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset = end + 4;
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (
+    !channels ||
+    ![1, 2, 4, 8, 16].includes(bitDepth) ||
+    (colorType === 3 && !palette)
+  ) {
+    throw new Error(
+      `Unsupported PNG format (color type ${colorType}, depth ${bitDepth})`
+    );
+  }
+  checkPixelCount(width, height);
+  if (idat.length === 0) {
+    throw new Error("PNG has no image data");
+  }
+
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const out = new Uint8Array(width * height * 4);
+  const maxSample = (1 << bitDepth) - 1;
+  const bytesPerPixel = Math.max(1, (channels * bitDepth) >> 3);
+  const sample = (line: Uint8Array, index: number): number => {
+    if (bitDepth === 8) {
+      return line[index];
+    }
+    if (bitDepth === 16) {
+      return (line[index * 2] << 8) | line[index * 2 + 1];
+    }
+    const bit = index * bitDepth;
+    return (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const toByte = (value: number): number =>
+    bitDepth === 16
+      ? value >> 8
+      : bitDepth === 8
+        ? value
+        : Math.round((value * 255) / maxSample);
+  const transparentSample = (channel: number): number =>
+    transparency ? readUint16BE(transparency, channel * 2) : -1;
+
+  let pos = 0;
+  for (const [x0, y0, dx, dy] of interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]]) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+    const stride = Math.ceil((passWidth * channels * bitDepth) / 8);
+    let previous = new Uint8Array(stride);
+    for (let y = 0; y < passHeight; y++) {
+      if (pos + 1 + stride > raw.length) {
+        throw new Error("Truncated PNG image data");
+      }
+      const filter = raw[pos];
+      const line = new Uint8Array(raw.subarray(pos + 1, pos + 1 + stride));
+      pos += 1 + stride;
+      unfilterPngLine(filter, line, previous, bytesPerPixel);
+
+      if (bitDepth === 8 && colorType === 6 && !interlaced) {
+        out.set(line, y * width * 4);
+        previous = line;
+        continue;
+      }
+      for (let x = 0; x < passWidth; x++) {
+        const o = ((y0 + y * dy) * width + x0 + x * dx) * 4;
+        if (colorType === 3) {
+          const index = sample(line, x);
+          out[o] = palette![index * 3] ?? 0;
+          out[o + 1] = palette![index * 3 + 1] ?? 0;
+          out[o + 2] = palette![index * 3 + 2] ?? 0;
+          out[o + 3] =
+            transparency && index < transparency.length
+              ? transparency[index]
+              : 255;
+        } else if (colorType === 0 || colorType === 4) {
+          const gray = sample(line, x * channels);
+          const value = toByte(gray);
+          out[o] = out[o + 1] = out[o + 2] = value;
+          out[o + 3] =
+            colorType === 4
+              ? toByte(sample(line, x * 2 + 1))
+              : gray === transparentSample(0)
+                ? 0
+                : 255;
+        } else {
+          const r = sample(line, x * channels);
+          const g = sample(line, x * channels + 1);
+          const b = sample(line, x * channels + 2);
+          out[o] = toByte(r);
+          out[o + 1] = toByte(g);
+          out[o + 2] = toByte(b);
+          out[o + 3] =
+            colorType === 6
+              ? toByte(sample(line, x * 4 + 3))
+              : r === transparentSample(0) &&
+                  g === transparentSample(1) &&
+                  b === transparentSample(2)
+                ? 0
+                : 255;
+        }
+      }
+      previous = line;
+    }
+  }
+  return { width, height, data: out };
+}
+
+function unfilterPngLine(
+  filter: number,
+  line: Uint8Array,
+  previous: Uint8Array,
+  bytesPerPixel: number
+): void {
+  for (let i = 0; i < line.length; i++) {
+    const a = i >= bytesPerPixel ? line[i - bytesPerPixel] : 0;
+    const b = previous[i];
+    const c = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+    switch (filter) {
+      case 0:
+        return;
+      case 1:
+        line[i] += a;
+        break;
+      case 2:
+        line[i] += b;
+        break;
+      case 3:
+        line[i] += (a + b) >> 1;
+        break;
+      case 4:
+        line[i] += paeth(a, b, c);
+        break;
+      default:
+        throw new Error(`Invalid PNG filter ${filter}`);
+    }
+  }
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Decode the first frame of a GIF.
+ */
+export function decodeGif(data: Uint8Array): RgbaImage {
+  if (
+    data.length < 13 ||
+    String.fromCharCode(...data.subarray(0, 4)) !== "GIF8"
+  ) {
+    throw new Error("Not a GIF image");
+  }
+  const width = data[6] | (data[7] << 8);
+  const height = data[8] | (data[9] << 8);
+  checkPixelCount(width, height);
+
+  let pos = 13;
+  let colorTable: Uint8Array | undefined;
+  if (data[10] & 0x80) {
+    const size = 3 * (1 << ((data[10] & 0x07) + 1));
+    colorTable = data.subarray(pos, pos + size);
+    pos += size;
+  }
+  const readSubBlocks = (): Uint8Array => {
+    const blocks: Uint8Array[] = [];
+    while (pos < data.length && data[pos] !== 0) {
+      const length = data[pos];
+      blocks.push(data.subarray(pos + 1, pos + 1 + length));
+      pos += length + 1;
+    }
+    pos++;
+    return Buffer.concat(blocks);
+  };
+
+  let transparentIndex = -1;
+  while (pos < data.length) {
+    const block = data[pos++];
+    if (block === 0x21) {
+      const label = data[pos++];
+      const extension = readSubBlocks();
+      if (label === 0xf9 && extension.length >= 4 && extension[0] & 0x01) {
+        transparentIndex = extension[3];
+      }
+    } else if (block === 0x2c) {
+      const left = data[pos] | (data[pos + 1] << 8);
+      const top = data[pos + 2] | (data[pos + 3] << 8);
+      const frameWidth = data[pos + 4] | (data[pos + 5] << 8);
+      const frameHeight = data[pos + 6] | (data[pos + 7] << 8);
+      const packed = data[pos + 8];
+      pos += 9;
+      if (packed & 0x80) {
+        const size = 3 * (1 << ((packed & 0x07) + 1));
+        colorTable = data.subarray(pos, pos + size);
+        pos += size;
+      }
+      if (!colorTable) {
+        throw new Error("GIF has no color table");
+      }
+      const minCodeSize = data[pos++];
+      const indices = decodeLzw(
+        minCodeSize,
+        readSubBlocks(),
+        frameWidth * frameHeight
+      );
+
+      const rows = packed & 0x40 ? interlacedRows(frameHeight) : undefined;
+      const out = new Uint8Array(width * height * 4);
+      for (let i = 0; i < frameHeight; i++) {
+        const y = top + (rows ? rows[i] : i);
+        if (y >= height) {
+          continue;
+        }
+        for (let x = 0; x < frameWidth && left + x < width; x++) {
+          const index = indices[i * frameWidth + x];
+          if (index === transparentIndex) {
+            continue;
+          }
+          const o = (y * width + left + x) * 4;
+          out[o] = colorTable[index * 3] ?? 0;
+          out[o + 1] = colorTable[index * 3 + 1] ?? 0;
+          out[o + 2] = colorTable[index * 3 + 2] ?? 0;
+          out[o + 3] = 255;
+        }
+      }
+      return { width, height, data: out };
+    } else {
+      break;
+    }
+  }
+  throw new Error("GIF has no image");
+}
+
+/**
+ * Rows of an interlaced GIF in the order they are stored.
+ */
+function interlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  for (const [start, step] of [
+    [0, 8],
+    [4, 8],
+    [2, 4],
+    [1, 2],
+  ]) {
+    for (let y = start; y < height; y += step) {
+      rows.push(y);
+    }
+  }
+  return rows;
+}
+
+function decodeLzw(
+  minCodeSize: number,
+  input: Uint8Array,
+  pixelCount: number
+): Uint8Array {
+  const out = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Uint16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+  for (let i = 0; i < clearCode; i++) {
+    suffix[i] = i;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let nextCode = clearCode + 2;
+  let oldCode = -1;
+  let first = 0;
+  let bits = 0;
+  let datum = 0;
+  let inPos = 0;
+  let outPos = 0;
+  while (outPos < pixelCount) {
+    while (bits < codeSize) {
+      if (inPos >= input.length) {
+        return out;
+      }
+      datum |= input[inPos++] << bits;
+      bits += 8;
+    }
+    let code = datum & codeMask;
+    datum >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      codeMask = (1 << codeSize) - 1;
+      nextCode = clearCode + 2;
+      oldCode = -1;
+      continue;
+    }
+    if (code === endCode) {
+      break;
+    }
+    if (oldCode === -1) {
+      out[outPos++] = suffix[code];
+      oldCode = code;
+      first = suffix[code];
+      continue;
+    }
+
+    const inCode = code;
+    let sp = 0;
+    if (code >= nextCode) {
+      stack[sp++] = first;
+      code = oldCode;
+    }
+    while (code >= clearCode) {
+      stack[sp++] = suffix[code];
+      code = prefix[code];
+    }
+    first = suffix[code];
+    stack[sp++] = first;
+    if (nextCode < 4096) {
+      prefix[nextCode] = oldCode;
+      suffix[nextCode] = first;
+      nextCode++;
+      if ((nextCode & codeMask) === 0 && nextCode < 4096) {
+        codeSize++;
+        codeMask = (1 << codeSize) - 1;
+      }
+    }
+    oldCode = inCode;
+    while (sp > 0 && outPos < pixelCount) {
+      out[outPos++] = stack[--sp];
+    }
+  }
+  return out;
+}
+
+interface HuffmanTable {
+  maxCode: Int32Array;
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  /** Blocks per line and column, padded to whole MCUs */
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** Quantized coefficients of all blocks, 64 each in natural order */
+  coefficients: Int16Array;
+  dcTable: number;
+  acTable: number;
+  prediction: number;
+}
+
+/** Spectral selection and successive approximation of a scan */
+interface JpegScanParameters {
+  start: number;
+  end: number;
+  high: number;
+  low: number;
+}
+
+function buildHuffmanTable(
+  counts: Uint8Array,
+  values: Uint8Array
+): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valueOffset = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    valueOffset[length] = k - code;
+    code += counts[length - 1];
+    k += counts[length - 1];
+    if (counts[length - 1] > 0) {
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff;
+  return { maxCode, valueOffset, values };
+}
+
+/**
+ * Reads entropy-coded bits, skipping stuffed zero bytes. At a marker it
+ * yields zeros without advancing, so the caller can find the marker.
+ */
+class JpegBitReader {
+  private _byte = 0;
+  private _bits = 0;
+
+  constructor(
+    private readonly data: Uint8Array,
+    public pos: number
+  ) {}
+
+  readBit(): number {
+    if (this._bits === 0) {
+      let byte = this.data[this.pos] ?? 0;
+      if (byte === 0xff) {
+        if (this.data[this.pos + 1] === 0) {
+          this.pos += 2;
+        } else {
+          byte = 0;
+        }
+      } else if (this.pos < this.data.length) {
+        this.pos++;
+      }
+      this._byte = byte;
+      this._bits = 8;
+    }
+    this._bits--;
+    return (this._byte >> this._bits) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  receiveExtend(length: number): number {
+    if (length === 0) {
+      return 0;
+    }
+    const value = this.receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = this.readBit();
+    let length = 1;
+    while (code > table.maxCode[length]) {
+      code = (code << 1) | this.readBit();
+      if (++length > 16) {
+        throw new Error("Invalid JPEG Huffman code");
+      }
+    }
+    return table.values[table.valueOffset[length] + code] ?? 0;
+  }
+
+  /** Skip to the byte after the restart marker */
+  restart(): void {
+    this._bits = 0;
+    while (this.pos + 1 < this.data.length) {
+      if (
+        this.data[this.pos] === 0xff &&
+        this.data[this.pos + 1] >= 0xd0 &&
+        this.data[this.pos + 1] <= 0xd7
+      ) {
+        this.pos += 2;
+        return;
+      }
+      this.pos++;
+    }
+  }
+}
+
+/**
+ * Read the orientation (1-8) from an EXIF segment.
+ * @returns 1 when the segment does not set one
+ */
+function readExifOrientation(segment: Uint8Array): number {
+  if (segment.length < 14) {
+    return 1;
+  }
+  const tiff = segment.subarray(6);
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = tiff[0] === 0x49;
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > tiff.length) {
+    return 1;
+  }
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) {
+      break;
+    }
+    if (view.getUint16(entry, little) === 0x0112) {
+      const orientation = view.getUint16(entry + 8, little);
+      return orientation >= 1 && orientation <= 8 ? orientation : 1;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Turn and mirror an image as its EXIF orientation says, so it stays
+ * upright when it is re-encoded without the metadata.
+ */
+function applyOrientation(image: RgbaImage, orientation: number): RgbaImage {
+  if (orientation <= 1) {
+    return image;
+  }
+  const { width, height, data } = image;
+  // Orientations 5-8 turn the image a quarter
+  const turned = orientation >= 5;
+  const outWidth = turned ? height : width;
+  const out = new Uint8Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let tx: number;
+      let ty: number;
+      switch (orientation) {
+        case 2: // mirror
+          [tx, ty] = [width - 1 - x, y];
+          break;
+        case 3: // turn half
+          [tx, ty] = [width - 1 - x, height - 1 - y];
+          break;
+        case 4: // flip
+          [tx, ty] = [x, height - 1 - y];
+          break;
+        case 5: // transpose
+          [tx, ty] = [y, x];
+          break;
+        case 6: // turn a quarter clockwise
+          [tx, ty] = [height - 1 - y, x];
+          break;
+        case 7: // transverse
+          [tx, ty] = [height - 1 - y, width - 1 - x];
+          break;
+        default: // turn a quarter counterclockwise
+          [tx, ty] = [y, width - 1 - x];
+      }
+      const from = (y * width + x) * 4;
+      const to = (ty * outWidth + tx) * 4;
+      out[to] = data[from];
+      out[to + 1] = data[from + 1];
+      out[to + 2] = data[from + 2];
+      out[to + 3] = data[from + 3];
+    }
+  }
+  return { width: outWidth, height: turned ? width : height, data: out };
+}
+
+/**
+ * Decode a baseline, extended sequential or progressive Huffman JPEG,
+ * upright as set by its EXIF orientation. Lossless and arithmetic-coded
+ * JPEGs are not supported.
+ */
+export function decodeJpeg(data: Uint8Array): RgbaImage {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    throw new Error("Not a JPEG image");
+  }
+  const quantTables: Int32Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  const components: JpegComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let maxH = 1;
+  let maxV = 1;
+  let mcusPerLine = 0;
+  let mcusPerColumn = 0;
+  let progressive = false;
+  let restartInterval = 0;
+  let adobeTransform = -1;
+  let orientation = 1;
+  let scanned = false;
+
+  let pos = 2;
+  while (pos + 3 < data.length) {
+    if (data[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = data[pos + 1];
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    pos += 2;
+    if (marker === 0xd9) {
+      break;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      continue;
+    }
+    const length = readUint16BE(data, pos);
+    const segment = data.subarray(pos + 2, pos + length);
+
+    if (marker === 0xdb) {
+      for (let p = 0; p < segment.length; ) {
+        const precision = segment[p] >> 4;
+        const table = new Int32Array(64);
+        quantTables[segment[p] & 0x0f] = table;
+        p++;
+        for (let i = 0; i < 64; i++) {
+          table[ZIGZAG[i]] = precision
+            ? readUint16BE(segment, p + i * 2)
+            : segment[p + i];
+        }
+        p += precision ? 128 : 64;
+      }
+    } else if (marker === 0xc4) {
+      for (let p = 0; p < segment.length; ) {
+        const tableClass = segment[p] >> 4;
+        const id = segment[p] & 0x0f;
+        const counts = segment.subarray(p + 1, p + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const table = buildHuffmanTable(
+          counts,
+          segment.subarray(p + 17, p + 17 + total)
+        );
+        (tableClass === 0 ? dcTables : acTables)[id] = table;
+        p += 17 + total;
+      }
+    } else if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) {
+      if (segment[0] !== 8) {
+        throw new Error(`Unsupported JPEG precision ${segment[0]}`);
+      }
+      progressive = marker === 0xc2;
+      height = readUint16BE(segment, 1);
+      width = readUint16BE(segment, 3);
+      checkPixelCount(width, height);
+      for (let i = 0; i < segment[5]; i++) {
+        const o = 6 + i * 3;
+        components.push({
+          id: segment[o],
+          h: Math.max(1, segment[o + 1] >> 4),
+          v: Math.max(1, segment[o + 1] & 0x0f),
+          quantTable: segment[o + 2],
+          blocksPerLine: 0,
+          blocksPerColumn: 0,
+          coefficients: new Int16Array(0),
+          dcTable: 0,
+          acTable: 0,
+          prediction: 0,
+        });
+      }
+      maxH = Math.max(...components.map((c) => c.h));
+      maxV = Math.max(...components.map((c) => c.v));
+      mcusPerLine = Math.ceil(width / (8 * maxH));
+      mcusPerColumn = Math.ceil(height / (8 * maxV));
+      for (const component of components) {
+        component.blocksPerLine = mcusPerLine * component.h;
+        component.blocksPerColumn = mcusPerColumn * component.v;
+        component.coefficients = new Int16Array(
+          component.blocksPerLine * component.blocksPerColumn * 64
+        );
+      }
+    } else if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4) {
+      throw new Error("Lossless and arithmetic-coded JPEGs are not supported");
+    } else if (marker === 0xdd) {
+      restartInterval = readUint16BE(segment, 0);
+    } else if (
+      marker === 0xee &&
+      String.fromCharCode(...segment.subarray(0, 5)) === "Adobe"
+    ) {
+      adobeTransform = segment[11];
+    } else if (
+      marker === 0xe1 &&
+      String.fromCharCode(...segment.subarray(0, 6)) === "Exif\0\0"
+    ) {
+      orientation = readExifOrientation(segment);
+    } else if (marker === 0xda) {
+      if (components.length === 0) {
+        throw new Error("JPEG scan before frame header");
+      }
+      const count = segment[0];
+      const scanComponents: JpegComponent[] = [];
+      for (let i = 0; i < count; i++) {
+        const component = components.find((c) => c.id === segment[1 + i * 2]);
+        if (!component) {
+          throw new Error("JPEG scan references an unknown component");
+        }
+        component.dcTable = segment[2 + i * 2] >> 4;
+        component.acTable = segment[2 + i * 2] & 0x0f;
+        component.prediction = 0;
+        scanComponents.push(component);
+      }
+      const o = 1 + count * 2;
+      const parameters: JpegScanParameters = progressive
+        ? {
+            start: segment[o],
+            end: segment[o + 1],
+            high: segment[o + 2] >> 4,
+            low: segment[o + 2] & 0x0f,
+          }
+        : { start: 0, end: 63, high: 0, low: 0 };
+      const reader = new JpegBitReader(data, pos + length);
+      decodeJpegScan(reader, scanComponents, parameters, {
+        dcTables,
+        acTables,
+        restartInterval,
+        width,
+        height,
+        maxH,
+        maxV,
+        mcusPerLine,
+        mcusPerColumn,
+      });
+      scanned = true;
+      pos = reader.pos;
+      continue;
+    }
+    pos += length;
+  }
+
+  if (!scanned) {
+    throw new Error("JPEG has no image data");
+  }
+  const planes = components.map((component) => {
+    const quant = quantTables[component.quantTable];
+    if (!quant) {
+      throw new Error("JPEG references a missing quantization table");
+    }
+    return renderJpegPlane(component, quant);
+  });
+  return applyOrientation(
+    convertJpegColors(
+      components,
+      planes,
+      width,
+      height,
+      maxH,
+      maxV,
+      adobeTransform
+    ),
+    orientation
+  );
+}
+
+function decodeJpegScan(
+  reader: JpegBitReader,
+  components: JpegComponent[],
+  scan: JpegScanParameters,
+  frame: {
+    dcTables: HuffmanTable[];
+    acTables: HuffmanTable[];
+    restartInterval: number;
+    width: number;
+    height: number;
+    maxH: number;
+    maxV: number;
+    mcusPerLine: number;
+    mcusPerColumn: number;
+  }
+): void {
+  const table = (tables: HuffmanTable[], id: number): HuffmanTable => {
+    const found = tables[id];
+    if (!found) {
+      throw new Error("JPEG scan references a missing Huffman table");
+    }
+    return found;
+  };
+
+  // Progressive AC state carried across blocks
+  let eobRun = 0;
+  let refineState = 0;
+  let refineValue = 0;
+
+  const decodeBaseline = (component: JpegComponent, offset: number) => {
+    const c = component.coefficients;
+    const ac = table(frame.acTables, component.acTable);
+    component.prediction += reader.receiveExtend(
+      reader.decode(table(frame.dcTables, component.dcTable))
+    );
+    c[offset] = component.prediction;
+    for (let k = 1; k < 64; ) {
+      const rs = reader.decode(ac);
+      const size = rs & 0x0f;
+      const run = rs >> 4;
+      if (size === 0) {
+        if (run < 15) {
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) {
+        break;
+      }
+      c[offset + ZIGZAG[k]] = reader.receiveExtend(size);
+      k++;
+    }
+  };
+
+  const decodeDcFirst = (component: JpegComponent, offset: number) => {
+    component.prediction += reader.receiveExtend(
+      reader.decode(table(frame.dcTables, component.dcTable))
+    );
+    component.coefficients[offset] = component.prediction * (1 << scan.low);
+  };
+
+  const decodeDcRefine = (component: JpegComponent, offset: number) => {
+    if (reader.readBit()) {
+      component.coefficients[offset] |= 1 << scan.low;
+    }
+  };
+
+  const decodeAcFirst = (component: JpegComponent, offset: number) => {
+    if (eobRun > 0) {
+      eobRun--;
+      return;
+    }
+    const ac = table(frame.acTables, component.acTable);
+    for (let k = scan.start; k <= scan.end; ) {
+      const rs = reader.decode(ac);
+      const size = rs & 0x0f;
+      const run = rs >> 4;
+      if (size === 0) {
+        if (run < 15) {
+          eobRun = reader.receive(run) + (1 << run) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) {
+        break;
+      }
+      component.coefficients[offset + ZIGZAG[k]] =
+        reader.receiveExtend(size) * (1 << scan.low);
+      k++;
+    }
+  };
+
+  // States: 0 read next code, 1 skip zeros (ZRL), 2 skip zeros then set
+  // refineValue, 3 set refineValue at the next zero, 4 inside an EOB run
+  const decodeAcRefine = (component: JpegComponent, offset: number) => {
+    const c = component.coefficients;
+    const ac = table(frame.acTables, component.acTable);
+    let run = 0;
+    for (let k = scan.start; k <= scan.end; ) {
+      const z = offset + ZIGZAG[k];
+      const sign = c[z] < 0 ? -1 : 1;
+      if (refineState === 0) {
+        const rs = reader.decode(ac);
+        const size = rs & 0x0f;
+        run = rs >> 4;
+        if (size === 0) {
+          if (run < 15) {
+            eobRun = reader.receive(run) + (1 << run);
+            refineState = 4;
+          } else {
+            run = 16;
+            refineState = 1;
+          }
+        } else {
+          refineValue = reader.receiveExtend(size);
+          refineState = run ? 2 : 3;
+        }
+        continue;
+      }
+      if (c[z]) {
+        c[z] += sign * (reader.readBit() << scan.low);
+      } else if (refineState === 1 || refineState === 2) {
+        run--;
+        if (run === 0) {
+          refineState = refineState === 2 ? 3 : 0;
+        }
+      } else if (refineState === 3) {
+        c[z] = refineValue * (1 << scan.low);
+        refineState = 0;
+      }
+      k++;
+    }
+    if (refineState === 4) {
+      eobRun--;
+      if (eobRun === 0) {
+        refineState = 0;
+      }
+    }
+  };
+
+  const decodeBlock =
+    scan.start === 0 && scan.end === 63 && scan.high === 0 && scan.low === 0
+      ? decodeBaseline
+      : scan.start === 0
+        ? scan.high === 0
+          ? decodeDcFirst
+          : decodeDcRefine
+        : scan.high === 0
+          ? decodeAcFirst
+          : decodeAcRefine;
+  const decodeAt = (component: JpegComponent, row: number, col: number) =>
+    decodeBlock(component, (row * component.blocksPerLine + col) * 64);
+
+  let unit = 0;
+  const nextUnit = () => {
+    if (
+      frame.restartInterval > 0 &&
+      unit > 0 &&
+      unit % frame.restartInterval === 0
+    ) {
+      reader.restart();
+      eobRun = 0;
+      refineState = 0;
+      for (const component of components) {
+        component.prediction = 0;
+      }
+    }
+    unit++;
+  };
+
+  if (components.length === 1) {
+    // Non-interleaved scans cover only the component's own blocks
+    const [component] = components;
+    const blocksPerLine = Math.ceil(
+      Math.ceil((frame.width * component.h) / frame.maxH) / 8
+    );
+    const blocksPerColumn = Math.ceil(
+      Math.ceil((frame.height * component.v) / frame.maxV) / 8
+    );
+    for (let row = 0; row < blocksPerColumn; row++) {
+      for (let col = 0; col < blocksPerLine; col++) {
+        nextUnit();
+        decodeAt(component, row, col);
+      }
+    }
+    return;
+  }
+
+  for (let mcuRow = 0; mcuRow < frame.mcusPerColumn; mcuRow++) {
+    for (let mcuCol = 0; mcuCol < frame.mcusPerLine; mcuCol++) {
+      nextUnit();
+      for (const component of components) {
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            decodeAt(
+              component,
+              mcuRow * component.v + v,
+              mcuCol * component.h + h
+            );
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Dequantize and inverse-transform all blocks of a component.
+ * @returns samples with a stride of `blocksPerLine * 8`
+ */
+function renderJpegPlane(
+  component: JpegComponent,
+  quant: Int32Array
+): Uint8Array {
+  const stride = component.blocksPerLine * 8;
+  const plane = new Uint8Array(stride * component.blocksPerColumn * 8);
+  const block = new Float64Array(64);
+  for (let row = 0; row < component.blocksPerColumn; row++) {
+    for (let col = 0; col < component.blocksPerLine; col++) {
+      const offset = (row * component.blocksPerLine + col) * 64;
+      for (let i = 0; i < 64; i++) {
+        block[i] = component.coefficients[offset + i] * quant[i];
+      }
+      inverseDct(block, plane, row * 8 * stride + col * 8, stride);
+    }
+  }
+  return plane;
+}
+
+function inverseDct(
+  coefficients: Float64Array,
+  plane: Uint8Array,
+  offset: number,
+  stride: number
+): void {
+  const rows = new Float64Array(64);
+  for (let v = 0; v < 8; v++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let u = 0; u < 8; u++) {
+        sum += DCT_BASIS[x * 8 + u] * coefficients[v * 8 + u];
+      }
+      rows[v * 8 + x] = sum;
+    }
+  }
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) {
+        sum += DCT_BASIS[y * 8 + v] * rows[v * 8 + x];
+      }
+      plane[offset + y * stride + x] = clampByte(sum + 128);
+    }
+  }
+}
+
+function convertJpegColors(
+  components: JpegComponent[],
+  planes: Uint8Array[],
+  width: number,
+  height: number,
+  maxH: number,
+  maxV: number,
+  adobeTransform: number
+): RgbaImage {
+  const out = new Uint8Array(width * height * 4);
+  const samples = new Float64Array(components.length);
+  const ycc =
+    components.length === 3
+      ? adobeTransform !== 0
+      : components.length === 4 && adobeTransform === 2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < components.length; c++) {
+        const component = components[c];
+        const sy = Math.floor((y * component.v) / maxV);
+        const sx = Math.floor((x * component.h) / maxH);
+        samples[c] = planes[c][sy * component.blocksPerLine * 8 + sx];
+      }
+      const o = (y * width + x) * 4;
+      if (components.length < 3) {
+        out[o] = out[o + 1] = out[o + 2] = samples[0];
+      } else {
+        let [r, g, b] = [samples[0], samples[1], samples[2]];
+        if (ycc) {
+          const cb = samples[1] - 128;
+          const cr = samples[2] - 128;
+          r = samples[0] + 1.402 * cr;
+          g = samples[0] - 0.344136 * cb - 0.714136 * cr;
+          b = samples[0] + 1.772 * cb;
+        }
+        if (components.length === 4) {
+          // Adobe stores CMYK inverted
+          const k = samples[3] / 255;
+          r = clampByte(r) * k;
+          g = clampByte(g) * k;
+          b = clampByte(b) * k;
+        }
+        out[o] = clampByte(r);
+        out[o + 1] = clampByte(g);
+        out[o + 2] = clampByte(b);
+      }
+      out[o + 3] = 255;
+    }
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * Scale an image down by averaging the source pixels under each target
+ * pixel. Colors are weighted by alpha so transparent pixels do not darken
+ * the edges.
+ */
+export function resizeImage(
+  image: RgbaImage,
+  width: number,
+  height: number
+): RgbaImage {
+  const out = new Uint8Array(width * height * 4);
+  const xScale = image.width / width;
+  const yScale = image.height / height;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * yScale);
+    const y1 = Math.max(
+      y0 + 1,
+      Math.min(image.height, Math.floor((y + 1) * yScale))
+    );
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * xScale);
+      const x1 = Math.max(
+        x0 + 1,
+        Math.min(image.width, Math.floor((x + 1) * xScale))
+      );
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          const alpha = image.data[i + 3];
+          r += image.data[i] * alpha;
+          g += image.data[i + 1] * alpha;
+          b += image.data[i + 2] * alpha;
+          a += alpha;
+        }
+      }
+      const o = (y * width + x) * 4;
+      if (a > 0) {
+        out[o] = Math.round(r / a);
+        out[o + 1] = Math.round(g / a);
+        out[o + 2] = Math.round(b / a);
+        out[o + 3] = Math.round(a / ((y1 - y0) * (x1 - x0)));
+      }
+    }
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * Whether every pixel is fully opaque.
+ */
+export function isOpaque(image: RgbaImage): boolean {
+  for (let i = 3; i < image.data.length; i += 4) {
+    if (image.data[i] !== 255) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function pngChunk(type: string, data: Uint8Array): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "latin1");
+  chunk.set(data, 8);
+  chunk.writeUInt32BE(
+    zlib.crc32(chunk.subarray(4, 8 + data.length)),
+    8 + data.length
+  );
+  return chunk;
+}
+
+/**
+ * Encode an image as an 8-bit PNG, RGB when it is fully opaque. Each row
+ * uses the filter with the smallest sum of absolute differences.
+ */
+export function encodePng(image: RgbaImage): Uint8Array {
+  const channels = isOpaque(image) ? 3 : 4;
+  const stride = image.width * channels;
+  const raw = Buffer.alloc(image.height * (stride + 1));
+  let line = new Uint8Array(stride);
+  let previous = new Uint8Array(stride);
+  const candidate = new Uint8Array(stride);
+  const best = new Uint8Array(stride);
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      for (let c = 0; c < channels; c++) {
+        line[x * channels + c] = image.data[(y * image.width + x) * 4 + c];
+      }
+    }
+    let bestFilter = 0;
+    let bestScore = Infinity;
+    for (let filter = 0; filter <= 4; filter++) {
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const a = i >= channels ? line[i - channels] : 0;
+        const b = previous[i];
+        const c = i >= channels ? previous[i - channels] : 0;
+        const predictor =
+          filter === 0
+            ? 0
+            : filter === 1
+              ? a
+              : filter === 2
+                ? b
+                : filter === 3
+                  ? (a + b) >> 1
+                  : paeth(a, b, c);
+        const value = (line[i] - predictor) & 0xff;
+        candidate[i] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        best.set(candidate);
+      }
+    }
+    const o = y * (stride + 1);
+    raw[o] = bestFilter;
+    raw.set(best, o + 1);
+    [previous, line] = [line, previous];
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8;
+  header[9] = channels === 3 ? 2 : 6;
+  return new Uint8Array(
+    Buffer.concat([
+      Buffer.from(PNG_SIGNATURE),
+      pngChunk("IHDR", header),
+      pngChunk("IDAT", zlib.deflateSync(raw, { level: 9 })),
+      pngChunk("IEND", new Uint8Array(0)),
+    ])
+  );
+}
+
+/** Annex K luminance quantization table, natural order */
+const JPEG_LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16,
+  24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109,
+  103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+/** Annex K chrominance quantization table, natural order */
+const JPEG_CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56,
+  99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99,
+];
+
+/** Annex K Huffman tables: code counts per length, then values */
+const JPEG_DC_LUMA = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const JPEG_DC_CHROMA = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const JPEG_AC_LUMA = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  values: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06,
+    0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08,
+    0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72,
+    0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45,
+    0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59,
+    0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75,
+    0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3,
+    0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6,
+    0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9,
+    0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4,
+    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+const JPEG_AC_CHROMA = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  values: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41,
+    0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91,
+    0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1,
+    0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44,
+    0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58,
+    0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74,
+    0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a,
+    0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4,
+    0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7,
+    0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4,
+    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+
+/** Code and length per symbol of a Huffman table spec */
+function huffmanCodes(spec: { counts: number[]; values: number[] }): {
+  codes: Int32Array;
+  lengths: Uint8Array;
+} {
+  const codes = new Int32Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++) {
+      codes[spec.values[k]] = code++;
+      lengths[spec.values[k]] = length;
+      k++;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+}
+
+class JpegBitWriter {
+  private readonly _bytes: number[] = [];
+  private _buffer = 0;
+  private _bits = 0;
+
+  write(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this._buffer = (this._buffer << 1) | ((value >> i) & 1);
+      if (++this._bits === 8) {
+        this._bytes.push(this._buffer);
+        if (this._buffer === 0xff) {
+          this._bytes.push(0);
+        }
+        this._buffer = 0;
+        this._bits = 0;
+      }
+    }
+  }
+
+  /** Pad the last byte with ones */
+  finish(): number[] {
+    if (this._bits > 0) {
+      this.write((1 << (8 - this._bits)) - 1, 8 - this._bits);
+    }
+    return this._bytes;
+  }
+}
+
+function scaleQuantTable(table: number[], quality: number): number[] {
+  const q = Math.min(100, Math.max(1, quality));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  return table.map((value) =>
+    Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100)))
+  );
+}
+
+/**
+ * Encode an opaque image as a baseline JPEG (4:4:4, Annex K tables).
+ * @param quality 1-100, as in libjpeg
+ */
+export function encodeJpeg(image: RgbaImage, quality = 85): Uint8Array {
+  const quantTables = [
+    scaleQuantTable(JPEG_LUMA_QUANT, quality),
+    scaleQuantTable(JPEG_CHROMA_QUANT, quality),
+  ];
+  const dcCodes = [huffmanCodes(JPEG_DC_LUMA), huffmanCodes(JPEG_DC_CHROMA)];
+  const acCodes = [huffmanCodes(JPEG_AC_LUMA), huffmanCodes(JPEG_AC_CHROMA)];
+  const writer = new JpegBitWriter();
+  const predictions = [0, 0, 0];
+  const block = new Float64Array(64);
+  const rows = new Float64Array(64);
+  const quantized = new Int32Array(64);
+
+  const writeValue = (value: number): number => {
+    const size = value === 0 ? 0 : 32 - Math.clz32(Math.abs(value));
+    if (size > 0) {
+      writer.write(value < 0 ? value + (1 << size) - 1 : value, size);
+    }
+    return size;
+  };
+  const encodeBlock = (component: number) => {
+    const table = component === 0 ? 0 : 1;
+    const quant = quantTables[table];
+    // Forward DCT: F(v,u) = Σx Σy basis(x,u) · basis(y,v) · f(y,x)
+    for (let y = 0; y < 8; y++) {
+      for (let u = 0; u < 8; u++) {
+        let sum = 0;
+        for (let x = 0; x < 8; x++) {
+          sum += DCT_BASIS[x * 8 + u] * block[y * 8 + x];
+        }
+        rows[y * 8 + u] = sum;
+      }
+    }
+    for (let v = 0; v < 8; v++) {
+      for (let u = 0; u < 8; u++) {
+        let sum = 0;
+        for (let y = 0; y < 8; y++) {
+          sum += DCT_BASIS[y * 8 + v] * rows[y * 8 + u];
+        }
+        quantized[v * 8 + u] = Math.round(sum / quant[v * 8 + u]);
+      }
+    }
+
+    const dc = dcCodes[table];
+    const diff = quantized[0] - predictions[component];
+    predictions[component] = quantized[0];
+    const dcSize = diff === 0 ? 0 : 32 - Math.clz32(Math.abs(diff));
+    writer.write(dc.codes[dcSize], dc.lengths[dcSize]);
+    writeValue(diff);
+
+    const ac = acCodes[table];
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const value = quantized[ZIGZAG[k]];
+      if (value === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        writer.write(ac.codes[0xf0], ac.lengths[0xf0]);
+        run -= 16;
+      }
+      const size = 32 - Math.clz32(Math.abs(value));
+      const symbol = (run << 4) | size;
+      writer.write(ac.codes[symbol], ac.lengths[symbol]);
+      writeValue(value);
+      run = 0;
+    }
+    if (run > 0) {
+      writer.write(ac.codes[0], ac.lengths[0]);
+    }
+  };
+
+  const pixels = image.width * image.height;
+  const planes = [0, 1, 2].map(() => new Float32Array(pixels));
+  for (let p = 0; p < pixels; p++) {
+    const r = image.data[p * 4];
+    const g = image.data[p * 4 + 1];
+    const b = image.data[p * 4 + 2];
+    planes[0][p] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+    planes[1][p] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+    planes[2][p] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+  for (let by = 0; by < image.height; by += 8) {
+    for (let bx = 0; bx < image.width; bx += 8) {
+      for (let component = 0; component < 3; component++) {
+        const plane = planes[component];
+        for (let y = 0; y < 8; y++) {
+          // Edge blocks repeat the last row and column
+          const row = Math.min(by + y, image.height - 1) * image.width;
+          for (let x = 0; x < 8; x++) {
+            block[y * 8 + x] = plane[row + Math.min(bx + x, image.width - 1)];
+          }
+        }
+        encodeBlock(component);
+      }
+    }
+  }
+  const scan = writer.finish();
+
+  const segment = (marker: number, body: number[]) => [
+    0xff,
+    marker,
+    (body.length + 2) >> 8,
+    (body.length + 2) & 0xff,
+    ...body,
+  ];
+  const huffmanSegment = (
+    tableClass: number,
+    id: number,
+    spec: { counts: number[]; values: number[] }
+  ) => [(tableClass << 4) | id, ...spec.counts, ...spec.values];
+  const header = [
+    0xff,
+    0xd8,
+    ...segment(0xdb, [
+      0,
+      ...ZIGZAG.map((z) => quantTables[0][z]),
+      1,
+      ...ZIGZAG.map((z) => quantTables[1][z]),
+    ]),
+    ...segment(0xc0, [
+      8,
+      image.height >> 8,
+      image.height & 0xff,
+      image.width >> 8,
+      image.width & 0xff,
+      3,
+      1,
+      0x11,
+      0,
+      2,
+      0x11,
+      1,
+      3,
+      0x11,
+      1,
+    ]),
+    ...segment(0xc4, [
+      ...huffmanSegment(0, 0, JPEG_DC_LUMA),
+      ...huffmanSegment(1, 0, JPEG_AC_LUMA),
+      ...huffmanSegment(0, 1, JPEG_DC_CHROMA),
+      ...huffmanSegment(1, 1, JPEG_AC_CHROMA),
+    ]),
+    ...segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]),
+  ];
+  const out = new Uint8Array(header.length + scan.length + 2);
+  out.set(header, 0);
+  out.set(scan, header.length);
+  out.set([0xff, 0xd9], header.length + scan.length);
+  return out;
+}
@@ -0,0 +1,136 @@
+import {
+  decodeGif,
+  decodeJpeg,
+  decodePng,
+  encodeJpeg,
+  encodePng,
+  isOpaque,
+  resizeImage,
+} from "./imageCodec";
+import type { RgbaImage } from "./imageCodec";
+import type { ImageDimensions, ZaiImageLimits } from "./images";
+
+/** Resized images are not made smaller than this to fit the byte limit */
+const MIN_IMAGE_DIMENSION = 64;
+/** Encoding attempts before an image is rejected */
+const MAX_RESIZE_ATTEMPTS = 8;
+/** Quality of re-encoded JPEGs */
+const JPEG_QUALITY = 85;
+
+export type ImageFormat = "png" | "jpeg" | "gif" | "webp";
+
+/**
+ * Input of `convertImage`. This module does not depend on `vscode`, so it
+ * can run in the image worker.
+ */
+export interface ZaiImageConversionInput {
+  format: ImageFormat | undefined;
+  data: Uint8Array;
+  limits: ZaiImageLimits;
+  /** Give up as soon as re-encoding makes the image larger than `data` */
+  keepSmallerOriginal: boolean;
+}
+
+/**
+ * Result of `convertImage`:
+ * - `converted`: resized and/or re-encoded within the limits
+ * - `larger`: re-encoding made the image larger, so it is kept as it is
+ * - `undecodable`: the image could not be decoded
+ * - `tooLarge`: no attempt got within the byte limit
+ */
+export type ZaiImageConversion =
+  | {
+      status: "converted";
+      mimeType: string;
+      data: Uint8Array;
+      original: ImageDimensions;
+      dimensions: ImageDimensions;
+    }
+  | { status: "larger" }
+  | { status: "undecodable"; reason: string }
+  | { status: "tooLarge" };
+
+function decodeImage(
+  format: ImageFormat | undefined,
+  data: Uint8Array
+): RgbaImage {
+  switch (format) {
+    case "png":
+      return decodePng(data);
+    case "jpeg":
+      return decodeJpeg(data);
+    case "gif":
+      return decodeGif(data);
+    case "webp":
+      throw new Error("WebP images cannot be resized");
+    default:
+      throw new Error("The image format is not supported");
+  }
+}
+
+/**
+ * Decode an image and scale it down until it fits the limits. JPEGs stay
+ * JPEG and other images become PNG; opaque images switch to JPEG when that
+ * is smaller than the PNG that does not fit.
+ */
+export function convertImage(
+  input: ZaiImageConversionInput
+): ZaiImageConversion {
+  const { format, limits } = input;
+  let decoded: RgbaImage;
+  try {
+    decoded = decodeImage(format, input.data);
+  } catch (error) {
+    return {
+      status: "undecodable",
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const original = { width: decoded.width, height: decoded.height };
+  let scale = Math.min(
+    1,
+    limits.maxDimension / Math.max(original.width, original.height),
+    Math.sqrt(limits.maxPixels / (original.width * original.height))
+  );
+  let asJpeg = format === "jpeg";
+  const opaque = isOpaque(decoded);
+  for (let attempt = 0; attempt < MAX_RESIZE_ATTEMPTS; attempt++) {
+    const width = Math.max(1, Math.round(original.width * scale));
+    const height = Math.max(1, Math.round(original.height * scale));
+    const resized =
+      width === original.width && height === original.height
+        ? decoded
+        : resizeImage(decoded, width, height);
+    let data = asJpeg ? encodeJpeg(resized, JPEG_QUALITY) : encodePng(resized);
+    if (!asJpeg && opaque && data.length > limits.maxBytes) {
+      // Photos saved as PNG shrink far more as JPEG; screenshots usually not
+      const jpeg = encodeJpeg(resized, JPEG_QUALITY);
+      if (jpeg.length < data.length) {
+        data = jpeg;
+        asJpeg = true;
+      }
+    }
+    if (input.keepSmallerOriginal && data.length > input.data.length) {
+      return { status: "larger" };
+    }
+    if (data.length <= limits.maxBytes) {
+      return {
+        status: "converted",
+        mimeType: asJpeg ? "image/jpeg" : "image/png",
+        data,
+        original,
+        dimensions: { width, height },
+      };
+    }
+    if (Math.max(width, height) <= MIN_IMAGE_DIMENSION) {
+      break;
+    }
+    // Encoded size shrinks roughly with the pixel count
+    scale *= Math.min(
+      0.9,
+      Math.max(0.5, Math.sqrt(limits.maxBytes / data.length))
+    );
+  }
+  return { status: "tooLarge" };
+}
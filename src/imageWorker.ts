@@ -0,0 +1,9 @@
+import { parentPort, workerData } from "worker_threads";
+import { convertImage } from "./imageConversion";
+import type { ZaiImageConversionInput } from "./imageConversion";
+
+/**
+ * Entry point of the worker thread that converts one image, so decoding
+ * and encoding do not block the extension host.
+ */
+parentPort?.postMessage(convertImage(workerData as ZaiImageConversionInput));
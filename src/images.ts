@@ -0,0 +1,489 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import * as vscode from "vscode";
+import { isAnimatedGif, isAnimatedPng } from "./imageCodec";
+import { convertImage } from "./imageConversion";
+import type {
+  ImageFormat,
+  ZaiImageConversion,
+  ZaiImageConversionInput,
+} from "./imageConversion";
+import type { ZaiModelInfo } from "./types";
+
+/**
+ * Pixel size of an image
+ */
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * How a target model charges tokens for an image
+ */
+export type ZaiImageTokenRule =
+  | {
+      kind: "tiles";
+      /** Edge length of a square tile in pixels */
+      tileSize: number;
+      /** Tokens per tile */
+      tokensPerTile: number;
+      /** Larger images are scaled down by the API to this many tiles */
+      maxTiles: number;
+    }
+  | {
+      kind: "description";
+      /** Tokens of the text description that replaces the image */
+      tokens: number;
+    };
+
+/**
+ * GLM vision models split images into 560×560 tiles; with 14px patches
+ * merged 2×2 each tile becomes 20×20 = 400 tokens.
+ */
+export const GLM_VISION_TOKEN_RULE = {
+  kind: "tiles",
+  tileSize: 560,
+  tokensPerTile: 400,
+  maxTiles: 16,
+} as const satisfies ZaiImageTokenRule;
+
+/**
+ * Non-vision models receive a description from the vision model instead,
+ * which is capped at 2000 output tokens.
+ */
+const DESCRIBED_IMAGE_TOKEN_RULE: ZaiImageTokenRule = {
+  kind: "description",
+  tokens: 1000,
+};
+
+/** Cost of an image whose size cannot be read from its header */
+const UNKNOWN_IMAGE_TOKENS = 2000;
+
+/** Default for `zai.images.maxSizeKB` */
+const DEFAULT_MAX_IMAGE_KB = 1024;
+/** Default for `zai.images.analysisConcurrency` */
+const DEFAULT_ANALYSIS_CONCURRENCY = 3;
+/** Upper bound for `zai.images.analysisConcurrency` */
+const MAX_ANALYSIS_CONCURRENCY = 8;
+/** Compiled image worker, next to this module in `out` */
+const IMAGE_WORKER_FILE = path.join(__dirname, "imageWorker.js");
+/** Prepared images kept for later requests of the same conversation */
+const PREPARED_CACHE_SIZE = 32;
+
+/**
+ * Token rule for images sent to a model.
+ */
+export function getImageTokenRule(
+  model: Pick<ZaiModelInfo, "supportsVision"> | undefined
+): ZaiImageTokenRule {
+  return model && !model.supportsVision
+    ? DESCRIBED_IMAGE_TOKEN_RULE
+    : GLM_VISION_TOKEN_RULE;
+}
+
+function readUint16BE(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1];
+}
+
+function readUint16LE(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
+
+function readUint24LE(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+}
+
+function readUint32BE(data: Uint8Array, offset: number): number {
+  return (
+    ((data[offset] << 24) >>> 0) +
+    ((data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3])
+  );
+}
+
+function hasAscii(data: Uint8Array, offset: number, text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (data[offset + i] !== text.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function pngDimensions(data: Uint8Array): ImageDimensions | undefined {
+  // Signature, then the IHDR chunk: length, type, width, height
+  if (
+    data.length < 24 ||
+    !hasAscii(data, 1, "PNG") ||
+    !hasAscii(data, 12, "IHDR")
+  ) {
+    return undefined;
+  }
+  return { width: readUint32BE(data, 16), height: readUint32BE(data, 20) };
+}
+
+function gifDimensions(data: Uint8Array): ImageDimensions | undefined {
+  if (data.length < 10 || !hasAscii(data, 0, "GIF8")) {
+    return undefined;
+  }
+  return { width: readUint16LE(data, 6), height: readUint16LE(data, 8) };
+}
+
+function webpDimensions(data: Uint8Array): ImageDimensions | undefined {
+  if (
+    data.length < 30 ||
+    !hasAscii(data, 0, "RIFF") ||
+    !hasAscii(data, 8, "WEBP")
+  ) {
+    return undefined;
+  }
+  if (hasAscii(data, 12, "VP8X")) {
+    // Extended format: 24-bit canvas size minus one
+    return {
+      width: readUint24LE(data, 24) + 1,
+      height: readUint24LE(data, 27) + 1,
+    };
+  }
+  if (hasAscii(data, 12, "VP8L") && data[20] === 0x2f) {
+    // Lossless: 14-bit width and height minus one, packed after the signature
+    const bits =
+      data[21] | (data[22] << 8) | (data[23] << 16) | (data[24] << 24);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >>> 14) & 0x3fff) + 1,
+    };
+  }
+  if (
+    hasAscii(data, 12, "VP8 ") &&
+    data[23] === 0x9d &&
+    data[24] === 0x01 &&
+    data[25] === 0x2a
+  ) {
+    // Lossy: key frame start code, then 14-bit width and height
+    return {
+      width: readUint16LE(data, 26) & 0x3fff,
+      height: readUint16LE(data, 28) & 0x3fff,
+    };
+  }
+  return undefined;
+}
+
+function jpegDimensions(data: Uint8Array): ImageDimensions | undefined {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return undefined;
+  }
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      // Markers without a length
+      offset += 2;
+      continue;
+    }
+    // SOF0-SOF15 carry the frame size; C4, C8 and CC are other tables
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        height: readUint16BE(data, offset + 5),
+        width: readUint16BE(data, offset + 7),
+      };
+    }
+    offset += 2 + readUint16BE(data, offset + 2);
+  }
+  return undefined;
+}
+
+/**
+ * Read the pixel size from a PNG, JPEG, WebP or GIF header.
+ * @returns undefined for other formats or truncated data
+ */
+export function getImageDimensions(
+  data: Uint8Array
+): ImageDimensions | undefined {
+  const dimensions =
+    pngDimensions(data) ??
+    jpegDimensions(data) ??
+    webpDimensions(data) ??
+    gifDimensions(data);
+  return dimensions && dimensions.width > 0 && dimensions.height > 0
+    ? dimensions
+    : undefined;
+}
+
+/**
+ * Estimate the tokens an image costs for a target model.
+ * Vision models are charged per 560×560 tile after the API scales the
+ * image down to its tile limit.
+ */
+export function estimateImageTokens(
+  data: Uint8Array,
+  rule: ZaiImageTokenRule = GLM_VISION_TOKEN_RULE
+): number {
+  if (rule.kind === "description") {
+    return rule.tokens;
+  }
+  const dimensions = getImageDimensions(data);
+  if (!dimensions) {
+    return UNKNOWN_IMAGE_TOKENS;
+  }
+
+  let { width, height } = dimensions;
+  const tiles = () =>
+    Math.ceil(width / rule.tileSize) * Math.ceil(height / rule.tileSize);
+  if (tiles() > rule.maxTiles) {
+    const scale = Math.sqrt(
+      (rule.maxTiles * rule.tileSize * rule.tileSize) / (width * height)
+    );
+    width = Math.max(1, Math.floor(width * scale));
+    height = Math.max(1, Math.floor(height * scale));
+  }
+  return Math.min(tiles(), rule.maxTiles) * rule.tokensPerTile;
+}
+
+/**
+ * Limits images are resized to before they are sent
+ */
+export interface ZaiImageLimits {
+  /** Largest encoded image in bytes */
+  maxBytes: number;
+  /** Longest edge in pixels */
+  maxDimension: number;
+  /** Most pixels in total */
+  maxPixels: number;
+}
+
+/**
+ * Read the image limits from settings. Without `zai.images.maxDimension`
+ * images are fitted into the tile grid of the model (2240px and 16 tiles
+ * for GLM vision).
+ */
+export function getImageLimits(
+  rule: ZaiImageTokenRule = GLM_VISION_TOKEN_RULE
+): ZaiImageLimits {
+  const config = vscode.workspace.getConfiguration("zai");
+  const maxSizeKB = config.get<number>(
+    "images.maxSizeKB",
+    DEFAULT_MAX_IMAGE_KB
+  );
+  const maxDimension = config.get<number>("images.maxDimension", 0);
+  // Described images are analyzed by a GLM vision model
+  const tiles = rule.kind === "tiles" ? rule : GLM_VISION_TOKEN_RULE;
+  const preferred = {
+    maxDimension: tiles.tileSize * Math.floor(Math.sqrt(tiles.maxTiles)),
+    maxPixels: tiles.maxTiles * tiles.tileSize * tiles.tileSize,
+  };
+  return {
+    maxBytes:
+      Number.isFinite(maxSizeKB) && maxSizeKB > 0
+        ? Math.floor(maxSizeKB * 1024)
+        : DEFAULT_MAX_IMAGE_KB * 1024,
+    ...(Number.isFinite(maxDimension) && maxDimension > 0
+      ? { maxDimension: Math.floor(maxDimension), maxPixels: Infinity }
+      : preferred),
+  };
+}
+
+/**
+ * Number of images analyzed at the same time for non-vision models, from
+ * `zai.images.analysisConcurrency`.
+ */
+export function getImageAnalysisConcurrency(): number {
+  const value = vscode.workspace
+    .getConfiguration("zai")
+    .get<number>("images.analysisConcurrency", DEFAULT_ANALYSIS_CONCURRENCY);
+  return Number.isFinite(value) && value >= 1
+    ? Math.min(Math.floor(value), MAX_ANALYSIS_CONCURRENCY)
+    : DEFAULT_ANALYSIS_CONCURRENCY;
+}
+
+/**
+ * An image after `prepareImage`:
+ * - `unchanged`: within the limits, sent as it is
+ * - `converted`: resized and/or reduced to a still frame and re-encoded
+ * - `rejected`: could not be brought within the limits
+ */
+export type ZaiPreparedImage =
+  | { status: "unchanged"; mimeType: string; data: Uint8Array }
+  | {
+      status: "converted";
+      mimeType: string;
+      data: Uint8Array;
+      original: ImageDimensions;
+      dimensions: ImageDimensions;
+      originalBytes: number;
+      /** Whether an animation was reduced to its first frame */
+      stillFrame: boolean;
+    }
+  | { status: "rejected"; reason: string; originalBytes: number };
+
+function sniffImageFormat(data: Uint8Array): ImageFormat | undefined {
+  if (data[0] === 0x89 && hasAscii(data, 1, "PNG")) {
+    return "png";
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return "jpeg";
+  }
+  if (hasAscii(data, 0, "GIF8")) {
+    return "gif";
+  }
+  if (hasAscii(data, 0, "RIFF") && hasAscii(data, 8, "WEBP")) {
+    return "webp";
+  }
+  return undefined;
+}
+
+/**
+ * Run `convertImage` in a worker thread. Without the compiled worker, as
+ * when the sources run in tests, it runs on the current thread.
+ */
+function runImageConversion(
+  input: ZaiImageConversionInput
+): Promise<ZaiImageConversion> {
+  if (!fs.existsSync(IMAGE_WORKER_FILE)) {
+    return Promise.resolve(convertImage(input));
+  }
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(IMAGE_WORKER_FILE, { workerData: input });
+    worker.once("message", resolve);
+    worker.once("error", reject);
+    worker.once("exit", (code) => {
+      if (code !== 0) {
+        reject(new Error(`Image worker stopped with exit code ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Bring an image within the limits: images that are too large are scaled
+ * down and re-encoded (see `convertImage`) in a worker thread, shrinking
+ * further until they fit the byte limit. Animated GIFs and PNGs are reduced
+ * to their first frame. An image that already fits the byte limit is sent
+ * as it is when re-encoding would make it larger.
+ */
+export async function prepareImage(
+  image: { mimeType: string; data: Uint8Array },
+  limits: ZaiImageLimits
+): Promise<ZaiPreparedImage> {
+  const format = sniffImageFormat(image.data);
+  const dimensions = getImageDimensions(image.data);
+  const animated =
+    format === "gif"
+      ? isAnimatedGif(image.data)
+      : format === "png" && isAnimatedPng(image.data);
+  const fitsBytes = image.data.length <= limits.maxBytes;
+  const withinLimits =
+    fitsBytes &&
+    (!dimensions ||
+      (Math.max(dimensions.width, dimensions.height) <= limits.maxDimension &&
+        dimensions.width * dimensions.height <= limits.maxPixels));
+  if (withinLimits && !animated) {
+    return { status: "unchanged", ...image };
+  }
+
+  const originalBytes = image.data.length;
+  const conversion = await runImageConversion({
+    format,
+    data: image.data,
+    limits,
+    keepSmallerOriginal: fitsBytes && !animated,
+  });
+  switch (conversion.status) {
+    case "converted":
+      return { ...conversion, originalBytes, stillFrame: animated };
+    case "larger":
+      return { status: "unchanged", ...image };
+    case "undecodable":
+      return withinLimits
+        ? { status: "unchanged", ...image }
+        : { status: "rejected", reason: conversion.reason, originalBytes };
+    case "tooLarge":
+      return {
+        status: "rejected",
+        reason: `It could not be compressed below ${formatBytes(limits.maxBytes)}`,
+        originalBytes,
+      };
+  }
+}
+
+const preparedImages = new Map<string, ZaiPreparedImage>();
+
+/**
+ * `prepareImage` with a cache, so images in the conversation history are
+ * not decoded again on every request.
+ */
+export async function prepareImageCached(
+  image: { mimeType: string; data: Uint8Array },
+  limits: ZaiImageLimits
+): Promise<ZaiPreparedImage> {
+  const key = [
+    crypto.createHash("sha1").update(image.data).digest("hex"),
+    limits.maxBytes,
+    limits.maxDimension,
+    limits.maxPixels,
+  ].join(":");
+  let prepared = preparedImages.get(key);
+  if (prepared) {
+    // Refresh the entry's position
+    preparedImages.delete(key);
+  } else {
+    prepared = await prepareImage(image, limits);
+  }
+  preparedImages.set(key, prepared);
+  if (preparedImages.size > PREPARED_CACHE_SIZE) {
+    preparedImages.delete(preparedImages.keys().next().value!);
+  }
+  return prepared;
+}
+
+/**
+ * Human-readable size, e.g. `512 bytes`, `48 KB` or `1.5 MB`.
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} bytes`;
+  }
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+}
+
+/**
+ * Chat notice for an image that was converted or rejected.
+ */
+export function formatImageNotice(
+  prepared: Exclude<ZaiPreparedImage, { status: "unchanged" }>
+): string {
+  if (prepared.status === "rejected") {
+    return `> ⚠️ An image (${formatBytes(prepared.originalBytes)}) was not sent. ${prepared.reason}.\n\n`;
+  }
+  const { original, dimensions } = prepared;
+  const changes: string[] = [];
+  if (prepared.stillFrame) {
+    changes.push("reduced to its first frame");
+  }
+  if (
+    original.width !== dimensions.width ||
+    original.height !== dimensions.height
+  ) {
+    changes.push(
+      `resized from ${original.width}×${original.height} to ${dimensions.width}×${dimensions.height}`
+    );
+  }
+  return `> 🖼️ An image was ${changes.join(" and ") || "re-encoded"} (${formatBytes(prepared.originalBytes)} → ${formatBytes(prepared.data.length)}) to fit the image limits.\n\n`;
+}
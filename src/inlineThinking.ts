@@ -0,0 +1,113 @@
+import { partialTokenLength } from "./utils";
+
+const THINK_OPEN = "<think>";
+const THINK_CLOSE = "</think>";
+
+/**
+ * Piece of streamed content: answer text, or reasoning that was wrapped in
+ * `<think>…</think>`
+ */
+export interface InlineThinkingSegment {
+  type: "text" | "thinking";
+  text: string;
+}
+
+/**
+ * Streaming splitter for reasoning that some GLM deployments (mostly
+ * self-hosted and custom models) return inline in `content` instead of in
+ * `reasoning_content`:
+ *
+ * ```
+ * <think>The user wants…</think>
+ *
+ * Here is the answer.
+ * ```
+ *
+ * Only a `<think>` tag that opens the stream starts reasoning, so an answer
+ * that mentions the tag is left alone. The reasoning is passed through as
+ * it arrives, with a tag split across chunks held back until it is
+ * complete. A block that is never closed stays reasoning, since it was
+ * already shown as such. Whitespace right after a tag is dropped.
+ */
+export class InlineThinkingParser {
+  private _buffer = "";
+  private _inThinking = false;
+  private _trimStart = false;
+  /** Nothing but whitespace has arrived yet, so `<think>` may still open */
+  private _atStart = true;
+
+  /**
+   * Feed the next chunk of content.
+   */
+  push(chunk: string): InlineThinkingSegment[] {
+    this._buffer += chunk;
+    const segments: InlineThinkingSegment[] = [];
+    if (this._atStart) {
+      const start = this._buffer.trimStart();
+      if (start.startsWith(THINK_OPEN)) {
+        this._atStart = false;
+        this._inThinking = true;
+        this._trimStart = true;
+        this._buffer = start.slice(THINK_OPEN.length);
+      } else if (THINK_OPEN.startsWith(start)) {
+        return segments;
+      } else {
+        this._atStart = false;
+      }
+    }
+
+    if (this._inThinking) {
+      const at = this._buffer.indexOf(THINK_CLOSE);
+      if (at === -1) {
+        const keep = partialTokenLength(this._buffer, THINK_CLOSE);
+        this.pushSegment(
+          segments,
+          this._buffer.slice(0, this._buffer.length - keep)
+        );
+        this._buffer = this._buffer.slice(this._buffer.length - keep);
+        return segments;
+      }
+      this.pushSegment(segments, this._buffer.slice(0, at));
+      this._buffer = this._buffer.slice(at + THINK_CLOSE.length);
+      this._inThinking = false;
+      this._trimStart = true;
+    }
+    this.pushSegment(segments, this._buffer);
+    this._buffer = "";
+    return segments;
+  }
+
+  /**
+   * End of the stream: return what is still buffered, as reasoning when the
+   * closing tag never arrived. Only the held back part of a partial tag is
+   * left at that point; the rest of the block was already returned.
+   */
+  flush(): InlineThinkingSegment[] {
+    const segments: InlineThinkingSegment[] = [];
+    this.pushSegment(segments, this._buffer);
+    this._buffer = "";
+    this._inThinking = false;
+    this._trimStart = false;
+    this._atStart = true;
+    return segments;
+  }
+
+  private pushSegment(segments: InlineThinkingSegment[], text: string): void {
+    if (this._trimStart) {
+      text = text.trimStart();
+      if (text) {
+        this._trimStart = false;
+      }
+    }
+    if (!text) {
+      return;
+    }
+    const type = this._inThinking ? "thinking" : "text";
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  }
+}
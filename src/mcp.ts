@@ -1,4 +1,9 @@
 import * as vscode from "vscode";
+import { getBaseUrl } from "./endpoints";
+import { sleep, ZaiRetryPolicy } from "./retry";
+
+/** Vision model that describes images when none is configured */
+const DEFAULT_VISION_MODEL = "glm-4.6v";
 
 /**
  * Z.ai MCP Client for making HTTP-based MCP tool calls
@@ -6,7 +11,14 @@ import * as vscode from "vscode";
 export class ZaiMcpClient {
   private apiKey: string;
 
-  constructor(private readonly secrets: vscode.SecretStorage) {
+  /**
+   * @param secrets VS Code secret storage.
+   * @param retryPolicy Retry policy, shared with the chat provider when given.
+   */
+  constructor(
+    private readonly secrets: vscode.SecretStorage,
+    private readonly retryPolicy: ZaiRetryPolicy = new ZaiRetryPolicy()
+  ) {
     this.apiKey = "";
   }
 
@@ -25,49 +37,139 @@ export class ZaiMcpClient {
    * This can be used for non-Vision models to add image processing capabilities
    * @param imageData Base64-encoded image (data URL format)
    * @param prompt What to analyze in the image
-   * @returns Image analysis result
+   * @param token Cancels the request and waiting between retries
+   * @param model Vision model to use, glm-4.6v when not given
+   * @returns Image analysis result, or undefined when the model returned
+   *   no text
    */
-  async analyzeImage(imageData: string, prompt: string): Promise<string> {
+  async analyzeImage(
+    imageData: string,
+    prompt: string,
+    token?: vscode.CancellationToken,
+    model: string = DEFAULT_VISION_MODEL
+  ): Promise<string | undefined> {
     if (!(await this.ensureApiKey())) {
       throw new Error("Z.ai API key not found");
     }
 
     // Call Vision model via chat completions endpoint
-    const response = await fetch(
-      "https://api.z.ai/api/coding/paas/v4/chat/completions",
+    const data = await this.postChatCompletion(
       {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: "glm-4.6v",
-          messages: [
-            {
-              role: "user",
-              content: [
-                { type: "text", text: prompt },
-                { type: "image_url", image_url: { url: imageData } },
-              ],
-            },
-          ],
-          max_tokens: 2000,
-        }),
-      }
+        model,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              { type: "image_url", image_url: { url: imageData } },
+            ],
+          },
+        ],
+        max_tokens: 2000,
+      },
+      "Vision API",
+      token
     );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Vision API error: ${response.status} ${errorText}`);
+    const result = data.choices?.[0]?.message?.content;
+    return result?.trim() ? result : undefined;
+  }
+
+  /**
+   * Summarize an earlier part of a conversation so it can replace the
+   * original turns when the context window is full.
+   * @param transcript Plain-text transcript of the turns
+   * @param model Model used for the summary, e.g. glm-4.7-flash
+   * @param token Cancels the request and waiting between retries
+   * @returns The summary text
+   */
+  async summarizeConversation(
+    transcript: string,
+    model: string,
+    token?: vscode.CancellationToken
+  ): Promise<string> {
+    if (!(await this.ensureApiKey())) {
+      throw new Error("Z.ai API key not found");
     }
 
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
+    const data = await this.postChatCompletion(
+      {
+        model,
+        messages: [
+          {
+            role: "system",
+            content:
+              "Summarize the following conversation between a user and a coding assistant. Keep the user's goals, decisions, file names, identifiers, errors and open tasks. Be concise and write in the language of the conversation.",
+          },
+          { role: "user", content: transcript },
+        ],
+        max_tokens: 2000,
+        thinking: { type: "disabled" },
+      },
+      "Summary API",
+      token
+    );
+
+    return data.choices?.[0]?.message?.content ?? "";
+  }
+
+  /**
+   * Send a non-streaming chat completion request, retrying per the retry policy.
+   * Cancelling the token aborts the request in flight.
+   * @throws Error `<label> error: <status> <body>` when the request fails
+   * @throws vscode.CancellationError when the token is cancelled
+   */
+  private async postChatCompletion(
+    body: Record<string, unknown>,
+    label: string,
+    token?: vscode.CancellationToken
+  ): Promise<{ choices?: Array<{ message?: { content?: string } }> }> {
+    const url = `${getBaseUrl()}/chat/completions`;
+    const retry = this.retryPolicy.begin();
+    const abortController = new AbortController();
+    const subscription = token?.onCancellationRequested(() => {
+      abortController.abort();
+    });
+    try {
+      for (;;) {
+        if (token?.isCancellationRequested) {
+          throw new vscode.CancellationError();
+        }
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${this.apiKey}`,
+          },
+          body: JSON.stringify(body),
+          signal: abortController.signal,
+        });
+
+        if (response.ok) {
+          return (await response.json()) as {
+            choices?: Array<{ message?: { content?: string } }>;
+          };
+        }
 
-    const result =
-      data.choices?.[0]?.message?.content ?? "Failed to analyze image";
-    return result;
+        const errorText = await response.text();
+        const delay = retry.isRetryableStatus(response.status)
+          ? retry.next(response.headers)
+          : undefined;
+        if (delay === undefined) {
+          throw new Error(`${label} error: ${response.status} ${errorText}`);
+        }
+        console.warn(
+          `[Z.ai Model Provider] ${label} error ${response.status}, retry ${retry.retries}/${retry.maxRetries} after ${delay}ms`
+        );
+        await sleep(delay, token);
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        throw new vscode.CancellationError();
+      }
+      throw error;
+    } finally {
+      subscription?.dispose();
+    }
   }
 }
@@ -0,0 +1,362 @@
+import * as vscode from "vscode";
+import type { ZaiModelInfo, ZaiSamplingOptions } from "./types";
+import { ZAI_MODELS } from "./types";
+import { toThinkingMode } from "./thinking";
+
+/** globalState key for the cached `/models` result */
+export const MODEL_CACHE_KEY = "zai.discoveredModels";
+
+/** How long a discovered model list is considered fresh (1 hour) */
+const MODEL_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** Timeout for the `/models` request so an unreachable endpoint fails fast */
+const MODEL_DISCOVERY_TIMEOUT_MS = 10000;
+
+/** Model ids returned by `/models` that are not chat models */
+const NON_CHAT_MODEL_PATTERN =
+  /(embedding|cogview|cogvideo|tts|asr|rerank|realtime)/i;
+
+/** Metadata used for discovered models that are not in the static table */
+const DISCOVERED_MODEL_DEFAULTS = {
+  contextWindow: 131072,
+  maxOutput: 16384,
+  supportsTools: true,
+};
+
+/**
+ * Discovered model ids persisted in globalState
+ */
+interface CachedModelList {
+  baseUrl: string;
+  ids: string[];
+  fetchedAt: number;
+}
+
+/**
+ * Response shape of the OpenAI-compatible `/models` endpoint
+ */
+interface ZaiModelListResponse {
+  data?: Array<{ id?: unknown }>;
+}
+
+/**
+ * Build model info for an id, preferring the static metadata table.
+ * Unknown ids get conservative defaults; a `v` suffix on the version
+ * (e.g. `glm-4.6v`, `glm-5v-turbo`) marks a vision model.
+ */
+export function toModelInfo(id: string): ZaiModelInfo {
+  const known = ZAI_MODELS.find((m) => m.id === id);
+  if (known) {
+    return known;
+  }
+  const name = id.replace(/^glm/i, "GLM");
+  return {
+    id,
+    name,
+    displayName: name,
+    ...DISCOVERED_MODEL_DEFAULTS,
+    supportsVision: /^glm-[\d.]+v(?:-|$)/i.test(id),
+  };
+}
+
+/**
+ * Shape of an entry in the `zai.customModels` setting
+ */
+interface ZaiCustomModelSetting {
+  id?: unknown;
+  displayName?: unknown;
+  contextWindow?: unknown;
+  maxOutput?: unknown;
+  supportsTools?: unknown;
+  supportsVision?: unknown;
+  supportsPreservedThinking?: unknown;
+  endpoint?: unknown;
+  transport?: unknown;
+}
+
+/**
+ * Read user-defined models from the `zai.customModels` setting.
+ * Entries without an id are skipped; missing fields use the same
+ * defaults as discovered models.
+ */
+export function getCustomModels(): ZaiModelInfo[] {
+  const entries = vscode.workspace
+    .getConfiguration("zai")
+    .get<ZaiCustomModelSetting[]>("customModels", []);
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  const models: ZaiModelInfo[] = [];
+  for (const entry of entries) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+    const id = typeof entry.id === "string" ? entry.id.trim() : "";
+    if (!id || models.some((m) => m.id === id)) {
+      continue;
+    }
+    const base = toModelInfo(id);
+    const displayName =
+      typeof entry.displayName === "string" && entry.displayName.trim()
+        ? entry.displayName.trim()
+        : base.displayName;
+    models.push({
+      id,
+      name: displayName,
+      displayName,
+      contextWindow: isPositiveNumber(entry.contextWindow)
+        ? entry.contextWindow
+        : base.contextWindow,
+      maxOutput: isPositiveNumber(entry.maxOutput)
+        ? entry.maxOutput
+        : base.maxOutput,
+      supportsTools:
+        typeof entry.supportsTools === "boolean"
+          ? entry.supportsTools
+          : base.supportsTools,
+      supportsVision:
+        typeof entry.supportsVision === "boolean"
+          ? entry.supportsVision
+          : base.supportsVision,
+      supportsPreservedThinking:
+        typeof entry.supportsPreservedThinking === "boolean"
+          ? entry.supportsPreservedThinking
+          : base.supportsPreservedThinking,
+      endpoint:
+        typeof entry.endpoint === "string" && entry.endpoint.trim()
+          ? entry.endpoint.trim()
+          : undefined,
+      transport:
+        entry.transport === "openai" || entry.transport === "anthropic"
+          ? entry.transport
+          : base.transport,
+    });
+  }
+  return models;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Pick the valid sampling parameters out of an untyped options object
+ * (a zai.modelDefaults entry or a request's modelOptions).
+ */
+export function toSamplingOptions(source: unknown): ZaiSamplingOptions {
+  const result: ZaiSamplingOptions = {};
+  if (!source || typeof source !== "object" || Array.isArray(source)) {
+    return result;
+  }
+  const o = source as Record<string, unknown>;
+  if (typeof o.temperature === "number") {
+    result.temperature = o.temperature;
+  }
+  if (typeof o.top_p === "number") {
+    result.top_p = o.top_p;
+  }
+  if (isPositiveNumber(o.max_tokens)) {
+    result.max_tokens = Math.floor(o.max_tokens);
+  }
+  const thinking = toThinkingMode(o.thinking);
+  if (thinking) {
+    result.thinking = thinking;
+  }
+  if (typeof o.stop === "string") {
+    result.stop = o.stop;
+  } else if (
+    Array.isArray(o.stop) &&
+    o.stop.every((s) => typeof s === "string")
+  ) {
+    result.stop = o.stop;
+  }
+  if (typeof o.frequency_penalty === "number") {
+    result.frequency_penalty = o.frequency_penalty;
+  }
+  if (typeof o.presence_penalty === "number") {
+    result.presence_penalty = o.presence_penalty;
+  }
+  return result;
+}
+
+/**
+ * Read the `zai.modelDefaults` entry for a model.
+ */
+export function getModelDefaults(modelId: string): ZaiSamplingOptions {
+  const defaults = vscode.workspace
+    .getConfiguration("zai")
+    .get<Record<string, unknown>>("modelDefaults", {});
+  if (
+    !defaults ||
+    typeof defaults !== "object" ||
+    !Object.prototype.hasOwnProperty.call(defaults, modelId)
+  ) {
+    return {};
+  }
+  return toSamplingOptions(defaults[modelId]);
+}
+
+/**
+ * Fetch the account's model ids from `${baseUrl}/models`.
+ */
+export async function fetchModelIds(
+  baseUrl: string,
+  apiKey: string,
+  userAgent: string
+): Promise<string[]> {
+  const response = await fetch(`${baseUrl}/models`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "User-Agent": userAgent,
+    },
+    signal: AbortSignal.timeout(MODEL_DISCOVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Model list request failed: ${response.status}`);
+  }
+  const data = (await response.json()) as ZaiModelListResponse;
+  if (!Array.isArray(data.data)) {
+    throw new Error("Model list response has no data array");
+  }
+  const ids: string[] = [];
+  for (const entry of data.data) {
+    if (
+      typeof entry.id === "string" &&
+      entry.id &&
+      !NON_CHAT_MODEL_PATTERN.test(entry.id) &&
+      !ids.includes(entry.id)
+    ) {
+      ids.push(entry.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Catalog of models available to the provider.
+ * Serves the static `ZAI_MODELS` table, merged with the model list
+ * discovered from the API and cached in globalState, plus the models
+ * from `zai.customModels`. Without a globalState (e.g. in tests) no
+ * discovery takes place.
+ */
+export class ZaiModelCatalog {
+  /** In-flight refresh, shared by concurrent callers */
+  private _refreshing: Promise<boolean> | undefined;
+
+  constructor(private readonly globalState?: vscode.Memento) {}
+
+  /**
+   * All known models for the given endpoint, including internal ones.
+   * Discovered models replace the public part of the static table;
+   * internal static models stay available for fallback routing.
+   */
+  getModels(baseUrl: string): ZaiModelInfo[] {
+    const models = this.getApiModels(baseUrl);
+    // Custom models override built-in metadata for the same id
+    for (const custom of getCustomModels()) {
+      const idx = models.findIndex((m) => m.id === custom.id);
+      if (idx === -1) {
+        models.push(custom);
+      } else {
+        models[idx] = custom;
+      }
+    }
+    return models;
+  }
+
+  private getApiModels(baseUrl: string): ZaiModelInfo[] {
+    const cached = this.getCachedList(baseUrl);
+    if (!cached || cached.ids.length === 0) {
+      return [...ZAI_MODELS];
+    }
+    const known = ZAI_MODELS.filter(
+      (m) => m.internal || cached.ids.includes(m.id)
+    );
+    const discovered = cached.ids
+      .filter((id) => !ZAI_MODELS.some((m) => m.id === id))
+      .map((id) => toModelInfo(id));
+    return [...known, ...discovered];
+  }
+
+  /**
+   * Find a model by id for the given endpoint.
+   */
+  findModel(baseUrl: string, modelId: string): ZaiModelInfo | undefined {
+    return this.getModels(baseUrl).find((m) => m.id === modelId);
+  }
+
+  /**
+   * Whether the discovered list for this endpoint should be refreshed.
+   */
+  needsRefresh(baseUrl: string): boolean {
+    if (!this.globalState) {
+      return false;
+    }
+    const cached = this.getCachedList(baseUrl);
+    return !cached || Date.now() - cached.fetchedAt > MODEL_CACHE_TTL_MS;
+  }
+
+  /**
+   * Query `/models` and update the cache.
+   * Failures (offline, endpoint without `/models`) keep the previous cache.
+   * @returns true when the discovered set of model ids changed
+   */
+  refresh(
+    baseUrl: string,
+    apiKey: string,
+    userAgent: string
+  ): Promise<boolean> {
+    if (!this.globalState) {
+      return Promise.resolve(false);
+    }
+    if (!this._refreshing) {
+      this._refreshing = this.doRefresh(baseUrl, apiKey, userAgent).finally(
+        () => {
+          this._refreshing = undefined;
+        }
+      );
+    }
+    return this._refreshing;
+  }
+
+  private async doRefresh(
+    baseUrl: string,
+    apiKey: string,
+    userAgent: string
+  ): Promise<boolean> {
+    let ids: string[];
+    try {
+      ids = await fetchModelIds(baseUrl, apiKey, userAgent);
+    } catch (err) {
+      console.warn("[Z.ai Provider] Model discovery failed, using cache", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return false;
+    }
+    if (ids.length === 0) {
+      return false;
+    }
+
+    const previous = this.getCachedList(baseUrl);
+    const changed =
+      !previous ||
+      previous.ids.length !== ids.length ||
+      previous.ids.some((id) => !ids.includes(id));
+    const entry: CachedModelList = { baseUrl, ids, fetchedAt: Date.now() };
+    await this.globalState?.update(MODEL_CACHE_KEY, entry);
+    console.log(`[Z.ai Provider] Discovered ${ids.length} models`, {
+      changed,
+    });
+    return changed;
+  }
+
+  private getCachedList(baseUrl: string): CachedModelList | undefined {
+    const cached = this.globalState?.get<CachedModelList>(MODEL_CACHE_KEY);
+    if (!cached || cached.baseUrl !== baseUrl || !Array.isArray(cached.ids)) {
+      return undefined;
+    }
+    return cached;
+  }
+}
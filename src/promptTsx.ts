@@ -0,0 +1,111 @@
+/**
+ * Plain-text rendering of the element trees in `LanguageModelPromptTsxPart`s.
+ *
+ * Tools built with @vscode/prompt-tsx return their output as the JSON form
+ * of a rendered prompt element (`renderElementJSON`): pieces with children,
+ * text chunks and opaque chat content parts. Only the text reaches the
+ * model; structure and metadata such as priorities, references and token
+ * usage are dropped.
+ */
+
+/** `PromptNodeType` values of @vscode/prompt-tsx */
+const PIECE_NODE = 1;
+const TEXT_NODE = 2;
+const OPAQUE_NODE = 3;
+
+/** `PieceCtorKind` values of @vscode/prompt-tsx */
+const CHAT_MESSAGE_PIECE = 1;
+const IMAGE_MESSAGE_PIECE = 3;
+
+interface PromptNode {
+  type?: unknown;
+  ctor?: unknown;
+  children?: unknown;
+  text?: unknown;
+  lineBreakBefore?: unknown;
+  value?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Text of an opaque node, which holds a raw chat content part
+ */
+function renderOpaque(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (!isObject(value)) {
+    return "";
+  }
+  if (typeof value.text === "string") {
+    return value.text;
+  }
+  if (typeof value.value === "string") {
+    return value.value;
+  }
+  if (isObject(value.imageUrl) || isObject(value.image_url)) {
+    return "[image]";
+  }
+  // Cache breakpoints and other metadata carry no text
+  return "";
+}
+
+/**
+ * Render the value of a `LanguageModelPromptTsxPart` as plain text.
+ * Accepts the `{ node }` wrapper produced by `renderElementJSON` as well as
+ * a bare node.
+ */
+export function renderPromptTsx(value: unknown): string {
+  let out = "";
+  const breakLine = () => {
+    if (out && !out.endsWith("\n")) {
+      out += "\n";
+    }
+  };
+  const visit = (node: PromptNode, depth: number): void => {
+    // Guard against cyclic or absurdly deep values
+    if (depth > 100) {
+      return;
+    }
+    switch (node.type) {
+      case TEXT_NODE:
+        if (typeof node.text === "string") {
+          if (node.lineBreakBefore === true) {
+            breakLine();
+          }
+          out += node.text;
+        }
+        return;
+      case OPAQUE_NODE:
+        out += renderOpaque(node.value);
+        return;
+      case PIECE_NODE:
+        if (node.ctor === IMAGE_MESSAGE_PIECE) {
+          breakLine();
+          out += "[image]";
+          return;
+        }
+        if (node.ctor === CHAT_MESSAGE_PIECE) {
+          breakLine();
+        }
+        if (Array.isArray(node.children)) {
+          for (const child of node.children) {
+            if (isObject(child)) {
+              visit(child, depth + 1);
+            }
+          }
+        }
+        return;
+    }
+  };
+
+  if (isObject(value)) {
+    visit((isObject(value.node) ? value.node : value) as PromptNode, 0);
+  } else if (typeof value === "string") {
+    out = value;
+  }
+  return out.trim();
+}
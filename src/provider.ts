@@ -13,12 +13,14 @@ import {
 } from "vscode";
 
 import type {
+  AnthropicRequestBody,
+  AnthropicStreamEvent,
   ZaiModelInfo,
   ZaiStreamResponse,
   Json,
   ZaiRequestBody,
+  ZaiSamplingOptions,
 } from "./types";
-import { ZAI_MODELS } from "./types";
 import {
   convertMessages,
   convertTools,
@@ -27,10 +29,60 @@ import {
   validateRequest,
   estimateMessagesTokens,
   getTextPartValue,
-  extractImageData,
+  getMessageImages,
+  mapWithConcurrency,
+  replaceImageParts,
 } from "./utils";
 import type { LegacyPart } from "./utils";
 import { ZaiMcpClient } from "./mcp";
+import { sleep, ZaiRetryPolicy } from "./retry";
+import type { ZaiRetryState } from "./retry";
+import {
+  compactMessages,
+  formatCompactionNotice,
+  getCompactionStrategy,
+  getCompactionSummaryModel,
+} from "./compaction";
+import type { ZaiCompactionResult } from "./compaction";
+import {
+  formatImageNotice,
+  getImageAnalysisConcurrency,
+  getImageLimits,
+  getImageTokenRule,
+  prepareImageCached,
+} from "./images";
+import type { ZaiImageTokenRule, ZaiPreparedImage } from "./images";
+import { getBaseUrl, resolveEndpoint } from "./endpoints";
+import type { ZaiEndpoint } from "./endpoints";
+import {
+  ANTHROPIC_VERSION,
+  AnthropicStreamState,
+  convertMessagesToAnthropic,
+  convertToolsToAnthropic,
+  getThinkingBudget,
+} from "./anthropic";
+import { ZaiModelCatalog, getModelDefaults, toSamplingOptions } from "./models";
+import { ZaiTokenCalibration } from "./calibration";
+import { ZaiImageDescriptionCache } from "./imageCache";
+import type { GlmContentSegment } from "./glmToolCalls";
+import type { InlineThinkingSegment } from "./inlineThinking";
+import {
+  THINKING_MARKDOWN_HEADER,
+  ZaiThinkingControls,
+  formatThinkingFooter,
+  quoteReasoning,
+} from "./thinking";
+import type { ZaiThinkingMode } from "./thinking";
+import {
+  chooseVisionRoute,
+  formatVisionRouteNotice,
+  getVisionSettings,
+} from "./vision";
+import { ZaiStreamSession } from "./session";
+import { readSseEvents } from "./sse";
+import { ZaiResumeFilter } from "./resume";
+import { getStreamErrorPayload, toStreamLanguageModelError } from "./errors";
+import type { ZaiTextToolCall } from "./session";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
@@ -49,69 +101,28 @@ function debugLog(msg: string, data?: Record<string, unknown>): void {
   }
 }
 
-const BASE_URL = "https://api.z.ai/api/coding/paas/v4";
 const MAX_TOOL_RESULT_CHARS = 20000;
 const MAX_TOOLS_PER_REQUEST = 128;
 const DEFAULT_MAX_TOKENS = 65536;
-const MAX_RETRIES = 10;
-const BASE_RETRY_DELAY_MS = 2000;
-const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+const DEFAULT_TEMPERATURE = 0.7;
+/** Minimum time between markdown reasoning updates */
+const REASONING_MARKDOWN_INTERVAL_MS = 250;
+
+/** Sampling parameters of a request after defaults are applied */
+type ZaiResolvedSampling = ZaiSamplingOptions & {
+  max_tokens: number;
+  temperature: number;
+  thinking: ZaiThinkingMode;
+};
+const DEFAULT_IMAGE_PROMPT = "Describe this image in detail.";
 
 /**
  * VS Code Chat provider backed by Z.ai API.
  */
 export class ZaiChatModelProvider implements LanguageModelChatProvider {
-  /** Buffer for assembling streamed tool calls by index. */
-  private _toolCallBuffers: Map<
-    number,
-    { id?: string; name?: string; args: string }
-  > = new Map();
-
-  /** Indices for which a tool call has been fully emitted. */
-  private _completedToolCallIndices = new Set<number>();
-
-  /** Track if we emitted any assistant text before seeing tool calls */
-  private _hasEmittedAssistantText = false;
-
-  /** Track if we emitted the begin-tool-calls whitespace hint */
-  private _emittedBeginToolCallsHint = false;
-
-  /** Buffer for text-embedded tool call token parsing */
-  private _textToolParserBuffer = "";
-
-  /** Active text-embedded tool call being assembled */
-  private _textToolActive:
-    | {
-        name?: string;
-        index?: number;
-        argBuffer: string;
-        emitted?: boolean;
-      }
-    | undefined;
-
-  /** Deduplicate tool calls parsed from text and structured deltas */
-  private _emittedTextToolCallKeys = new Set<string>();
-  private _emittedTextToolCallIds = new Set<string>();
-
-  /** Track if we emitted any thinking/reasoning content */
-  private _hasEmittedThinkingContent = false;
-
-  /** Buffer for reasoning content (used for markdown fallback on older VS Code) */
-  private _reasoningContentBuffer = "";
-
   /** Whether the runtime supports LanguageModelThinkingPart (cached per session) */
   private _supportsThinkingPart: boolean | undefined = undefined;
 
-  /** Track token usage from API responses */
-  private _usageMetrics: { prompt_tokens: number; completion_tokens: number } =
-    {
-      prompt_tokens: 0,
-      completion_tokens: 0,
-    };
-
-  /** Track whether usage metrics have been reported for the current request */
-  private _usageReported = false;
-
   /** Debug counter */
   private _debugCallCount = 0;
 
@@ -152,48 +163,54 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     return new Error(message);
   }
 
-  /**
-   * Format reasoning content with proper markdown formatting.
-   * Each line is prefixed with '> ' for quote block display.
-   * @deprecated Use LanguageModelThinkingPart instead for native thinking display.
-   */
-  private formatReasoningContent(content: string, isComplete: boolean): string {
-    // Normalize line endings and trim
-    const normalized = content.replace(/\r\n/g, "\n").trim();
-
-    // Split into lines and add quote prefix to each
-    const quotedLines = normalized
-      .split("\n")
-      .map((line) => `> ${line}`)
-      .join("\n");
-
-    const header = isComplete
-      ? "> **🧠 Thinking Process**"
-      : "> *🧠 Thinking...*";
-    return `${header}\n>\n${quotedLines}\n\n---\n\n`;
-  }
+  /** Retry policy shared by chat requests and the MCP client */
+  readonly retryPolicy = new ZaiRetryPolicy();
 
   /** MCP client for GLM-OCR image processing and other tools */
   private _mcpClient: ZaiMcpClient;
 
+  /** Static and discovered model metadata */
+  private readonly _models: ZaiModelCatalog;
+
+  /** Per-model correction of token estimates from reported usage */
+  private readonly _calibration: ZaiTokenCalibration;
+
+  /** Descriptions of images analyzed for non-vision models */
+  readonly imageCache: ZaiImageDescriptionCache;
+
+  /** Thinking mode and display settings with the session toggle */
+  readonly thinking = new ZaiThinkingControls();
+
   /**
    * Create a provider using the given secret storage for the API key.
    * @param secrets VS Code secret storage.
    * @param userAgent User agent string for API requests.
+   * @param globalState Extension global state used to cache discovered models
+   *   and token calibration.
+   * @param globalStoragePath Directory for the image description cache.
    */
   constructor(
     private readonly secrets: vscode.SecretStorage,
-    private readonly userAgent: string
+    private readonly userAgent: string,
+    globalState?: vscode.Memento,
+    globalStoragePath?: string
   ) {
-    this._mcpClient = new ZaiMcpClient(secrets);
+    this._mcpClient = new ZaiMcpClient(secrets, this.retryPolicy);
+    this._models = new ZaiModelCatalog(globalState);
+    this._calibration = new ZaiTokenCalibration(globalState);
+    this.imageCache = new ZaiImageDescriptionCache(globalStoragePath);
   }
 
   /**
-   * Get the configuration setting for enabling thinking display.
+   * Whether earlier reasoning should be sent back to a model
+   * (zai.thinking.preserve and a model with preserved thinking).
    */
-  private isThinkingEnabled(): boolean {
+  private shouldPreserveThinking(modelId: string): boolean {
     const config = vscode.workspace.getConfiguration("zai");
-    return config.get<boolean>("enableThinking", true);
+    return (
+      config.get<boolean>("thinking.preserve", false) &&
+      this.getModelInfo(modelId)?.supportsPreservedThinking === true
+    );
   }
 
   /**
@@ -230,8 +247,12 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
       return [];
     }
 
-    // Import models from types
-    const { ZAI_MODELS: models } = await import("./types");
+    const baseUrl = getBaseUrl();
+    if (this._models.needsRefresh(baseUrl)) {
+      void this.refreshModels(baseUrl, apiKey);
+    }
+
+    const models = this._models.getModels(baseUrl);
     const publicModels = models.filter((m) => !m.internal);
     console.log(
       `[Z.ai Provider] Found ${models.length} models (${publicModels.length} public)`
@@ -270,39 +291,72 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     return infos;
   }
 
+  /**
+   * Refresh the discovered model list in the background and notify
+   * VS Code when the set of models changed.
+   */
+  private async refreshModels(baseUrl: string, apiKey: string): Promise<void> {
+    try {
+      const changed = await this._models.refresh(
+        baseUrl,
+        apiKey,
+        this.userAgent
+      );
+      if (changed) {
+        this.fireModelInfoChanged();
+      }
+    } catch (err) {
+      console.warn("[Z.ai Provider] Model refresh failed", err);
+    }
+  }
+
   /**
    * Check if model supports vision natively
    */
   private modelSupportsVision(modelId: string): boolean {
-    const modelInfo = ZAI_MODELS.find((m) => m.id === modelId);
+    const modelInfo = this.getModelInfo(modelId);
     return modelInfo?.supportsVision ?? false;
   }
 
   /**
    * Pick a fallback vision model for image input.
-   * Prefers glm-4.6v since most users have access to it.
+   * Uses the configured model when given, otherwise prefers glm-4.6v since
+   * most users have access to it.
    */
-  private getVisionFallbackModelId(): string | undefined {
-    const preferred = ZAI_MODELS.find(
+  private getVisionFallbackModelId(configured?: string): string | undefined {
+    if (configured) {
+      return configured;
+    }
+    const models = this._models.getModels(getBaseUrl());
+    const preferred = models.find(
       (m) => m.id === "glm-4.6v" && m.supportsVision
     );
     if (preferred) {
       return preferred.id;
     }
-    return ZAI_MODELS.find((m) => m.supportsVision && !m.internal)?.id;
+    return models.find((m) => m.supportsVision && !m.internal)?.id;
   }
 
   /**
-   * Check if any message contains image input parts
+   * Check if any message contains image input parts, including images
+   * returned inside tool results
    */
   private hasImageInput(
     messages: readonly LanguageModelChatMessage[]
   ): boolean {
-    for (const msg of messages) {
-      for (const part of msg.content) {
-        if (extractImageData(part)) {
-          return true;
-        }
+    return messages.some((msg) => getMessageImages(msg.content).length > 0);
+  }
+
+  /**
+   * Check if the latest user message contains image input parts, so
+   * notices are shown once and not for images earlier in the history
+   */
+  private latestUserMessageHasImages(
+    messages: readonly LanguageModelChatMessage[]
+  ): boolean {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === vscode.LanguageModelChatMessageRole.User) {
+        return this.hasImageInput([messages[i]]);
       }
     }
     return false;
@@ -327,7 +381,255 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
    * Get model info by id
    */
   private getModelInfo(modelId: string): ZaiModelInfo | undefined {
-    return ZAI_MODELS.find((m) => m.id === modelId);
+    return this._models.findModel(getBaseUrl(), modelId);
+  }
+
+  /**
+   * Endpoint and transport for a model, honoring per-model overrides
+   */
+  private getModelEndpoint(modelId: string): ZaiEndpoint {
+    const info = this.getModelInfo(modelId);
+    return resolveEndpoint(info?.endpoint, info?.transport);
+  }
+
+  /**
+   * Resolve sampling parameters for a model.
+   * Values come from the caller's modelOptions first, then from the
+   * model's zai.modelDefaults entry, then built-in defaults. The thinking
+   * mode also honors the session toggle (see `ZaiThinkingControls`).
+   */
+  private resolveSampling(
+    modelId: string,
+    modelOptions: Record<string, Json> | undefined,
+    fallbackMaxOutput: number
+  ): ZaiResolvedSampling {
+    const modelDefaults = getModelDefaults(modelId);
+    const requested = toSamplingOptions(modelOptions);
+    const sampling = { ...modelDefaults, ...requested };
+    const maxOutput =
+      this.getModelInfo(modelId)?.maxOutput ?? fallbackMaxOutput;
+    return {
+      ...sampling,
+      max_tokens: Math.min(
+        sampling.max_tokens ?? DEFAULT_MAX_TOKENS,
+        maxOutput
+      ),
+      temperature: sampling.temperature ?? DEFAULT_TEMPERATURE,
+      thinking: this.thinking.resolveMode(
+        requested.thinking,
+        modelDefaults.thinking
+      ),
+    };
+  }
+
+  /**
+   * Build the streaming request body for a model in the endpoint's format.
+   */
+  private buildRequestBody(
+    endpoint: ZaiEndpoint,
+    modelId: string,
+    messages: readonly LanguageModelChatMessage[],
+    toolConfig: ReturnType<typeof convertTools>,
+    modelOptions: Record<string, Json> | undefined,
+    fallbackMaxOutput: number
+  ): (ZaiRequestBody | AnthropicRequestBody) & { max_tokens: number } {
+    const sampling = this.resolveSampling(
+      modelId,
+      modelOptions,
+      fallbackMaxOutput
+    );
+    if (endpoint.transport === "anthropic") {
+      return this.buildAnthropicRequestBody(
+        modelId,
+        messages,
+        toolConfig,
+        sampling
+      );
+    }
+
+    const preserveThinking =
+      sampling.thinking === "enabled" && this.shouldPreserveThinking(modelId);
+    const requestBody: ZaiRequestBody & { max_tokens: number } = {
+      model: modelId,
+      messages: convertMessages(messages, {
+        maxToolResultChars: MAX_TOOL_RESULT_CHARS,
+        preserveThinking,
+      }),
+      stream: true,
+      stream_options: { include_usage: true },
+      max_tokens: sampling.max_tokens,
+      temperature: sampling.temperature,
+    };
+    if (sampling.top_p !== undefined) {
+      requestBody.top_p = sampling.top_p;
+    }
+    // "auto" leaves thinking to the API default
+    if (sampling.thinking !== "auto") {
+      requestBody.thinking = { type: sampling.thinking };
+      if (preserveThinking) {
+        requestBody.thinking.clear_thinking = false;
+      }
+    }
+    if (sampling.stop !== undefined) {
+      requestBody.stop = sampling.stop;
+    }
+    if (sampling.frequency_penalty !== undefined) {
+      requestBody.frequency_penalty = sampling.frequency_penalty;
+    }
+    if (sampling.presence_penalty !== undefined) {
+      requestBody.presence_penalty = sampling.presence_penalty;
+    }
+
+    if (toolConfig.tools) {
+      requestBody.tools = toolConfig.tools;
+    }
+    if (toolConfig.tool_choice) {
+      requestBody.tool_choice = toolConfig.tool_choice;
+    }
+    return requestBody;
+  }
+
+  /**
+   * Build a Messages API request body.
+   * Penalties have no equivalent on this surface and are dropped.
+   */
+  private buildAnthropicRequestBody(
+    modelId: string,
+    messages: readonly LanguageModelChatMessage[],
+    toolConfig: ReturnType<typeof convertTools>,
+    sampling: ZaiResolvedSampling
+  ): AnthropicRequestBody {
+    const converted = convertMessagesToAnthropic(messages, {
+      maxToolResultChars: MAX_TOOL_RESULT_CHARS,
+    });
+    const requestBody: AnthropicRequestBody = {
+      model: modelId,
+      messages: converted.messages,
+      max_tokens: sampling.max_tokens,
+      stream: true,
+      temperature: sampling.temperature,
+    };
+    if (converted.system) {
+      requestBody.system = converted.system;
+    }
+    if (sampling.top_p !== undefined) {
+      requestBody.top_p = sampling.top_p;
+    }
+    if (sampling.thinking === "enabled") {
+      const budget = getThinkingBudget(sampling.max_tokens);
+      if (budget !== undefined) {
+        requestBody.thinking = { type: "enabled", budget_tokens: budget };
+      }
+    } else if (sampling.thinking === "disabled") {
+      requestBody.thinking = { type: "disabled" };
+    }
+    if (sampling.stop !== undefined) {
+      requestBody.stop_sequences = Array.isArray(sampling.stop)
+        ? sampling.stop
+        : [sampling.stop];
+    }
+
+    const tools = convertToolsToAnthropic(
+      toolConfig.tools,
+      toolConfig.tool_choice
+    );
+    if (tools.tools) {
+      requestBody.tools = tools.tools;
+      requestBody.tool_choice = tools.tool_choice;
+    }
+    return requestBody;
+  }
+
+  /**
+   * Wait before resending a failed chat request, if its status is in
+   * `zai.retry.statusCodes` and the retry policy has retries and waiting
+   * time left. `Retry-After` and rate-limit reset headers set the delay.
+   * @returns whether to resend the request
+   */
+  private async waitToRetryRequest(
+    retry: ZaiRetryState,
+    response: Response,
+    progress: vscode.Progress<vscode.LanguageModelResponsePart>,
+    token: vscode.CancellationToken
+  ): Promise<boolean> {
+    const delay = retry.isRetryableStatus(response.status)
+      ? retry.next(response.headers)
+      : undefined;
+    if (delay === undefined) {
+      return false;
+    }
+    console.log(
+      `[Z.ai Model Provider] ⏳ Received ${response.status} error, retry ${retry.retries}/${retry.maxRetries} after ${delay}ms`
+    );
+    progress.report({
+      value: `⏳ Request failed (${response.status}). Retry attempt ${retry.retries}/${retry.maxRetries} (waiting ${Math.ceil(delay / 1000)}s)...`,
+    } as unknown as LanguageModelResponsePart);
+    await sleep(delay, token);
+    return true;
+  }
+
+  /**
+   * Request body for a retry after a broken stream: the delivered answer is
+   * sent as the start of the assistant turn, so the model continues it
+   * instead of answering again. Its reasoning is already done, so thinking
+   * is turned off where the request set it.
+   */
+  private buildResumeRequestBody(
+    endpoint: ZaiEndpoint,
+    requestBody: ZaiRequestBody | AnthropicRequestBody,
+    answer: string
+  ): ZaiRequestBody | AnthropicRequestBody {
+    if (endpoint.transport === "anthropic") {
+      const body = requestBody as AnthropicRequestBody;
+      return {
+        ...body,
+        messages: [
+          ...body.messages,
+          // A final assistant turn must not end in whitespace
+          {
+            role: "assistant",
+            content: [{ type: "text", text: answer.trimEnd() }],
+          },
+        ],
+        thinking: body.thinking && { type: "disabled" },
+      };
+    }
+    const body = requestBody as ZaiRequestBody;
+    return {
+      ...body,
+      messages: [...body.messages, { role: "assistant", content: answer }],
+      thinking: body.thinking && { type: "disabled" },
+    };
+  }
+
+  /**
+   * POST a chat request using the path and headers of the endpoint's transport
+   */
+  private sendChatRequest(
+    endpoint: ZaiEndpoint,
+    apiKey: string,
+    requestBody: ZaiRequestBody | AnthropicRequestBody,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const isAnthropic = endpoint.transport === "anthropic";
+    const url = isAnthropic
+      ? `${endpoint.baseUrl}/v1/messages`
+      : `${endpoint.baseUrl}/chat/completions`;
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+      "User-Agent": this.userAgent,
+    };
+    if (isAnthropic) {
+      headers["x-api-key"] = apiKey;
+      headers["anthropic-version"] = ANTHROPIC_VERSION;
+    }
+    return fetch(url, {
+      method: "POST",
+      headers,
+      signal,
+      body: JSON.stringify(requestBody),
+    });
   }
 
   /**
@@ -344,23 +646,107 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     }
   }
 
+  /**
+   * Compact the conversation per `zai.compaction.strategy` so it fits into
+   * the context window, and tell the user what was compacted.
+   * @returns the compacted messages, or undefined when compaction is off or
+   *   the messages still do not fit
+   */
+  private async compactForContextWindow(
+    messages: readonly LanguageModelChatMessage[],
+    tokenBudget: number,
+    imageTokenRule: ZaiImageTokenRule,
+    visionModel: string | undefined,
+    progress: Progress<LanguageModelResponsePart>,
+    token: CancellationToken
+  ): Promise<ZaiCompactionResult | undefined> {
+    const strategy = getCompactionStrategy();
+    if (strategy === "off") {
+      return undefined;
+    }
+
+    const result = await compactMessages(messages, {
+      strategy,
+      tokenBudget,
+      maxToolResultChars: MAX_TOOL_RESULT_CHARS,
+      imageTokenRule,
+      describeImage: (image) =>
+        this.describeImage(image, DEFAULT_IMAGE_PROMPT, visionModel, token),
+      summarize: (transcript) =>
+        this._mcpClient.summarizeConversation(
+          transcript,
+          getCompactionSummaryModel(),
+          token
+        ),
+    });
+    console.log("[Z.ai Model Provider] Compacted conversation", {
+      strategy,
+      tokenBudget,
+      tokens: result.tokens,
+      fits: result.fits,
+      shortenedToolResults: result.shortenedToolResults,
+      replacedImages: result.replacedImages,
+      droppedTurns: result.droppedTurns,
+      summarized: result.summarized,
+    });
+    if (!result.fits) {
+      return undefined;
+    }
+
+    progress.report(
+      new vscode.LanguageModelTextPart(formatCompactionNotice(result))
+    );
+    return result;
+  }
+
+  /**
+   * Describe an image with the vision model, reusing the cached description
+   * of an image that was already analyzed with the same prompt. Only real
+   * descriptions are cached, so an empty response is retried next turn.
+   */
+  private async describeImage(
+    image: { mimeType: string; data: Uint8Array },
+    prompt: string,
+    visionModel: string | undefined,
+    token: CancellationToken
+  ): Promise<string> {
+    const cached = await this.imageCache.get(image.data, prompt);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const description = await this._mcpClient.analyzeImage(
+      `data:${image.mimeType};base64,${Buffer.from(image.data).toString("base64")}`,
+      prompt,
+      token,
+      visionModel
+    );
+    if (description === undefined) {
+      return "Failed to analyze image";
+    }
+    await this.imageCache.set(image.data, prompt, description);
+    return description;
+  }
+
   /**
    * Pre-process messages to handle images
-   * Converts images to text descriptions using GLM-OCR MCP
+   * Converts images to text descriptions using GLM-OCR MCP. Each image part
+   * is replaced in place by a text part; the message role, name and all
+   * other parts (tool calls, tool results) are kept as they are. Images
+   * without a cached description are analyzed in parallel, up to
+   * `zai.images.analysisConcurrency` at a time, and the chat shows which
+   * image is being analyzed.
    */
   private async processImagesForNonVisionModel(
     messages: readonly LanguageModelChatMessage[],
-    _modelId: string,
+    visionModel: string | undefined,
+    progress: Progress<LanguageModelResponsePart>,
     token: CancellationToken
   ): Promise<{
     processedMessages: LanguageModelChatMessage[];
     imageDescriptions: string[];
   }> {
-    const imageDescriptions: string[] = [];
-    const processedMessages: LanguageModelChatMessage[] = [];
-
-    for (const msg of messages) {
-      // Extract text from message
+    // The message text guides the analysis of its images
+    const analysisPrompts = messages.map((msg) => {
       const textParts: string[] = [];
       for (const part of msg.content) {
         const v = getTextPartValue(part);
@@ -368,60 +754,142 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
           textParts.push(v);
         }
       }
-      const userPrompt = textParts.join(" ");
+      return textParts.join(" ") || DEFAULT_IMAGE_PROMPT;
+    });
 
-      // Extract image data parts (supports DataPart and legacy shapes)
-      const images: Array<{ mimeType: string; data: Uint8Array }> = [];
-      for (const part of msg.content) {
-        const img = extractImageData(part);
-        if (img) {
-          images.push(img);
+    // Each distinct image and prompt is analyzed once
+    const pending = new Map<
+      string,
+      { image: { mimeType: string; data: Uint8Array }; prompt: string }
+    >();
+    const descriptions = new Map<string, string>();
+    for (const [index, msg] of messages.entries()) {
+      for (const image of getMessageImages(msg.content)) {
+        const prompt = analysisPrompts[index];
+        const key = ZaiImageDescriptionCache.key(image.data, prompt);
+        if (descriptions.has(key) || pending.has(key)) {
+          continue;
+        }
+        const cached = await this.imageCache.get(image.data, prompt);
+        if (cached !== undefined) {
+          descriptions.set(key, cached);
+        } else {
+          pending.set(key, { image, prompt });
         }
       }
+    }
 
-      if (images.length === 0) {
-        // No images, keep message as-is
-        processedMessages.push(msg);
-        continue;
-      }
-
-      // Analyze images for this message
-      const thisMessageDescriptions: string[] = [];
-      for (const img of images) {
+    let started = 0;
+    const analyzed = await mapWithConcurrency(
+      [...pending.values()],
+      getImageAnalysisConcurrency(),
+      ({ image, prompt }) => {
         if (token.isCancellationRequested) {
           throw new vscode.CancellationError();
         }
-
-        const base64Data = Buffer.from(img.data).toString("base64");
-        const imageDataUrl = `data:${img.mimeType};base64,${base64Data}`;
-
-        const analysisPrompt = userPrompt || "Describe this image in detail.";
-        const description = await this._mcpClient.analyzeImage(
-          imageDataUrl,
-          analysisPrompt
+        started++;
+        progress.report(
+          new vscode.LanguageModelTextPart(
+            `> 🔍 Analyzing image ${started}/${pending.size}…\n\n`
+          )
         );
-        thisMessageDescriptions.push(description);
+        return this.describeImage(image, prompt, visionModel, token);
       }
+    );
+    [...pending.keys()].forEach((key, i) => {
+      descriptions.set(key, analyzed[i]);
+    });
 
+    const processedMessages = messages.map((msg, index) => {
       // Replace image with text description for non-Vision model
-      const newContent: vscode.LanguageModelTextPart[] = [];
-      for (const textPart of textParts) {
-        newContent.push(new vscode.LanguageModelTextPart(textPart));
-      }
-
-      // Add image descriptions as text (only those for this message)
-      if (thisMessageDescriptions.length > 0) {
-        newContent.push(
-          new vscode.LanguageModelTextPart(
-            `\n\n[Image Analysis]:\n${thisMessageDescriptions.join("\n\n---\n\n")}`
-          )
+      const newContent = replaceImageParts(msg.content, (image) => {
+        const key = ZaiImageDescriptionCache.key(
+          image.data,
+          analysisPrompts[index]
+        );
+        return new vscode.LanguageModelTextPart(
+          `[Image Analysis]:\n${descriptions.get(key) ?? ""}`
         );
+      });
+      if (!newContent) {
+        // No images, keep message as-is
+        return msg;
       }
+      return new vscode.LanguageModelChatMessage(
+        msg.role,
+        newContent,
+        msg.name
+      );
+    });
+
+    return { processedMessages, imageDescriptions: [...descriptions.values()] };
+  }
 
-      processedMessages.push(vscode.LanguageModelChatMessage.User(newContent));
+  /**
+   * Bring images within `zai.images.*` limits. Images that cannot be sent
+   * are replaced with a note, and the user is told about changes to the
+   * images of the latest user message.
+   */
+  private async prepareImages(
+    messages: readonly LanguageModelChatMessage[],
+    progress: Progress<LanguageModelResponsePart>
+  ): Promise<readonly LanguageModelChatMessage[]> {
+    const limits = getImageLimits();
+    // Convert the images first, one at a time, then swap them in by order
+    const images: { mimeType: string; data: Uint8Array }[] = [];
+    for (const message of messages) {
+      replaceImageParts(message.content, (image) => {
+        images.push(image);
+        return undefined;
+      });
+    }
+    const results: ZaiPreparedImage[] = [];
+    for (const image of images) {
+      results.push(await prepareImageCached(image, limits));
     }
+    let next = 0;
+
+    let latestUser = -1;
+    messages.forEach((message, index) => {
+      if (message.role === vscode.LanguageModelChatMessageRole.User) {
+        latestUser = index;
+      }
+    });
 
-    return { processedMessages, imageDescriptions };
+    let changed = false;
+    const prepared = messages.map((message, index) => {
+      const content = replaceImageParts(message.content, () => {
+        const result = results[next++];
+        if (result.status === "unchanged") {
+          return undefined;
+        }
+        if (index === latestUser) {
+          console.log("[Z.ai Model Provider] Prepared image", {
+            status: result.status,
+            originalBytes: result.originalBytes,
+            bytes: result.status === "converted" ? result.data.length : 0,
+          });
+          progress.report(
+            new vscode.LanguageModelTextPart(formatImageNotice(result))
+          );
+        }
+        return result.status === "converted"
+          ? new vscode.LanguageModelDataPart(result.data, result.mimeType)
+          : new vscode.LanguageModelTextPart(
+              `[Image not sent: ${result.reason}]`
+            );
+      });
+      if (!content) {
+        return message;
+      }
+      changed = true;
+      return new vscode.LanguageModelChatMessage(
+        message.role,
+        content,
+        message.name
+      );
+    });
+    return changed ? prepared : messages;
   }
 
   /**
@@ -440,17 +908,6 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     progress: Progress<LanguageModelResponsePart>,
     token: CancellationToken
   ): Promise<void> {
-    // Reset state
-    this._toolCallBuffers.clear();
-    this._completedToolCallIndices.clear();
-    this._hasEmittedAssistantText = false;
-    this._emittedBeginToolCallsHint = false;
-    this._textToolParserBuffer = "";
-    this._textToolActive = undefined;
-    this._emittedTextToolCallKeys.clear();
-    this._emittedTextToolCallIds.clear();
-    this._usageMetrics = { prompt_tokens: 0, completion_tokens: 0 };
-    this._usageReported = false;
     const abortController = new AbortController();
     const cancellationSubscription = token.onCancellationRequested(() => {
       abortController.abort();
@@ -477,60 +934,52 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
       if (!apiKey) {
         throw vscode.LanguageModelError.NoPermissions("Z.ai API key not found");
       }
-
-      const hasImages = this.hasImageInput(messages);
-      const imageAnalysisTool = this.findImageAnalysisToolName(options.tools);
-      let processedMessages = messages;
+      const inputMessages = this.hasImageInput(messages)
+        ? await this.prepareImages(messages, trackingProgress)
+        : messages;
+      const hasImages = this.hasImageInput(inputMessages);
+      let processedMessages = inputMessages;
       let effectiveModelId = model.id;
       /** Whether we switched to a vision fallback model (may need OCR recovery) */
       let usedVisionFallback = false;
-
-      if (hasImages) {
-        if (!this.modelSupportsVision(model.id)) {
-          // MCP-first: prefer image analysis tool over vision model switching.
-          // This avoids sending large base64 images and stays on the original model.
-          if (imageAnalysisTool) {
-            console.log(
-              "[Z.ai Model Provider] Using MCP image analysis tool",
-              {
-                tool: imageAnalysisTool,
-                originalModel: model.id,
-              }
-            );
-            const result = await this.processImagesForNonVisionModel(
-              messages,
-              model.id,
-              token
-            );
-            processedMessages = result.processedMessages;
-          } else {
-            // No MCP tool available, fall back to vision model switching
-            const visionFallback = this.getVisionFallbackModelId();
-            if (visionFallback && visionFallback !== model.id) {
-              console.warn(
-                "[Z.ai Model Provider] Switching to vision model for image input",
-                {
-                  originalModel: model.id,
-                  visionModel: visionFallback,
-                }
-              );
-              effectiveModelId = visionFallback;
-              usedVisionFallback = true;
-            } else {
-              console.warn(
-                "[Z.ai Model Provider] No vision model or MCP tool available, using OCR fallback"
-              );
-              const result = await this.processImagesForNonVisionModel(
-                messages,
-                model.id,
-                token
-              );
-              processedMessages = result.processedMessages;
-            }
-          }
+      const vision = getVisionSettings(model.id);
+
+      if (hasImages && !this.modelSupportsVision(model.id)) {
+        const visionFallback = this.getVisionFallbackModelId(vision.model);
+        const route = chooseVisionRoute(
+          vision.strategy,
+          visionFallback !== model.id ? visionFallback : undefined,
+          this.findImageAnalysisToolName(options.tools) !== undefined
+        );
+        console.log("[Z.ai Model Provider] Routing image input", {
+          strategy: vision.strategy,
+          route: route.kind,
+          originalModel: model.id,
+          visionModel: visionFallback,
+        });
+        if (this.latestUserMessageHasImages(inputMessages)) {
+          trackingProgress.report(
+            new vscode.LanguageModelTextPart(
+              formatVisionRouteNotice(route, model.id)
+            )
+          );
+        }
+        if (route.kind === "switch") {
+          effectiveModelId = route.visionModel;
+          usedVisionFallback = true;
+        } else {
+          const result = await this.processImagesForNonVisionModel(
+            inputMessages,
+            vision.model,
+            trackingProgress,
+            token
+          );
+          processedMessages = result.processedMessages;
         }
       }
 
+      let endpoint = this.getModelEndpoint(effectiveModelId);
+
       if (options.tools && options.tools.length > MAX_TOOLS_PER_REQUEST) {
         throw new Error(
           `Cannot have more than ${MAX_TOOLS_PER_REQUEST} tools per request.`
@@ -538,40 +987,61 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
       }
 
       const toolConfig = convertTools(options);
-      const zaiMessages = convertMessages(processedMessages, {
-        maxToolResultChars: MAX_TOOL_RESULT_CHARS,
-      });
       validateRequest(processedMessages);
 
       // Estimate tokens (rough approximation)
-      const inputTokenCount = estimateMessagesTokens(processedMessages, {
+      const effectiveModelInfo = this.getModelInfo(effectiveModelId);
+      const imageTokenRule = getImageTokenRule(effectiveModelInfo);
+      let inputTokenCount = estimateMessagesTokens(processedMessages, {
         maxToolResultChars: MAX_TOOL_RESULT_CHARS,
+        imageTokenRule,
       });
       const toolTokenCount = this.estimateToolTokens(toolConfig.tools);
-      const effectiveModelInfo = this.getModelInfo(effectiveModelId);
-      const mo = options.modelOptions as Record<string, Json> | undefined;
-      const maxTokensVal =
-        typeof mo?.max_tokens === "number" ? mo.max_tokens : DEFAULT_MAX_TOKENS;
-      const temperatureVal =
-        typeof mo?.temperature === "number" ? mo.temperature : 0.7;
-      const effectiveMaxOutputTokens =
-        effectiveModelInfo?.maxOutput ?? model.maxOutputTokens;
-      const requestedMaxTokens = Math.min(
-        maxTokensVal,
-        effectiveMaxOutputTokens
-      );
       const tokenLimit = Math.max(
         1,
         effectiveModelInfo
           ? effectiveModelInfo.contextWindow
           : model.maxInputTokens
       );
-      const totalEstimatedTokens = inputTokenCount + toolTokenCount;
+      // Estimates are in raw units; the learned ratio maps them to API tokens
+      const calibrationRatio = this._calibration.getRatio(effectiveModelId);
+      const rawTokenLimit = Math.floor(tokenLimit / calibrationRatio);
+      if (inputTokenCount + toolTokenCount > rawTokenLimit) {
+        const compacted = await this.compactForContextWindow(
+          processedMessages,
+          rawTokenLimit - toolTokenCount,
+          imageTokenRule,
+          vision.model,
+          trackingProgress,
+          token
+        );
+        if (compacted) {
+          processedMessages = compacted.messages;
+          inputTokenCount = compacted.tokens;
+        }
+      }
+      const mo = options.modelOptions as Record<string, Json> | undefined;
+      const requestBody = this.buildRequestBody(
+        endpoint,
+        effectiveModelId,
+        processedMessages,
+        toolConfig,
+        mo,
+        model.maxOutputTokens
+      );
+      const effectiveMaxOutputTokens =
+        effectiveModelInfo?.maxOutput ?? model.maxOutputTokens;
+      const requestedMaxTokens = requestBody.max_tokens;
+      const rawEstimatedTokens = inputTokenCount + toolTokenCount;
+      const totalEstimatedTokens = Math.ceil(
+        rawEstimatedTokens * calibrationRatio
+      );
       debugLog("PRE-REQUEST", {
         model: effectiveModelId,
         messageCount: processedMessages.length,
         inputTokenEstimate: inputTokenCount,
         toolTokenEstimate: toolTokenCount,
+        calibrationRatio,
         totalEstimate: totalEstimatedTokens,
         contextWindow: tokenLimit,
         maxInputTokensReported: Math.floor(tokenLimit * 0.75),
@@ -589,51 +1059,11 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
         });
         throw new Error("Message exceeds token limit.");
       }
-      const requestBody: ZaiRequestBody = {
-        model: effectiveModelId,
-        messages: zaiMessages,
-        stream: true,
-        stream_options: { include_usage: true },
-        max_tokens: requestedMaxTokens,
-        temperature: temperatureVal,
-      };
-
-      // Enable thinking mode if setting is enabled
-      if (this.isThinkingEnabled()) {
-        requestBody.thinking = {
-          type: "enabled",
-        };
-      }
-
-      // Allow-list model options
-      if (mo) {
-        if (typeof mo.stop === "string") {
-          requestBody.stop = mo.stop;
-        } else if (
-          Array.isArray(mo.stop) &&
-          mo.stop.every((s) => typeof s === "string")
-        ) {
-          requestBody.stop = mo.stop;
-        }
-        if (typeof mo.frequency_penalty === "number") {
-          requestBody.frequency_penalty = mo.frequency_penalty;
-        }
-        if (typeof mo.presence_penalty === "number") {
-          requestBody.presence_penalty = mo.presence_penalty;
-        }
-      }
-
-      if (toolConfig.tools) {
-        requestBody.tools = toolConfig.tools;
-      }
-      if (toolConfig.tool_choice) {
-        requestBody.tool_choice = toolConfig.tool_choice;
-      }
 
       console.log("[Z.ai Model Provider] 🚀 Starting chat request", {
         model: effectiveModelId,
         messageCount: messages.length,
-        thinkingEnabled: this.isThinkingEnabled(),
+        thinkingEnabled: requestBody.thinking?.type === "enabled",
         includeUsage: true,
         timestamp: new Date().toISOString(),
       });
@@ -642,109 +1072,89 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
         throw new vscode.CancellationError();
       }
 
-      // Retry loop for handling retryable errors (429, 500, 502, 503, 504)
-      let response: Response | undefined;
-      let lastError: Error | undefined;
-      let lastStatusCode = 0;
+      // Retry loop for handling retryable errors (zai.retry.statusCodes)
+      const retry = this.retryPolicy.begin();
+      let response: Response;
 
-      for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      for (;;) {
         if (token.isCancellationRequested) {
           throw new vscode.CancellationError();
         }
 
-        if (attempt > 0) {
-          const delay = BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
-          console.log(
-            `[Z.ai Model Provider] ⏳ Retry attempt ${attempt}/${MAX_RETRIES} after ${delay}ms delay`
-          );
-          progress.report({
-            value: `⏳ Request failed (${lastStatusCode}). Retry attempt ${attempt}/${MAX_RETRIES} (waiting ${delay / 1000}s)...`,
-          } as unknown as LanguageModelResponsePart);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
-
-        response = await fetch(`${BASE_URL}/chat/completions`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-            "User-Agent": this.userAgent,
-          },
-          signal: abortController.signal,
-          body: JSON.stringify(requestBody),
-        });
+        response = await this.sendChatRequest(
+          endpoint,
+          apiKey,
+          requestBody,
+          abortController.signal
+        );
 
         if (response.ok) {
-          lastError = undefined;
           break;
         }
 
         const errorText = await response.text();
-        lastStatusCode = response.status;
         console.error("[Z.ai Model Provider] API error response", {
           status: response.status,
-          attempt,
+          attempt: retry.retries,
           error: errorText,
         });
 
-        // Check if this is a retryable error (429, 500, 502, 503, 504)
-        if (
-          RETRYABLE_STATUS_CODES.includes(response.status) &&
-          attempt < MAX_RETRIES
-        ) {
+        if (retry.isRetryableStatus(response.status)) {
           // If vision fallback failed due to subscription limits (429 + code 1311),
           // fall back to OCR processing on the original model instead.
-          if (usedVisionFallback && errorText.includes("1311")) {
+          if (
+            usedVisionFallback &&
+            vision.strategy === "auto" &&
+            errorText.includes("1311")
+          ) {
             console.warn(
               "[Z.ai Model Provider] Vision model unavailable on subscription, falling back to OCR",
               { originalModel: model.id, failedVisionModel: effectiveModelId }
             );
+            if (this.latestUserMessageHasImages(inputMessages)) {
+              trackingProgress.report(
+                new vscode.LanguageModelTextPart(
+                  formatVisionRouteNotice(
+                    { kind: "describe" },
+                    model.id,
+                    effectiveModelId
+                  )
+                )
+              );
+            }
 
             // Reset to original model and process images via OCR
             effectiveModelId = model.id;
+            endpoint = this.getModelEndpoint(effectiveModelId);
+            // The configured vision model is not in the plan either
             const ocrResult = await this.processImagesForNonVisionModel(
-              messages,
-              model.id,
+              inputMessages,
+              undefined,
+              trackingProgress,
               token
             );
             processedMessages = ocrResult.processedMessages;
 
             // Rebuild request with original model + OCR'd messages
-            const ocrZaiMessages = convertMessages(processedMessages, {
-              maxToolResultChars: MAX_TOOL_RESULT_CHARS,
-            });
-            const ocrRequestBody: ZaiRequestBody = {
-              model: effectiveModelId,
-              messages: ocrZaiMessages,
-              stream: true,
-              stream_options: { include_usage: true },
-              max_tokens: requestedMaxTokens,
-              temperature: temperatureVal,
-            };
-            if (this.isThinkingEnabled()) {
-              ocrRequestBody.thinking = { type: "enabled" };
-            }
-            if (toolConfig.tools) {
-              ocrRequestBody.tools = toolConfig.tools;
-            }
-            if (toolConfig.tool_choice) {
-              ocrRequestBody.tool_choice = toolConfig.tool_choice;
-            }
+            const ocrRequestBody = this.buildRequestBody(
+              endpoint,
+              effectiveModelId,
+              processedMessages,
+              toolConfig,
+              mo,
+              model.maxOutputTokens
+            );
 
             console.log("[Z.ai Model Provider] 🔄 Retrying with OCR fallback", {
               model: effectiveModelId,
             });
 
-            const retryResponse = await fetch(`${BASE_URL}/chat/completions`, {
-              method: "POST",
-              headers: {
-                Authorization: `Bearer ${apiKey}`,
-                "Content-Type": "application/json",
-                "User-Agent": this.userAgent,
-              },
-              signal: abortController.signal,
-              body: JSON.stringify(ocrRequestBody),
-            });
+            const retryResponse = await this.sendChatRequest(
+              endpoint,
+              apiKey,
+              ocrRequestBody,
+              abortController.signal
+            );
 
             if (!retryResponse.ok) {
               const retryErrorText = await retryResponse.text();
@@ -763,26 +1173,22 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
               throw new Error("No response body from Z.ai API");
             }
 
-            await this.processStreamingResponse(
+            await this.processResponseStream(
+              endpoint,
               retryResponse.body,
               trackingProgress,
-              token
+              token,
+              new ZaiStreamSession(options.tools)
             );
             return;
           }
+        }
 
-          lastError = this.toLanguageModelError(
-            response.status,
-            response.statusText,
-            errorText
-          );
-          console.log(
-            `[Z.ai Model Provider] 🔄 Received ${response.status} error, will retry (attempt ${attempt + 1}/${MAX_RETRIES})`
-          );
+        if (await this.waitToRetryRequest(retry, response, progress, token)) {
           continue;
         }
 
-        // Non-retryable error or max retries exceeded
+        // Non-retryable error, retries exhausted or wait budget exceeded
         throw this.toLanguageModelError(
           response.status,
           response.statusText,
@@ -790,25 +1196,34 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
         );
       }
 
-      if (!response || !response.ok) {
-        throw lastError || new Error("Request failed after max retries");
-      }
-
       if (!response.body) {
         throw new Error("No response body from Z.ai API");
       }
 
-      // Process streaming response with retry on failure
-      let streamRetryCount = 0;
+      // Process streaming response with retry on failure.
+      // Retried streams are filtered so already delivered output is not repeated.
+      const resumeFilter = new ZaiResumeFilter(trackingProgress);
+      const streamRetry = this.retryPolicy.begin();
+      /** Answer delivered by broken streams, which a retry continues */
+      let deliveredAnswer = "";
       while (true) {
+        const session = new ZaiStreamSession(options.tools);
         try {
-          await this.processStreamingResponse(
+          const usage = await this.processResponseStream(
+            endpoint,
             response.body,
-            trackingProgress,
-            token
+            resumeFilter.beginAttempt(deliveredAnswer.trim() !== ""),
+            token,
+            session
           );
-          // Success - reset retry count for potential future requests
-          streamRetryCount = 0;
+          this._calibration
+            .record(effectiveModelId, rawEstimatedTokens, usage.prompt_tokens)
+            .catch((err) =>
+              console.warn(
+                "[Z.ai Model Provider] Failed to store token calibration",
+                err
+              )
+            );
           break;
         } catch (streamErr) {
           // Don't retry on cancellation
@@ -819,52 +1234,78 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
           ) {
             throw new vscode.CancellationError();
           }
+          // Errors reported by the API inside the stream are final
+          if (streamErr instanceof vscode.LanguageModelError) {
+            throw streamErr;
+          }
+
+          // A retry that started over repeats the answer instead of
+          // continuing it
+          deliveredAnswer = session.answerText.startsWith(deliveredAnswer)
+            ? session.answerText
+            : deliveredAnswer + session.answerText;
 
-          streamRetryCount++;
-          if (streamRetryCount > MAX_RETRIES) {
+          const delay = streamRetry.next();
+          if (delay === undefined) {
             console.error(
-              `[Z.ai Model Provider] Streaming failed after ${MAX_RETRIES} retries`,
+              `[Z.ai Model Provider] Streaming failed after ${streamRetry.retries} retries`,
               streamErr
             );
             throw streamErr;
           }
 
-          const delay = BASE_RETRY_DELAY_MS * Math.pow(2, streamRetryCount - 1);
           console.warn(
-            `[Z.ai Model Provider] ⏳ Streaming error, retry ${streamRetryCount}/${MAX_RETRIES} after ${delay}ms`,
+            `[Z.ai Model Provider] ⏳ Streaming error, retry ${streamRetry.retries}/${streamRetry.maxRetries} after ${delay}ms`,
             streamErr
           );
           progress.report({
-            value: `⏳ Streaming error. Retry ${streamRetryCount}/${MAX_RETRIES} (waiting ${delay / 1000}s)...`,
+            value: `⏳ Streaming error. Retry ${streamRetry.retries}/${streamRetry.maxRetries} (waiting ${Math.ceil(delay / 1000)}s)...`,
           } as unknown as LanguageModelResponsePart);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-
-          // Re-fetch the request for retry
-          if (token.isCancellationRequested) {
-            throw new vscode.CancellationError();
-          }
-          response = await fetch(`${BASE_URL}/chat/completions`, {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              "Content-Type": "application/json",
-              "User-Agent": this.userAgent,
-            },
-            signal: abortController.signal,
-            body: JSON.stringify(requestBody),
-          });
+          await sleep(delay, token);
+
+          // Re-fetch the request for retry; failed statuses are retried
+          // like those of the first request, from the stream retry budget
+          const retryBody = deliveredAnswer.trim()
+            ? this.buildResumeRequestBody(
+                endpoint,
+                requestBody,
+                deliveredAnswer
+              )
+            : requestBody;
+          for (;;) {
+            if (token.isCancellationRequested) {
+              throw new vscode.CancellationError();
+            }
+            response = await this.sendChatRequest(
+              endpoint,
+              apiKey,
+              retryBody,
+              abortController.signal
+            );
+            if (response.ok) {
+              break;
+            }
 
-          if (!response.ok) {
             const retryErrorText = await response.text();
-            console.error(
-              "[Z.ai Model Provider] Retry request failed",
-              retryErrorText
-            );
-            throw this.toLanguageModelError(
-              response.status,
-              response.statusText,
-              retryErrorText
-            );
+            console.error("[Z.ai Model Provider] Retry request failed", {
+              status: response.status,
+              attempt: streamRetry.retries,
+              error: retryErrorText,
+            });
+            if (
+              !(await this.waitToRetryRequest(
+                streamRetry,
+                response,
+                progress,
+                token
+              ))
+            ) {
+              throw this.toLanguageModelError(
+                response.status,
+                response.statusText,
+                retryErrorText
+              );
+            }
           }
 
           if (!response.body) {
@@ -901,7 +1342,7 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
    * @returns A promise that resolves to the number of tokens
    */
   provideTokenCount(
-    _model: LanguageModelChatInformation,
+    model: LanguageModelChatInformation,
     text:
       | string
       | {
@@ -910,15 +1351,26 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     _token: CancellationToken
   ): Promise<number> {
     if (typeof text === "string") {
-      return Promise.resolve(estimateTokens(text));
+      return Promise.resolve(
+        this._calibration.apply(model.id, estimateTokens(text))
+      );
     }
 
     const partCount = text.content.length;
-    const totalTokens = estimateMessagesTokens([
-      {
-        content: text.content as (vscode.LanguageModelInputPart | LegacyPart)[],
-      },
-    ]);
+    const totalTokens = this._calibration.apply(
+      model.id,
+      estimateMessagesTokens(
+        [
+          {
+            content: text.content as (
+              | vscode.LanguageModelInputPart
+              | LegacyPart
+            )[],
+          },
+        ],
+        { imageTokenRule: getImageTokenRule(this.getModelInfo(model.id)) }
+      )
+    );
     debugLog("TOKEN-COUNT", {
       type: "message",
       partCount,
@@ -948,126 +1400,196 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     return apiKey;
   }
 
+  /**
+   * Read a streaming response in the format of the endpoint's transport.
+   * @param session Fresh parsing state for this stream, so concurrent
+   *   requests stay isolated.
+   * @returns the token usage reported by the API
+   */
+  private async processResponseStream(
+    endpoint: ZaiEndpoint,
+    responseBody: ReadableStream<Uint8Array>,
+    progress: vscode.Progress<vscode.LanguageModelResponsePart>,
+    token: vscode.CancellationToken,
+    session: ZaiStreamSession
+  ): Promise<ZaiStreamSession["usageMetrics"]> {
+    if (endpoint.transport === "anthropic") {
+      await this.processAnthropicStreamingResponse(
+        session,
+        responseBody,
+        progress,
+        token
+      );
+    } else {
+      await this.processStreamingResponse(
+        session,
+        responseBody,
+        progress,
+        token
+      );
+    }
+    return session.usageMetrics;
+  }
+
+  /**
+   * Read and parse a Messages API event stream and report parts.
+   * @param session Parsing state for this stream.
+   * @param responseBody The readable stream body.
+   * @param progress Progress reporter for streamed parts.
+   * @param token Cancellation token.
+   */
+  private async processAnthropicStreamingResponse(
+    session: ZaiStreamSession,
+    responseBody: ReadableStream<Uint8Array>,
+    progress: vscode.Progress<vscode.LanguageModelResponsePart>,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const state = new AnthropicStreamState({
+      text: (value) => {
+        this.flushReasoningBuffer(session, progress);
+        if (value) {
+          progress.report(new vscode.LanguageModelTextPart(value));
+          session.hasEmittedAssistantText = true;
+          session.answerText += value;
+        }
+      },
+      thinking: (value, id, metadata) => {
+        this.reportReasoning(session, progress, value, id, metadata);
+      },
+      toolCall: (part) => {
+        this.flushReasoningBuffer(session, progress);
+        progress.report(part);
+      },
+      usage: (promptTokens, completionTokens) => {
+        session.usageMetrics = {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+        };
+      },
+    });
+
+    for await (const sse of readSseEvents(responseBody, token)) {
+      const event = this.parseStreamData<AnthropicStreamEvent>(sse.data);
+      if (event) {
+        // Error events throw and propagate to the caller
+        state.handleEvent(event);
+      }
+    }
+    if (!token.isCancellationRequested) {
+      state.finish();
+    }
+    this.flushReasoningBuffer(session, progress);
+    this.reportUsageMetrics(session, progress);
+  }
+
   /**
    * Read and parse the Z.ai streaming (SSE) response and report parts.
+   * @param session Parsing state for this stream.
    * @param responseBody The readable stream body.
    * @param progress Progress reporter for streamed parts.
    * @param token Cancellation token.
    */
   private async processStreamingResponse(
+    session: ZaiStreamSession,
     responseBody: ReadableStream<Uint8Array>,
     progress: vscode.Progress<vscode.LanguageModelResponsePart>,
     token: vscode.CancellationToken
   ): Promise<void> {
-    const reader = responseBody.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
-
     try {
-      while (!token.isCancellationRequested) {
-        const { done, value } = await reader.read();
-        if (done) {
-          break;
+      for await (const event of readSseEvents(responseBody, token)) {
+        if (event.data === "[DONE]") {
+          this.processInlineThinkingSegments(
+            session,
+            session.inlineThinkingParser.flush(),
+            progress
+          );
+          // Markdown display: close any open reasoning block
+          this.flushReasoningBuffer(session, progress);
+          // Do not throw on DONE for incomplete tool call JSON.
+          await this.flushToolCallBuffers(session, progress, false);
+          this.processContentSegments(
+            session,
+            session.glmToolCallParser.flush(),
+            progress
+          );
+          await this.flushActiveTextToolCall(session, progress);
+          // Report usage metrics
+          debugLog("STREAM-DONE", {
+            apiPromptTokens: session.usageMetrics.prompt_tokens,
+            apiCompletionTokens: session.usageMetrics.completion_tokens,
+          });
+          console.log(
+            "[Z.ai Model Provider] Stream [DONE], final usage metrics:",
+            {
+              prompt_tokens: session.usageMetrics.prompt_tokens,
+              completion_tokens: session.usageMetrics.completion_tokens,
+              alreadyReported: session.usageReported,
+            }
+          );
+          this.reportUsageMetrics(session, progress);
+          continue;
         }
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+        const parsed = this.parseStreamData<ZaiStreamResponse>(event.data);
+        // Errors sent mid-stream (or as an `error` event) end the response
+        const streamError =
+          getStreamErrorPayload(parsed) ??
+          (event.type === "error" ? { message: event.data } : undefined);
+        if (streamError) {
+          throw toStreamLanguageModelError(streamError);
+        }
+        if (!parsed) {
+          continue;
+        }
 
-        for (const line of lines) {
-          if (!line.startsWith("data: ")) {
-            continue;
-          }
-          const data = line.slice(6);
-          if (data === "[DONE]") {
-            // Older VS Code: flush any remaining buffered reasoning content
-            if (
-              this.isThinkingEnabled() &&
-              !this.hasThinkingPartSupport() &&
-              this._reasoningContentBuffer
-            ) {
-              const formattedReasoning = this.formatReasoningContent(
-                this._reasoningContentBuffer,
-                true
-              );
-              progress.report(
-                new vscode.LanguageModelTextPart(formattedReasoning)
-              );
-              this._reasoningContentBuffer = "";
-            }
-            // Do not throw on DONE for incomplete tool call JSON.
-            await this.flushToolCallBuffers(progress, false);
-            await this.flushActiveTextToolCall(progress);
-            // Report usage metrics
-            debugLog("STREAM-DONE", {
-              apiPromptTokens: this._usageMetrics.prompt_tokens,
-              apiCompletionTokens: this._usageMetrics.completion_tokens,
-            });
-            console.log(
-              "[Z.ai Model Provider] Stream [DONE], final usage metrics:",
-              {
-                prompt_tokens: this._usageMetrics.prompt_tokens,
-                completion_tokens: this._usageMetrics.completion_tokens,
-                alreadyReported: this._usageReported,
-              }
-            );
-            this.reportUsageMetrics(progress);
-            continue;
+        // Track usage metrics from the response
+        if (parsed.usage) {
+          console.log(
+            "[Z.ai Model Provider] Received usage in chunk:",
+            parsed.usage
+          );
+          if (parsed.usage.prompt_tokens !== undefined) {
+            session.usageMetrics.prompt_tokens = parsed.usage.prompt_tokens;
           }
-
-          try {
-            const parsed = JSON.parse(data) as ZaiStreamResponse;
-            // Track usage metrics from the response
-            if (parsed.usage) {
-              console.log(
-                "[Z.ai Model Provider] Received usage in chunk:",
-                parsed.usage
-              );
-              if (parsed.usage.prompt_tokens !== undefined) {
-                this._usageMetrics.prompt_tokens = parsed.usage.prompt_tokens;
-              }
-              if (parsed.usage.completion_tokens !== undefined) {
-                this._usageMetrics.completion_tokens =
-                  parsed.usage.completion_tokens;
-              }
-            }
-            // Skip processDelta for usage-only final chunk (empty choices)
-            if (parsed.choices && parsed.choices.length > 0) {
-              await this.processDelta(parsed, progress);
-            } else if (parsed.usage) {
-              console.log(
-                "[Z.ai Model Provider] Received usage-only final chunk:",
-                parsed.usage
-              );
-            }
-          } catch {
-            // Silently ignore malformed SSE lines temporarily
+          if (parsed.usage.completion_tokens !== undefined) {
+            session.usageMetrics.completion_tokens =
+              parsed.usage.completion_tokens;
           }
         }
+        // Skip processDelta for usage-only final chunk (empty choices)
+        if (parsed.choices && parsed.choices.length > 0) {
+          await this.processDelta(session, parsed, progress);
+        } else if (parsed.usage) {
+          console.log(
+            "[Z.ai Model Provider] Received usage-only final chunk:",
+            parsed.usage
+          );
+        }
       }
     } finally {
       // Report any unreported usage metrics before cleanup
-      if (!this._usageReported) {
+      if (!session.usageReported) {
         try {
-          this.reportUsageMetrics(progress);
+          this.reportUsageMetrics(session, progress);
         } catch {
           // Best effort — progress may already be closed
         }
       }
-      reader.releaseLock();
-      // Clean up any leftover tool call state
-      this._toolCallBuffers.clear();
-      this._completedToolCallIndices.clear();
-      this._hasEmittedAssistantText = false;
-      this._emittedBeginToolCallsHint = false;
-      this._textToolParserBuffer = "";
-      this._textToolActive = undefined;
-      this._emittedTextToolCallKeys.clear();
-      this._emittedTextToolCallIds.clear();
-      this._hasEmittedThinkingContent = false;
-      this._reasoningContentBuffer = "";
-      this._usageMetrics = { prompt_tokens: 0, completion_tokens: 0 };
-      this._usageReported = false;
+    }
+  }
+
+  /**
+   * Parse the JSON payload of a stream event.
+   * @returns undefined for malformed payloads, which are logged and skipped
+   */
+  private parseStreamData<T>(data: string): T | undefined {
+    try {
+      return JSON.parse(data) as T;
+    } catch {
+      console.warn("[Z.ai Model Provider] Skipping malformed stream data", {
+        snippet: data.slice(0, 200),
+      });
+      return undefined;
     }
   }
 
@@ -1075,20 +1597,22 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
    * Report usage metrics to VS Code Chat UI via LanguageModelDataPart
    */
   private reportUsageMetrics(
+    session: ZaiStreamSession,
     progress: vscode.Progress<vscode.LanguageModelResponsePart>
   ): void {
-    if (this._usageReported) {
+    if (session.usageReported) {
       return;
     }
     if (
-      this._usageMetrics.prompt_tokens > 0 ||
-      this._usageMetrics.completion_tokens > 0
+      session.usageMetrics.prompt_tokens > 0 ||
+      session.usageMetrics.completion_tokens > 0
     ) {
       const totalTokens =
-        this._usageMetrics.prompt_tokens + this._usageMetrics.completion_tokens;
+        session.usageMetrics.prompt_tokens +
+        session.usageMetrics.completion_tokens;
       console.log("[Z.ai Model Provider] Token usage metrics", {
-        prompt_tokens: this._usageMetrics.prompt_tokens,
-        completion_tokens: this._usageMetrics.completion_tokens,
+        prompt_tokens: session.usageMetrics.prompt_tokens,
+        completion_tokens: session.usageMetrics.completion_tokens,
         total_tokens: totalTokens,
       });
       try {
@@ -1096,8 +1620,8 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
           vscode.LanguageModelDataPart.json(
             {
               type: "usage",
-              prompt_tokens: this._usageMetrics.prompt_tokens,
-              completion_tokens: this._usageMetrics.completion_tokens,
+              prompt_tokens: session.usageMetrics.prompt_tokens,
+              completion_tokens: session.usageMetrics.completion_tokens,
               total_tokens: totalTokens,
             },
             "application/vnd.zai.usage+json"
@@ -1109,16 +1633,18 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
           e
         );
       }
-      this._usageReported = true;
+      session.usageReported = true;
     }
   }
 
   /**
    * Handle a single streamed delta chunk, emitting text and tool call parts.
+   * @param session Parsing state for this stream.
    * @param delta Parsed SSE chunk from Z.ai.
    * @param progress Progress reporter for parts.
    */
   private async processDelta(
+    session: ZaiStreamSession,
     delta: ZaiStreamResponse,
     progress: vscode.Progress<vscode.LanguageModelResponsePart>
   ): Promise<boolean> {
@@ -1131,55 +1657,27 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     const deltaObj = choice.delta;
 
     // Handle reasoning content (thinking process) - only if thinking is enabled
-    if (this.isThinkingEnabled() && deltaObj?.reasoning_content) {
-      const reasoning = String(deltaObj.reasoning_content);
-      if (!this._hasEmittedThinkingContent) {
-        console.log(
-          "[Z.ai Model Provider] 🧠 Starting reasoning/thinking process...",
-          {
-            timestamp: new Date().toISOString(),
-            hasThinkingPartSupport: this.hasThinkingPartSupport(),
-          }
-        );
-      }
-      this._hasEmittedThinkingContent = true;
-
-      if (this.hasThinkingPartSupport()) {
-        // VS Code 1.116+: native ThinkingPart for collapsible thinking display
-        const thinkingPart = new vscode.LanguageModelThinkingPart(
-          reasoning
-        ) as unknown as vscode.LanguageModelResponsePart;
-        progress.report(thinkingPart);
-      } else {
-        // Older VS Code: buffer reasoning and emit as formatted markdown later
-        this._reasoningContentBuffer += reasoning;
+    if (deltaObj?.reasoning_content) {
+      if (
+        this.reportReasoning(
+          session,
+          progress,
+          String(deltaObj.reasoning_content)
+        )
+      ) {
+        emitted = true;
       }
-      emitted = true;
     }
 
-    // Handle text content
+    // Handle text content, which may carry inline <think> reasoning
     if (deltaObj?.content) {
-      const content = String(deltaObj.content);
-
-      // Older VS Code: flush buffered reasoning as formatted markdown before text
       if (
-        this.isThinkingEnabled() &&
-        !this.hasThinkingPartSupport() &&
-        this._reasoningContentBuffer
+        this.processInlineThinkingSegments(
+          session,
+          session.inlineThinkingParser.push(String(deltaObj.content)),
+          progress
+        )
       ) {
-        const formattedReasoning = this.formatReasoningContent(
-          this._reasoningContentBuffer,
-          true
-        );
-        progress.report(new vscode.LanguageModelTextPart(formattedReasoning));
-        this._reasoningContentBuffer = "";
-      }
-
-      const textResult = this.processTextContent(content, progress);
-      if (textResult.emittedText) {
-        this._hasEmittedAssistantText = true;
-      }
-      if (textResult.emittedAny) {
         emitted = true;
       }
     }
@@ -1187,24 +1685,26 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     // Handle tool calls
     if (deltaObj?.tool_calls) {
       const toolCalls = deltaObj.tool_calls;
+      // Markdown display: close the reasoning block before the tool calls
+      this.flushReasoningBuffer(session, progress);
 
       // Emit a whitespace hint to flush UI rendering once tool calls begin
       if (
-        !this._emittedBeginToolCallsHint &&
-        this._hasEmittedAssistantText &&
+        !session.emittedBeginToolCallsHint &&
+        session.hasEmittedAssistantText &&
         toolCalls.length > 0
       ) {
         progress.report(new vscode.LanguageModelTextPart(" "));
-        this._emittedBeginToolCallsHint = true;
+        session.emittedBeginToolCallsHint = true;
       }
 
       for (const tc of toolCalls) {
         const idx = (tc as { index?: number }).index ?? 0;
         // Ignore any further deltas for an index we've already completed
-        if (this._completedToolCallIndices.has(idx)) {
+        if (session.completedToolCallIndices.has(idx)) {
           continue;
         }
-        const buf = this._toolCallBuffers.get(idx) ?? { args: "" };
+        const buf = session.toolCallBuffers.get(idx) ?? { args: "" };
         if (tc.id && typeof tc.id === "string") {
           buf.id = tc.id;
         }
@@ -1215,19 +1715,191 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
         if (typeof func?.arguments === "string") {
           buf.args += func.arguments;
         }
-        this._toolCallBuffers.set(idx, buf);
+        session.toolCallBuffers.set(idx, buf);
 
         // Emit immediately once arguments become valid JSON
-        await this.tryEmitBufferedToolCall(idx, progress);
+        await this.tryEmitBufferedToolCall(session, idx, progress);
       }
     }
 
     const finish = choice.finish_reason;
     if (finish === "tool_calls" || finish === "stop") {
       // Emit any buffered calls
-      await this.flushToolCallBuffers(progress, true);
+      await this.flushToolCallBuffers(session, progress, true);
+    }
+
+    return emitted;
+  }
+
+  /**
+   * Report a chunk of model reasoning as set by zai.thinking.display.
+   * Native display uses the ThinkingPart when available and otherwise
+   * buffers the text for the markdown fallback. The output channel display
+   * shows reasoning like native display and also appends it to the channel.
+   * @returns true when something was reported or buffered
+   */
+  private reportReasoning(
+    session: ZaiStreamSession,
+    progress: vscode.Progress<vscode.LanguageModelResponsePart>,
+    reasoning: string,
+    id?: string,
+    metadata?: { readonly [key: string]: unknown }
+  ): boolean {
+    const display = this.thinking.getDisplay();
+    if (display === "hidden" || (!reasoning && !metadata)) {
+      return false;
+    }
+    if (!session.hasEmittedThinkingContent) {
+      console.log(
+        "[Z.ai Model Provider] 🧠 Starting reasoning/thinking process...",
+        {
+          timestamp: new Date().toISOString(),
+          display,
+          hasThinkingPartSupport: this.hasThinkingPartSupport(),
+        }
+      );
+    }
+
+    if (display === "outputChannel" && reasoning) {
+      if (!session.hasEmittedThinkingContent) {
+        this.thinking.appendToOutput(`\n--- ${new Date().toISOString()} ---\n`);
+      }
+      this.thinking.appendToOutput(reasoning);
+    }
+    session.hasEmittedThinkingContent = true;
+
+    if (display !== "markdown" && this.hasThinkingPartSupport()) {
+      // VS Code 1.116+: native ThinkingPart for collapsible thinking display
+      const thinkingPart = new vscode.LanguageModelThinkingPart(
+        reasoning,
+        id,
+        metadata
+      ) as unknown as vscode.LanguageModelResponsePart;
+      progress.report(thinkingPart);
+    } else if (reasoning) {
+      // Markdown display or older VS Code: stream reasoning as a quote
+      // block, batched so the chat is not flooded with tiny parts
+      if (session.reasoningStartedAt === undefined) {
+        session.reasoningStartedAt = Date.now();
+        session.reasoningContentBuffer +=
+          THINKING_MARKDOWN_HEADER + quoteReasoning(reasoning.trimStart());
+      } else {
+        session.reasoningContentBuffer += quoteReasoning(reasoning);
+      }
+      if (
+        Date.now() - session.reasoningEmittedAt >=
+        REASONING_MARKDOWN_INTERVAL_MS
+      ) {
+        progress.report(
+          new vscode.LanguageModelTextPart(session.reasoningContentBuffer)
+        );
+        session.reasoningContentBuffer = "";
+        session.reasoningEmittedAt = Date.now();
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Markdown display: emit the rest of the reasoning and close the quote
+   * block with the thinking time. Later reasoning opens a new block.
+   */
+  private flushReasoningBuffer(
+    session: ZaiStreamSession,
+    progress: vscode.Progress<vscode.LanguageModelResponsePart>
+  ): void {
+    if (session.reasoningStartedAt === undefined) {
+      return;
+    }
+    const elapsedMs = Date.now() - session.reasoningStartedAt;
+    if (session.reasoningContentBuffer) {
+      progress.report(
+        new vscode.LanguageModelTextPart(session.reasoningContentBuffer)
+      );
+    }
+    // A part of its own, so retries can tell the timing from the reasoning
+    progress.report(
+      new vscode.LanguageModelTextPart(formatThinkingFooter(elapsedMs))
+    );
+    console.log("[Z.ai Model Provider] 🧠 Reasoning finished", { elapsedMs });
+    session.reasoningContentBuffer = "";
+    session.reasoningStartedAt = undefined;
+    session.reasoningEmittedAt = 0;
+  }
+
+  /**
+   * Emit streamed content split by the `<think>` parser: reasoning takes the
+   * same path as `reasoning_content`, text goes on to the `<tool_call>`
+   * parser.
+   * @returns whether anything was emitted
+   */
+  private processInlineThinkingSegments(
+    session: ZaiStreamSession,
+    segments: readonly InlineThinkingSegment[],
+    progress: vscode.Progress<vscode.LanguageModelResponsePart>
+  ): boolean {
+    let emitted = false;
+    for (const segment of segments) {
+      if (segment.type === "thinking") {
+        if (this.reportReasoning(session, progress, segment.text)) {
+          emitted = true;
+        }
+        continue;
+      }
+      // Markdown display: close the reasoning block before the answer
+      this.flushReasoningBuffer(session, progress);
+      if (
+        this.processContentSegments(
+          session,
+          session.glmToolCallParser.push(segment.text),
+          progress
+        )
+      ) {
+        emitted = true;
+      }
     }
+    return emitted;
+  }
 
+  /**
+   * Emit streamed content split by the `<tool_call>` parser: tool calls go
+   * through the same deduplication as other text tool calls, text through
+   * the control token parser.
+   * @returns whether anything was emitted
+   */
+  private processContentSegments(
+    session: ZaiStreamSession,
+    segments: readonly GlmContentSegment[],
+    progress: vscode.Progress<vscode.LanguageModelResponsePart>
+  ): boolean {
+    let emitted = false;
+    for (const segment of segments) {
+      if (segment.type === "toolCall") {
+        if (
+          this.emitTextToolCallIfValid(
+            session,
+            progress,
+            { name: segment.name, argBuffer: "" },
+            JSON.stringify(segment.input)
+          )
+        ) {
+          emitted = true;
+        }
+        continue;
+      }
+      session.answerText += segment.text;
+      const textResult = this.processTextContent(
+        session,
+        segment.text,
+        progress
+      );
+      if (textResult.emittedText) {
+        session.hasEmittedAssistantText = true;
+      }
+      if (textResult.emittedAny) {
+        emitted = true;
+      }
+    }
     return emitted;
   }
 
@@ -1235,6 +1907,7 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
    * Parse provider control tokens embedded in streamed text and emit text/tool calls.
    */
   private processTextContent(
+    session: ZaiStreamSession,
     input: string,
     progress: vscode.Progress<vscode.LanguageModelResponsePart>
   ): { emittedText: boolean; emittedAny: boolean } {
@@ -1242,13 +1915,13 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     const ARG_BEGIN = "<|tool_call_argument_begin|>";
     const END = "<|tool_call_end|>";
 
-    let data = this._textToolParserBuffer + input;
+    let data = session.textToolParserBuffer + input;
     let emittedText = false;
     let emittedAny = false;
     let visibleOut = "";
 
     while (data.length > 0) {
-      if (!this._textToolActive) {
+      if (!session.textToolActive) {
         const b = data.indexOf(BEGIN);
         if (b === -1) {
           let longestPartialPrefix = 0;
@@ -1268,7 +1941,7 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
             if (visible) {
               visibleOut += this.stripControlTokens(visible);
             }
-            this._textToolParserBuffer = data.slice(
+            session.textToolParserBuffer = data.slice(
               data.length - longestPartialPrefix
             );
             data = "";
@@ -1279,6 +1952,7 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
           for (let i = 0; i < lines.length; i++) {
             const line = lines[i];
             const emittedJsonTool = this.tryEmitJsonToolCallLine(
+              session,
               line,
               progress
             );
@@ -1312,7 +1986,7 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
           delimIdx = e;
           delimKind = "end";
         } else {
-          this._textToolParserBuffer = BEGIN + data;
+          session.textToolParserBuffer = BEGIN + data;
           data = "";
           break;
         }
@@ -1321,37 +1995,39 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
         const m = header.match(/^([A-Za-z0-9_\-.]+)(?::(\d+))?/);
         const name = m?.[1];
         const index = m?.[2] ? Number(m[2]) : undefined;
-        this._textToolActive = { name, index, argBuffer: "", emitted: false };
+        session.textToolActive = { name, index, argBuffer: "", emitted: false };
 
         if (delimKind === "arg") {
           data = data.slice(delimIdx + ARG_BEGIN.length);
         } else {
           data = data.slice(delimIdx + END.length);
           const did = this.emitTextToolCallIfValid(
+            session,
             progress,
-            this._textToolActive,
+            session.textToolActive,
             "{}"
           );
           if (did) {
-            this._textToolActive.emitted = true;
+            session.textToolActive.emitted = true;
             emittedAny = true;
           }
-          this._textToolActive = undefined;
+          session.textToolActive = undefined;
         }
         continue;
       }
 
       const e2 = data.indexOf(END);
       if (e2 === -1) {
-        this._textToolActive.argBuffer += data;
-        if (!this._textToolActive.emitted) {
+        session.textToolActive.argBuffer += data;
+        if (!session.textToolActive.emitted) {
           const did = this.emitTextToolCallIfValid(
+            session,
             progress,
-            this._textToolActive,
-            this._textToolActive.argBuffer
+            session.textToolActive,
+            session.textToolActive.argBuffer
           );
           if (did) {
-            this._textToolActive.emitted = true;
+            session.textToolActive.emitted = true;
             emittedAny = true;
           }
         }
@@ -1359,19 +2035,20 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
         break;
       }
 
-      this._textToolActive.argBuffer += data.slice(0, e2);
+      session.textToolActive.argBuffer += data.slice(0, e2);
       data = data.slice(e2 + END.length);
-      if (!this._textToolActive.emitted) {
+      if (!session.textToolActive.emitted) {
         const did = this.emitTextToolCallIfValid(
+          session,
           progress,
-          this._textToolActive,
-          this._textToolActive.argBuffer
+          session.textToolActive,
+          session.textToolActive.argBuffer
         );
         if (did) {
           emittedAny = true;
         }
       }
-      this._textToolActive = undefined;
+      session.textToolActive = undefined;
     }
 
     if (visibleOut.length > 0) {
@@ -1380,7 +2057,7 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
       emittedAny = true;
     }
 
-    this._textToolParserBuffer = data;
+    session.textToolParserBuffer = data;
     return { emittedText, emittedAny };
   }
 
@@ -1388,6 +2065,7 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
    * Detect and emit tool calls serialized as plain JSON text lines.
    */
   private tryEmitJsonToolCallLine(
+    session: ZaiStreamSession,
     line: string,
     progress: vscode.Progress<vscode.LanguageModelResponsePart>
   ): boolean {
@@ -1450,12 +2128,12 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     try {
       const canonical = JSON.stringify(input);
       const key = `${name}:${canonical}`;
-      if (this._emittedTextToolCallKeys.has(key)) {
+      if (session.emittedTextToolCallKeys.has(key)) {
         return true;
       }
-      this._emittedTextToolCallKeys.add(key);
+      session.emittedTextToolCallKeys.add(key);
       if (callId) {
-        this._emittedTextToolCallIds.add(`${name}:${callId}`);
+        session.emittedTextToolCallIds.add(`${name}:${callId}`);
       }
     } catch {
       // Fall through and emit even if canonicalization fails.
@@ -1472,13 +2150,9 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
   }
 
   private emitTextToolCallIfValid(
+    session: ZaiStreamSession,
     progress: vscode.Progress<vscode.LanguageModelResponsePart>,
-    call: {
-      name?: string;
-      index?: number;
-      argBuffer: string;
-      emitted?: boolean;
-    },
+    call: ZaiTextToolCall,
     argText: string
   ): boolean {
     const name = call.name ?? "unknown_tool";
@@ -1491,15 +2165,15 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     const key = `${name}:${canonical}`;
     if (typeof call.index === "number") {
       const idKey = `${name}:${call.index}`;
-      if (this._emittedTextToolCallIds.has(idKey)) {
+      if (session.emittedTextToolCallIds.has(idKey)) {
         return false;
       }
-      this._emittedTextToolCallIds.add(idKey);
-    } else if (this._emittedTextToolCallKeys.has(key)) {
+      session.emittedTextToolCallIds.add(idKey);
+    } else if (session.emittedTextToolCallKeys.has(key)) {
       return false;
     }
 
-    this._emittedTextToolCallKeys.add(key);
+    session.emittedTextToolCallKeys.add(key);
     const id = `tct_${Math.random().toString(36).slice(2, 10)}`;
     progress.report(
       new vscode.LanguageModelToolCallPart(id, name, parsed.value)
@@ -1508,18 +2182,24 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
   }
 
   private flushActiveTextToolCall(
+    session: ZaiStreamSession,
     progress: vscode.Progress<vscode.LanguageModelResponsePart>
   ): Promise<void> {
-    if (!this._textToolActive) {
+    if (!session.textToolActive) {
       return Promise.resolve();
     }
-    const argText = this._textToolActive.argBuffer;
+    const argText = session.textToolActive.argBuffer;
     const parsed = tryParseJSONObject<Record<string, Json>>(argText);
     if (!parsed.ok) {
       return Promise.resolve();
     }
-    this.emitTextToolCallIfValid(progress, this._textToolActive, argText);
-    this._textToolActive = undefined;
+    this.emitTextToolCallIfValid(
+      session,
+      progress,
+      session.textToolActive,
+      argText
+    );
+    session.textToolActive = undefined;
     return Promise.resolve();
   }
 
@@ -1540,10 +2220,11 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
    * @param progress Progress reporter for parts.
    */
   private tryEmitBufferedToolCall(
+    session: ZaiStreamSession,
     index: number,
     progress: vscode.Progress<vscode.LanguageModelResponsePart>
   ): Promise<void> {
-    const buf = this._toolCallBuffers.get(index);
+    const buf = session.toolCallBuffers.get(index);
     if (!buf) {
       return Promise.resolve();
     }
@@ -1558,15 +2239,15 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
     const parameters = canParse.value;
     try {
       const canonical = JSON.stringify(parameters);
-      this._emittedTextToolCallKeys.add(`${buf.name}:${canonical}`);
+      session.emittedTextToolCallKeys.add(`${buf.name}:${canonical}`);
     } catch {
       // Ignore JSON serialization errors; tool call can still be emitted.
     }
     progress.report(
       new vscode.LanguageModelToolCallPart(id, buf.name, parameters)
     );
-    this._toolCallBuffers.delete(index);
-    this._completedToolCallIndices.add(index);
+    session.toolCallBuffers.delete(index);
+    session.completedToolCallIndices.add(index);
     return Promise.resolve();
   }
 
@@ -1576,13 +2257,14 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
    * @param throwOnInvalid If true, throw when a tool call has invalid JSON args.
    */
   private flushToolCallBuffers(
+    session: ZaiStreamSession,
     progress: vscode.Progress<vscode.LanguageModelResponsePart>,
     throwOnInvalid: boolean
   ): Promise<void> {
-    if (this._toolCallBuffers.size === 0) {
+    if (session.toolCallBuffers.size === 0) {
       return Promise.resolve();
     }
-    for (const [idx, buf] of Array.from(this._toolCallBuffers.entries())) {
+    for (const [idx, buf] of Array.from(session.toolCallBuffers.entries())) {
       const parsed = tryParseJSONObject<Record<string, Json>>(buf.args);
       if (!parsed.ok) {
         if (throwOnInvalid) {
@@ -1600,15 +2282,15 @@ export class ZaiChatModelProvider implements LanguageModelChatProvider {
       const parameters = parsed.value;
       try {
         const canonical = JSON.stringify(parameters);
-        this._emittedTextToolCallKeys.add(`${name}:${canonical}`);
+        session.emittedTextToolCallKeys.add(`${name}:${canonical}`);
       } catch {
         // Ignore JSON serialization errors; tool call can still be emitted.
       }
       progress.report(
         new vscode.LanguageModelToolCallPart(id, name, parameters)
       );
-      this._toolCallBuffers.delete(idx);
-      this._completedToolCallIndices.add(idx);
+      session.toolCallBuffers.delete(idx);
+      session.completedToolCallIndices.add(idx);
     }
     return Promise.resolve();
   }
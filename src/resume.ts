@@ -0,0 +1,198 @@
+import * as vscode from "vscode";
+import { isThinkingFooter } from "./thinking";
+
+/**
+ * Prefix matching between the output already shown to the user and the
+ * output of a retried stream.
+ */
+class DeliveredText {
+  /** Output of the latest attempt that reached the user */
+  private _reference = "";
+  /** Output of the current attempt */
+  private _attempt = "";
+  /** Whether the current attempt is past the already delivered prefix */
+  private _passthrough = false;
+  /** Whether the current attempt continues the delivered output */
+  private _continues = false;
+  /** Whether the current attempt took another path and is not shown */
+  private _hidden = false;
+
+  /**
+   * @param continues Whether the attempt was asked to continue the
+   *   delivered output rather than start over
+   */
+  beginAttempt(continues: boolean): void {
+    this._attempt = "";
+    this._passthrough = this._reference === "";
+    this._continues = continues;
+    this._hidden = false;
+  }
+
+  /**
+   * Feed a chunk of the current attempt.
+   * @param separator Starts an attempt that took another path; without
+   *   one, such an attempt is not shown
+   * @returns the text to show, or undefined while the attempt is still
+   *   repeating what was already delivered
+   */
+  accept(chunk: string, separator?: string): string | undefined {
+    if (this._hidden) {
+      return undefined;
+    }
+    this._attempt += chunk;
+    if (this._passthrough) {
+      this._reference = this._attempt;
+      return chunk;
+    }
+    if (this._reference.startsWith(this._attempt)) {
+      return undefined;
+    }
+    // Trailing whitespace (e.g. the hint before tool calls) may differ
+    const trimmed = this._reference.trimEnd();
+    let result: string;
+    if (this._attempt.startsWith(this._reference)) {
+      // The retry caught up with the delivered prefix: emit only the new tail
+      result = this._attempt.slice(this._reference.length);
+    } else if (this._attempt.startsWith(trimmed)) {
+      result = this._attempt.slice(trimmed.length).trimStart();
+    } else if (this._continues) {
+      // The retry picked up where the delivered output ends
+      result = this._attempt;
+      this._attempt = this._reference + this._attempt;
+    } else if (separator !== undefined) {
+      // The retry took a different path; restart it visibly separated
+      result = separator + this._attempt;
+    } else {
+      this._hidden = true;
+      return undefined;
+    }
+    this._passthrough = true;
+    this._reference = this._attempt;
+    return result;
+  }
+
+  /**
+   * Whether output kept out of the prefix matching is new at this point of
+   * the attempt: it is not when the attempt is still repeating delivered
+   * output that went past it.
+   */
+  isPastDelivered(): boolean {
+    return this._passthrough || this._reference === this._attempt;
+  }
+}
+
+/**
+ * Filters the parts of retried streams so that text, thinking and tool
+ * calls already reported through `progress` are not shown again.
+ * Create one per chat request and call `beginAttempt` for every stream.
+ * A retry that resends the delivered answer continues it; its text is
+ * shown from where the answer stopped. Reasoning that takes another path
+ * in a retry is not shown.
+ */
+export class ZaiResumeFilter {
+  private readonly _text = new DeliveredText();
+  private readonly _thinking = new DeliveredText();
+
+  /** Tool call ids and name/argument keys reported by earlier attempts */
+  private readonly _previousToolCallIds = new Set<string>();
+  private readonly _previousToolCallKeys = new Set<string>();
+  private readonly _currentToolCallIds = new Set<string>();
+  private readonly _currentToolCallKeys = new Set<string>();
+
+  private _attempts = 0;
+
+  constructor(
+    private readonly progress: vscode.Progress<vscode.LanguageModelResponsePart>
+  ) {}
+
+  /** Number of stream attempts started so far */
+  get attempts(): number {
+    return this._attempts;
+  }
+
+  /**
+   * Start a new stream attempt.
+   * @param resumed Whether the request resent the delivered answer for the
+   *   model to continue
+   * @returns the progress reporter to pass to the stream parser
+   */
+  beginAttempt(
+    resumed = false
+  ): vscode.Progress<vscode.LanguageModelResponsePart> {
+    this._attempts++;
+    this._text.beginAttempt(resumed);
+    this._thinking.beginAttempt(false);
+    for (const id of this._currentToolCallIds) {
+      this._previousToolCallIds.add(id);
+    }
+    for (const key of this._currentToolCallKeys) {
+      this._previousToolCallKeys.add(key);
+    }
+    this._currentToolCallIds.clear();
+    this._currentToolCallKeys.clear();
+    return { report: (part) => this.report(part) };
+  }
+
+  private report(part: vscode.LanguageModelResponsePart): void {
+    if (part instanceof vscode.LanguageModelTextPart) {
+      if (isThinkingFooter(part.value)) {
+        // The thinking time differs between attempts, so the footer is not
+        // matched; it is shown unless an earlier attempt got past it
+        if (this._text.isPastDelivered()) {
+          this.progress.report(part);
+        }
+        return;
+      }
+      const text = this._text.accept(part.value, "\n\n");
+      if (text) {
+        this.progress.report(new vscode.LanguageModelTextPart(text));
+      }
+      return;
+    }
+
+    if (part instanceof vscode.LanguageModelToolCallPart) {
+      const key = `${part.name}:${JSON.stringify(part.input)}`;
+      if (
+        this._previousToolCallIds.has(part.callId) ||
+        this._previousToolCallKeys.has(key)
+      ) {
+        console.log(
+          "[Z.ai Model Provider] Skipping tool call already emitted before retry",
+          { name: part.name, callId: part.callId }
+        );
+        return;
+      }
+      this._currentToolCallIds.add(part.callId);
+      this._currentToolCallKeys.add(key);
+      this.progress.report(part);
+      return;
+    }
+
+    if (
+      typeof vscode.LanguageModelThinkingPart === "function" &&
+      part instanceof vscode.LanguageModelThinkingPart
+    ) {
+      const value = Array.isArray(part.value)
+        ? part.value.join("")
+        : part.value;
+      if (!value) {
+        // Signature-only parts carry metadata and no text
+        this.progress.report(part);
+        return;
+      }
+      const text = this._thinking.accept(value);
+      if (text) {
+        this.progress.report(
+          new vscode.LanguageModelThinkingPart(
+            text,
+            part.id,
+            part.metadata
+          ) as unknown as vscode.LanguageModelResponsePart
+        );
+      }
+      return;
+    }
+
+    this.progress.report(part);
+  }
+}
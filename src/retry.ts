@@ -0,0 +1,235 @@
+import * as vscode from "vscode";
+
+/** Retry settings read from the `zai.retry.*` configuration */
+export interface ZaiRetrySettings {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** HTTP status codes that are retried */
+  statusCodes: number[];
+  /** Upper bound for the summed waiting time of one operation */
+  maxTotalWaitMs: number;
+}
+
+const DEFAULT_MAX_RETRIES = 10;
+const DEFAULT_STATUS_CODES = [429, 500, 502, 503, 504];
+const DEFAULT_MAX_TOTAL_WAIT_SECONDS = 120;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_BACKOFF_DELAY_MS = 30000;
+
+/**
+ * Read the retry settings, falling back to the defaults for invalid values.
+ */
+export function getRetrySettings(): ZaiRetrySettings {
+  const config = vscode.workspace.getConfiguration("zai");
+  const maxRetries = config.get<number>(
+    "retry.maxRetries",
+    DEFAULT_MAX_RETRIES
+  );
+  const statusCodes = config.get<number[]>(
+    "retry.statusCodes",
+    DEFAULT_STATUS_CODES
+  );
+  const maxTotalWaitSeconds = config.get<number>(
+    "retry.maxTotalWaitSeconds",
+    DEFAULT_MAX_TOTAL_WAIT_SECONDS
+  );
+  return {
+    maxRetries:
+      Number.isFinite(maxRetries) && maxRetries >= 0
+        ? Math.floor(maxRetries)
+        : DEFAULT_MAX_RETRIES,
+    statusCodes: Array.isArray(statusCodes)
+      ? statusCodes.filter((c) => Number.isInteger(c))
+      : DEFAULT_STATUS_CODES,
+    maxTotalWaitMs:
+      Number.isFinite(maxTotalWaitSeconds) && maxTotalWaitSeconds >= 0
+        ? maxTotalWaitSeconds * 1000
+        : DEFAULT_MAX_TOTAL_WAIT_SECONDS * 1000,
+  };
+}
+
+/**
+ * Parse a duration such as "1s", "6m0s" or "250ms" as used by
+ * `x-ratelimit-reset-*` headers.
+ */
+function parseDuration(value: string): number | undefined {
+  const re = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(value)) !== null) {
+    const amount = parseFloat(match[1]);
+    const unit = match[2];
+    total +=
+      unit === "h"
+        ? amount * 3600000
+        : unit === "m"
+          ? amount * 60000
+          : unit === "s"
+            ? amount * 1000
+            : amount;
+    consumed += match[0].length;
+  }
+  return consumed > 0 && consumed === value.length ? total : undefined;
+}
+
+/**
+ * Parse a reset value that is either seconds from now or a Unix timestamp
+ * in seconds.
+ */
+function parseResetSeconds(value: string, now: number): number | undefined {
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    return parseDuration(value);
+  }
+  const seconds = parseFloat(value);
+  // Anything past ~2001 as an epoch is a timestamp, not a delta
+  return seconds > 1e9 ? seconds * 1000 - now : seconds * 1000;
+}
+
+/**
+ * Delay requested by the server through `Retry-After` or rate-limit headers.
+ * @returns the delay in milliseconds, or undefined when no header applies
+ */
+export function getServerRetryDelay(
+  headers: Headers | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!headers || typeof headers.get !== "function") {
+    return undefined;
+  }
+
+  const retryAfterMs = headers.get("retry-after-ms")?.trim();
+  if (retryAfterMs && /^\d+(\.\d+)?$/.test(retryAfterMs)) {
+    return parseFloat(retryAfterMs);
+  }
+
+  const retryAfter = headers.get("retry-after")?.trim();
+  if (retryAfter) {
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+      return parseFloat(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  for (const name of ["ratelimit-reset", "x-ratelimit-reset"]) {
+    const value = headers.get(name)?.trim();
+    const delay = value ? parseResetSeconds(value, now) : undefined;
+    if (delay !== undefined) {
+      return Math.max(0, delay);
+    }
+  }
+
+  // OpenAI-style per-limit headers: wait for the later of the two resets
+  const resets = ["x-ratelimit-reset-requests", "x-ratelimit-reset-tokens"]
+    .map((name) => headers.get(name)?.trim())
+    .map((value) => (value ? parseDuration(value) : undefined))
+    .filter((delay): delay is number => delay !== undefined);
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Retry bookkeeping for a single operation, created by
+ * {@link ZaiRetryPolicy.begin}.
+ */
+export class ZaiRetryState {
+  private _retries = 0;
+  private _waitedMs = 0;
+
+  constructor(
+    private readonly settings: ZaiRetrySettings,
+    private readonly random: () => number
+  ) {}
+
+  /** Retries scheduled so far */
+  get retries(): number {
+    return this._retries;
+  }
+
+  get maxRetries(): number {
+    return this.settings.maxRetries;
+  }
+
+  isRetryableStatus(status: number): boolean {
+    return this.settings.statusCodes.includes(status);
+  }
+
+  /**
+   * Schedule the next retry.
+   * A delay requested by the server is used as-is; otherwise exponential
+   * backoff with jitter is used, shortened to fit the total wait budget.
+   * @param headers Response headers of the failed attempt, if any.
+   * @returns the delay in milliseconds, or undefined when the retries or
+   *   the wait budget are used up
+   */
+  next(headers?: Headers): number | undefined {
+    if (this._retries >= this.settings.maxRetries) {
+      return undefined;
+    }
+    const remaining = this.settings.maxTotalWaitMs - this._waitedMs;
+
+    let delay = getServerRetryDelay(headers);
+    if (delay !== undefined) {
+      if (delay > remaining) {
+        // The server will not accept the request within the budget
+        return undefined;
+      }
+    } else {
+      const backoff = Math.min(
+        BASE_RETRY_DELAY_MS * Math.pow(2, this._retries),
+        MAX_BACKOFF_DELAY_MS
+      );
+      // Equal jitter: half fixed, half random, to spread concurrent retries
+      delay = Math.min(
+        Math.round(backoff / 2 + (this.random() * backoff) / 2),
+        remaining
+      );
+      if (delay <= 0) {
+        return undefined;
+      }
+    }
+
+    this._retries++;
+    this._waitedMs += delay;
+    return delay;
+  }
+}
+
+/**
+ * Retry policy shared by the chat requests and the vision client.
+ * Settings are read at the start of every operation, so changes apply
+ * without reloading the window.
+ */
+export class ZaiRetryPolicy {
+  constructor(private readonly random: () => number = () => Math.random()) {}
+
+  begin(): ZaiRetryState {
+    return new ZaiRetryState(getRetrySettings(), this.random);
+  }
+}
+
+/**
+ * Wait for `ms` milliseconds.
+ * @throws CancellationError as soon as the token is cancelled.
+ */
+export function sleep(
+  ms: number,
+  token?: vscode.CancellationToken
+): Promise<void> {
+  if (token?.isCancellationRequested) {
+    return Promise.reject(new vscode.CancellationError());
+  }
+  return new Promise((resolve, reject) => {
+    const subscription = token?.onCancellationRequested(() => {
+      clearTimeout(timer);
+      subscription?.dispose();
+      reject(new vscode.CancellationError());
+    });
+    const timer = setTimeout(() => {
+      subscription?.dispose();
+      resolve();
+    }, ms);
+  });
+}
@@ -0,0 +1,83 @@
+import type * as vscode from "vscode";
+import { GlmToolCallParser } from "./glmToolCalls";
+import { InlineThinkingParser } from "./inlineThinking";
+
+/**
+ * Text-embedded tool call being assembled from control tokens
+ */
+export interface ZaiTextToolCall {
+  name?: string;
+  index?: number;
+  argBuffer: string;
+  emitted?: boolean;
+}
+
+/**
+ * Parsing state for one streamed chat response.
+ * A session is created for every response stream, so concurrent requests
+ * never share tool call buffers, reasoning buffers or usage counters.
+ */
+export class ZaiStreamSession {
+  /** Buffer for assembling streamed tool calls by index. */
+  readonly toolCallBuffers = new Map<
+    number,
+    { id?: string; name?: string; args: string }
+  >();
+
+  /** Indices for which a tool call has been fully emitted. */
+  readonly completedToolCallIndices = new Set<number>();
+
+  /** Track if we emitted any assistant text before seeing tool calls */
+  hasEmittedAssistantText = false;
+
+  /** Answer text of this stream, without reasoning or tool calls */
+  answerText = "";
+
+  /** Track if we emitted the begin-tool-calls whitespace hint */
+  emittedBeginToolCallsHint = false;
+
+  /** Buffer for text-embedded tool call token parsing */
+  textToolParserBuffer = "";
+
+  /** Active text-embedded tool call being assembled */
+  textToolActive: ZaiTextToolCall | undefined;
+
+  /** Parser for tool calls written in GLM's native `<tool_call>` format */
+  readonly glmToolCallParser: GlmToolCallParser;
+
+  /** Deduplicate tool calls parsed from text and structured deltas */
+  readonly emittedTextToolCallKeys = new Set<string>();
+  readonly emittedTextToolCallIds = new Set<string>();
+
+  /** Track if we emitted any thinking/reasoning content */
+  hasEmittedThinkingContent = false;
+
+  /** Quoted reasoning not yet emitted by the markdown display */
+  reasoningContentBuffer = "";
+
+  /** When the open markdown reasoning block started, if one is open */
+  reasoningStartedAt: number | undefined;
+
+  /** When markdown reasoning was last emitted */
+  reasoningEmittedAt = 0;
+
+  /** Splitter for reasoning returned inline as `<think>…</think>` in content */
+  readonly inlineThinkingParser = new InlineThinkingParser();
+
+  /** Track token usage from API responses */
+  usageMetrics: { prompt_tokens: number; completion_tokens: number } = {
+    prompt_tokens: 0,
+    completion_tokens: 0,
+  };
+
+  /** Track whether usage metrics have been reported for this stream */
+  usageReported = false;
+
+  /**
+   * @param tools Tools of the request, which `<tool_call>` blocks in the
+   *   content may call.
+   */
+  constructor(tools?: readonly vscode.LanguageModelChatTool[]) {
+    this.glmToolCallParser = new GlmToolCallParser(tools);
+  }
+}
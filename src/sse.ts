@@ -0,0 +1,161 @@
+import type { CancellationToken } from "vscode";
+
+/**
+ * A dispatched server-sent event
+ */
+export interface SseEvent {
+  /** Value of the `event:` field, `message` when absent */
+  type: string;
+  /** `data:` lines joined with `\n` */
+  data: string;
+  /** Last event id seen on the stream, if any */
+  id?: string;
+  /** Reconnection time requested with `retry:` */
+  retry?: number;
+}
+
+/**
+ * Incremental decoder for the `text/event-stream` format
+ * (https://html.spec.whatwg.org/multipage/server-sent-events.html).
+ * Handles CR, LF and CRLF line endings split across chunks, comment lines,
+ * multi-line `data` fields and fields with or without a space after the colon.
+ */
+export class SseDecoder {
+  private _buffer = "";
+  private _data: string[] = [];
+  private _eventType = "";
+  private _lastEventId: string | undefined;
+  private _retry: number | undefined;
+  private _started = false;
+
+  /** Id of the last event that carried an `id:` field */
+  get lastEventId(): string | undefined {
+    return this._lastEventId;
+  }
+
+  /**
+   * Feed decoded text and return the events completed by it.
+   */
+  push(chunk: string): SseEvent[] {
+    let text = this._buffer + chunk;
+    if (!this._started && text.length > 0) {
+      this._started = true;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+
+    const events: SseEvent[] = [];
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      if (c !== "\n" && c !== "\r") {
+        continue;
+      }
+      if (c === "\r" && i === text.length - 1) {
+        // A CR at the end of the chunk may be the first half of a CRLF
+        break;
+      }
+      this.processLine(text.slice(start, i), events);
+      if (c === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      start = i + 1;
+    }
+    this._buffer = text.slice(start);
+    return events;
+  }
+
+  /**
+   * Signal the end of the stream. A final event without a trailing blank
+   * line is still dispatched, since some servers close right after it.
+   */
+  end(): SseEvent[] {
+    const events: SseEvent[] = [];
+    if (this._buffer) {
+      this.processLine(this._buffer.replace(/\r$/, ""), events);
+      this._buffer = "";
+    }
+    this.dispatch(events);
+    return events;
+  }
+
+  private processLine(line: string, events: SseEvent[]): void {
+    if (line === "") {
+      this.dispatch(events);
+      return;
+    }
+    if (line.startsWith(":")) {
+      // Comment, typically a keep-alive heartbeat
+      return;
+    }
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "event":
+        this._eventType = value;
+        break;
+      case "data":
+        this._data.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) {
+          this._lastEventId = value;
+        }
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) {
+          this._retry = Number(value);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch(events: SseEvent[]): void {
+    if (this._data.length > 0) {
+      events.push({
+        type: this._eventType || "message",
+        data: this._data.join("\n"),
+        id: this._lastEventId,
+        retry: this._retry,
+      });
+    }
+    this._data = [];
+    this._eventType = "";
+  }
+}
+
+/**
+ * Read a response body as server-sent events until it ends or the
+ * request is cancelled. The reader lock is released when iteration stops.
+ */
+export async function* readSseEvents(
+  body: ReadableStream<Uint8Array>,
+  token?: CancellationToken
+): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const textDecoder = new TextDecoder();
+  const decoder = new SseDecoder();
+  try {
+    while (!token?.isCancellationRequested) {
+      const { done, value } = await reader.read();
+      if (done) {
+        yield* decoder.push(textDecoder.decode());
+        yield* decoder.end();
+        return;
+      }
+      yield* decoder.push(textDecoder.decode(value, { stream: true }));
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
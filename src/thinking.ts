@@ -0,0 +1,151 @@
+import * as vscode from "vscode";
+
+/**
+ * What the model is asked to do: `enabled` and `disabled` set the request's
+ * `thinking` parameter, `auto` leaves it to the API default.
+ */
+export type ZaiThinkingMode = "enabled" | "disabled" | "auto";
+
+/**
+ * How reasoning is shown: `native` thinking parts (markdown on VS Code
+ * versions without them), a quoted `markdown` block streamed while the
+ * model thinks and ending with the thinking time, `hidden`, or shown as for
+ * `native` and mirrored to the `outputChannel`.
+ */
+export type ZaiThinkingDisplay =
+  | "native"
+  | "markdown"
+  | "hidden"
+  | "outputChannel";
+
+const THINKING_MODES: readonly string[] = ["enabled", "disabled", "auto"];
+const THINKING_DISPLAYS: readonly string[] = [
+  "native",
+  "markdown",
+  "hidden",
+  "outputChannel",
+];
+
+/** Command behind the status bar toggle */
+export const TOGGLE_THINKING_COMMAND = "zai.toggleThinking";
+
+/**
+ * Read a thinking mode from a setting or `modelOptions` value. Booleans map
+ * to `enabled` and `disabled`.
+ * @returns undefined for anything else
+ */
+export function toThinkingMode(value: unknown): ZaiThinkingMode | undefined {
+  if (typeof value === "boolean") {
+    return value ? "enabled" : "disabled";
+  }
+  return typeof value === "string" && THINKING_MODES.includes(value)
+    ? (value as ZaiThinkingMode)
+    : undefined;
+}
+
+/** Opening of the markdown reasoning block; reasoning continues its line */
+export const THINKING_MARKDOWN_HEADER = "> *🧠 Thinking…*\n>\n> ";
+
+/**
+ * Reasoning text continuing the markdown quote block: every line break
+ * starts a new quoted line.
+ */
+export function quoteReasoning(text: string): string {
+  return text.replace(/\r\n?/g, "\n").replace(/\n/g, "\n> ");
+}
+
+/**
+ * Closing of the markdown reasoning block, with the thinking time.
+ */
+export function formatThinkingFooter(elapsedMs: number): string {
+  const seconds = Math.max(1, Math.round(elapsedMs / 1000));
+  return `\n>\n> *Thought for ${seconds}s*\n\n---\n\n`;
+}
+
+/**
+ * Whether a text part is a footer from `formatThinkingFooter`.
+ */
+export function isThinkingFooter(text: string): boolean {
+  return /^\n>\n> \*Thought for \d+s\*\n\n---\n\n$/.test(text);
+}
+
+/**
+ * Thinking settings, with the session toggle of the status bar on top.
+ */
+export class ZaiThinkingControls implements vscode.Disposable {
+  /** Mode chosen with the status bar toggle, until VS Code restarts */
+  private _sessionMode: ZaiThinkingMode | undefined;
+
+  private _outputChannel: vscode.OutputChannel | undefined;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+  /** Fires when the session toggle changes the mode */
+  readonly onDidChange = this._onDidChange.event;
+
+  /**
+   * Mode used when neither the request nor the model sets one: the session
+   * toggle, then `zai.thinking.mode`.
+   */
+  getMode(): ZaiThinkingMode {
+    if (this._sessionMode) {
+      return this._sessionMode;
+    }
+    const config = vscode.workspace.getConfiguration("zai");
+    return (
+      toThinkingMode(config.get<string>("thinking.mode", "enabled")) ??
+      "enabled"
+    );
+  }
+
+  /**
+   * Mode for one request: `modelOptions.thinking` wins, then the session
+   * toggle, then the model's `zai.modelDefaults` entry, then
+   * `zai.thinking.mode`.
+   */
+  resolveMode(
+    requested: ZaiThinkingMode | undefined,
+    modelDefault: ZaiThinkingMode | undefined
+  ): ZaiThinkingMode {
+    return requested ?? this._sessionMode ?? modelDefault ?? this.getMode();
+  }
+
+  /**
+   * How reasoning is shown, from `zai.thinking.display`.
+   */
+  getDisplay(): ZaiThinkingDisplay {
+    const config = vscode.workspace.getConfiguration("zai");
+    // zai.enableThinking predates the display setting; false still hides
+    if (!config.get<boolean>("enableThinking", true)) {
+      return "hidden";
+    }
+    const display = config.get<string>("thinking.display", "native");
+    return THINKING_DISPLAYS.includes(display)
+      ? (display as ZaiThinkingDisplay)
+      : "native";
+  }
+
+  /**
+   * Turn thinking off when it is on (or auto) and on when it is off, for
+   * the rest of the session.
+   * @returns the new mode
+   */
+  toggle(): ZaiThinkingMode {
+    this._sessionMode = this.getMode() === "disabled" ? "enabled" : "disabled";
+    this._onDidChange.fire();
+    return this._sessionMode;
+  }
+
+  /**
+   * Append reasoning to the "Z.ai Thinking" output channel.
+   */
+  appendToOutput(text: string): void {
+    this._outputChannel ??= vscode.window.createOutputChannel("Z.ai Thinking");
+    this._outputChannel.append(text);
+  }
+
+  dispose(): void {
+    this._outputChannel?.dispose();
+    this._onDidChange.dispose();
+  }
+}
@@ -1,5 +1,7 @@
 import * as vscode from "vscode";
 import { ZaiMcpClient } from "./mcp";
+import type { ZaiRetryPolicy } from "./retry";
+import { getVisionSettings } from "./vision";
 
 /**
  * Tool for analyzing images using Z.ai Vision model.
@@ -35,8 +37,8 @@ export class ZaiAnalyzeImageTool implements vscode.LanguageModelTool<{
 
   private readonly _mcpClient: ZaiMcpClient;
 
-  constructor(secrets: vscode.SecretStorage) {
-    this._mcpClient = new ZaiMcpClient(secrets);
+  constructor(secrets: vscode.SecretStorage, retryPolicy?: ZaiRetryPolicy) {
+    this._mcpClient = new ZaiMcpClient(secrets, retryPolicy);
   }
 
   async invoke(
@@ -44,14 +46,21 @@ export class ZaiAnalyzeImageTool implements vscode.LanguageModelTool<{
       image_data: string;
       prompt: string;
     }>,
-    _token: vscode.CancellationToken
+    token: vscode.CancellationToken
   ): Promise<vscode.LanguageModelToolResult> {
     const { image_data, prompt } = options.input;
 
     try {
-      const result = await this._mcpClient.analyzeImage(image_data, prompt);
+      const result = await this._mcpClient.analyzeImage(
+        image_data,
+        prompt,
+        token,
+        getVisionSettings().model
+      );
       return new vscode.LanguageModelToolResult([
-        new vscode.LanguageModelTextPart(result),
+        new vscode.LanguageModelTextPart(
+          result ?? "Failed to analyze image: the vision model returned no text"
+        ),
       ]);
     } catch (error) {
       const errorMessage =
@@ -80,12 +89,14 @@ export class ZaiAnalyzeImageTool implements vscode.LanguageModelTool<{
 /**
  * Register all Z.ai tools with the Language Model API.
  * @param secrets VS Code secret storage for API key access
+ * @param retryPolicy Retry policy shared with the chat provider
  * @returns Disposable for the tool registrations
  */
 export function registerZaiTools(
-  secrets: vscode.SecretStorage
+  secrets: vscode.SecretStorage,
+  retryPolicy?: ZaiRetryPolicy
 ): vscode.Disposable {
-  const analyzeImageTool = new ZaiAnalyzeImageTool(secrets);
+  const analyzeImageTool = new ZaiAnalyzeImageTool(secrets, retryPolicy);
 
   return vscode.Disposable.from(
     vscode.lm.registerTool(ZaiAnalyzeImageTool.id, analyzeImageTool)
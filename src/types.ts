@@ -3,6 +3,8 @@
  * Based on OpenAI-compatible API format
  */
 
+import type { ZaiThinkingMode } from "./thinking";
+
 export type Json =
   | string
   | number
@@ -29,6 +31,8 @@ export interface ZaiChatMessage {
   name?: string;
   tool_calls?: ZaiToolCall[];
   tool_call_id?: string;
+  /** Reasoning of an earlier assistant turn, sent back for preserved thinking */
+  reasoning_content?: string;
 }
 
 export interface ZaiToolCall {
@@ -126,6 +130,39 @@ export interface ZaiModelInfo {
    * For example, `glm-5v-turbo` may be kept for internal vision fallback.
    */
   internal?: boolean;
+  /**
+   * Endpoint override for this model: an endpoint profile id
+   * (e.g. `general`) or an OpenAI-compatible base URL.
+   */
+  endpoint?: string;
+  /** Transport override for this model (defaults to the profile's transport) */
+  transport?: ZaiTransport;
+  /**
+   * Whether the model accepts the reasoning of earlier turns back
+   * (`reasoning_content` with `clear_thinking: false`)
+   */
+  supportsPreservedThinking?: boolean;
+}
+
+/**
+ * Wire protocol used to talk to an endpoint:
+ * `openai` is the Chat Completions API, `anthropic` the Messages API.
+ */
+export type ZaiTransport = "openai" | "anthropic";
+
+/**
+ * Sampling parameters that can be set per model (zai.modelDefaults)
+ * or per request (modelOptions)
+ */
+export interface ZaiSamplingOptions {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  /** Thinking mode; `true`/`false` in settings mean `enabled`/`disabled` */
+  thinking?: ZaiThinkingMode;
+  stop?: string | string[];
+  frequency_penalty?: number;
+  presence_penalty?: number;
 }
 
 /**
@@ -138,7 +175,8 @@ export interface ZaiRequestBody {
   stream_options?: { include_usage?: boolean };
   max_tokens?: number;
   temperature?: number;
-  thinking?: { type: string };
+  top_p?: number;
+  thinking?: { type: string; clear_thinking?: boolean };
   stop?: string | string[];
   frequency_penalty?: number;
   presence_penalty?: number;
@@ -185,6 +223,7 @@ export const ZAI_MODELS: ZaiModelInfo[] = [
     maxOutput: 65535,
     supportsTools: true,
     supportsVision: false, // Text-only model
+    supportsPreservedThinking: true,
   },
   {
     id: "glm-4.7-flash",
@@ -203,6 +242,7 @@ export const ZAI_MODELS: ZaiModelInfo[] = [
     maxOutput: 131072,
     supportsTools: true,
     supportsVision: false, // Text-only model
+    supportsPreservedThinking: true,
   },
   {
     id: "glm-5.1",
@@ -212,6 +252,7 @@ export const ZAI_MODELS: ZaiModelInfo[] = [
     maxOutput: 131072,
     supportsTools: true,
     supportsVision: false, // Text-only model
+    supportsPreservedThinking: true,
   },
   {
     id: "glm-5.2",
@@ -223,6 +264,7 @@ export const ZAI_MODELS: ZaiModelInfo[] = [
     maxOutput: 131072,
     supportsTools: true,
     supportsVision: false, // Text-only model
+    supportsPreservedThinking: true,
   },
   {
     id: "glm-5-turbo",
@@ -232,6 +274,7 @@ export const ZAI_MODELS: ZaiModelInfo[] = [
     maxOutput: 131072,
     supportsTools: true,
     supportsVision: false, // Text-only model
+    supportsPreservedThinking: true,
   },
   {
     id: "glm-4.6v",
@@ -251,6 +294,7 @@ export const ZAI_MODELS: ZaiModelInfo[] = [
     maxOutput: 131072,
     supportsTools: true,
     supportsVision: true, // Multimodal coding model
+    supportsPreservedThinking: true,
   },
   {
     id: "glm-5-code",
@@ -260,5 +304,101 @@ export const ZAI_MODELS: ZaiModelInfo[] = [
     maxOutput: 131072,
     supportsTools: true,
     supportsVision: false, // Text-only model
+    supportsPreservedThinking: true,
   },
 ];
+
+/**
+ * Content block of the Anthropic-compatible Messages API
+ */
+export type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source: { type: "base64"; media_type: string; data: string };
+    }
+  | { type: "tool_use"; id: string; name: string; input: JsonObject }
+  | {
+      type: "tool_result";
+      tool_use_id: string;
+      /** Text, or text and image blocks when the tool returned images */
+      content:
+        | string
+        | (
+            | { type: "text"; text: string }
+            | {
+                type: "image";
+                source: { type: "base64"; media_type: string; data: string };
+              }
+          )[];
+      is_error?: boolean;
+    }
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string };
+
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: JsonObject;
+}
+
+/**
+ * Request body for the Anthropic-compatible Messages API
+ */
+export interface AnthropicRequestBody {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string;
+  max_tokens: number;
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  thinking?: { type: "enabled"; budget_tokens: number } | { type: "disabled" };
+  tools?: AnthropicTool[];
+  tool_choice?:
+    | { type: "auto" }
+    | { type: "any" }
+    | { type: "tool"; name: string };
+}
+
+export interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/**
+ * Events of the Messages API event stream
+ */
+export type AnthropicStreamEvent =
+  | { type: "message_start"; message: { id?: string; usage?: AnthropicUsage } }
+  | {
+      type: "content_block_start";
+      index: number;
+      content_block: AnthropicContentBlock;
+    }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta:
+        | { type: "text_delta"; text: string }
+        | { type: "thinking_delta"; thinking: string }
+        | { type: "signature_delta"; signature: string }
+        | { type: "input_json_delta"; partial_json: string };
+    }
+  | { type: "content_block_stop"; index: number }
+  | {
+      type: "message_delta";
+      delta: { stop_reason?: string | null };
+      usage?: AnthropicUsage;
+    }
+  | { type: "message_stop" }
+  | { type: "ping" }
+  | { type: "error"; error: { type: string; message: string } };
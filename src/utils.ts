@@ -6,6 +6,12 @@ import type {
   Json,
   JsonObject,
 } from "./types";
+import {
+  estimateImageTokens,
+  formatBytes,
+  type ZaiImageTokenRule,
+} from "./images";
+import { renderPromptTsx } from "./promptTsx";
 
 /**
  * Legacy part shape used by mocks or older API shapes
@@ -42,6 +48,33 @@ export function getTextPartValue(
   return undefined;
 }
 
+/**
+ * Helper: extract thinking text and metadata from a LanguageModelThinkingPart.
+ * Returns undefined for other parts or when the runtime lacks the class.
+ */
+export function getThinkingPartInfo(
+  part: vscode.LanguageModelInputPart | LegacyPart
+):
+  | {
+      text: string;
+      id?: string;
+      metadata?: { readonly [key: string]: unknown };
+    }
+  | undefined {
+  if (
+    typeof vscode.LanguageModelThinkingPart !== "function" ||
+    !(part instanceof vscode.LanguageModelThinkingPart)
+  ) {
+    return undefined;
+  }
+  const text = Array.isArray(part.value) ? part.value.join("") : part.value;
+  return {
+    text,
+    id: part.id,
+    metadata: part.metadata as { readonly [key: string]: unknown } | undefined,
+  };
+}
+
 function toUint8Array(
   data: Uint8Array | number[] | ArrayBuffer | undefined
 ): Uint8Array | undefined {
@@ -98,8 +131,6 @@ export function getDataPartTextValue(
   }
 }
 
-/** Maximum image size in bytes to send as base64 (1 MB) */
-const MAX_IMAGE_BYTES = 1 * 1024 * 1024;
 /** Maximum number of images per single message */
 const MAX_IMAGES_PER_MESSAGE = 5;
 /** Maximum total images across all messages in a request */
@@ -107,12 +138,12 @@ const MAX_TOTAL_IMAGES = 10;
 
 /**
  * Helper: extract image bytes and mime type from a variety of part shapes.
- * Returns undefined if the image exceeds MAX_IMAGE_BYTES.
+ * Size limits are applied by `prepareImage` before the request is built.
  */
 export function extractImageData(
   part: vscode.LanguageModelInputPart | LegacyPart
 ): { mimeType: string; data: Uint8Array } | undefined {
-  /** Helper: return data only if within size limit */
+  /** Helper: return data only if not empty */
   const guard = (
     mimeType: string,
     data: Uint8Array | undefined
@@ -120,12 +151,6 @@ export function extractImageData(
     if (!data || data.length === 0) {
       return undefined;
     }
-    if (data.length > MAX_IMAGE_BYTES) {
-      console.warn(
-        `[Z.ai] Image too large (${data.length} bytes > ${MAX_IMAGE_BYTES}), skipping.`
-      );
-      return undefined;
-    }
     return { mimeType, data };
   };
 
@@ -187,6 +212,70 @@ export function extractImageData(
   return undefined;
 }
 
+/**
+ * Images of a message, including images returned inside tool results, in
+ * the order they appear.
+ */
+export function getMessageImages(
+  content: readonly (vscode.LanguageModelInputPart | LegacyPart)[]
+): { mimeType: string; data: Uint8Array }[] {
+  const images: { mimeType: string; data: Uint8Array }[] = [];
+  for (const part of content) {
+    if (part instanceof vscode.LanguageModelToolResultPart) {
+      for (const inner of part.content) {
+        const img = extractImageData(inner as LegacyPart);
+        if (img) {
+          images.push(img);
+        }
+      }
+      continue;
+    }
+    const img = extractImageData(part);
+    if (img) {
+      images.push(img);
+    }
+  }
+  return images;
+}
+
+/**
+ * Replace the images of a message, including images returned inside tool
+ * results. Images are visited in the order of `getMessageImages`.
+ * @param replace Returns the part that takes the place of an image, or
+ *   undefined to keep the image
+ * @returns the new content, or undefined when no image was replaced
+ */
+export function replaceImageParts(
+  content: readonly vscode.LanguageModelInputPart[],
+  replace: (image: {
+    mimeType: string;
+    data: Uint8Array;
+  }) => vscode.LanguageModelTextPart | vscode.LanguageModelDataPart | undefined
+): vscode.LanguageModelInputPart[] | undefined {
+  let changed = false;
+  const replacePart = <T>(
+    part: T
+  ): T | vscode.LanguageModelTextPart | vscode.LanguageModelDataPart => {
+    const img = extractImageData(part as LegacyPart);
+    const replacement = img && replace(img);
+    if (!replacement) {
+      return part;
+    }
+    changed = true;
+    return replacement;
+  };
+  const result = content.map((part) => {
+    if (!(part instanceof vscode.LanguageModelToolResultPart)) {
+      return replacePart(part);
+    }
+    const inner = part.content.map(replacePart);
+    return inner.some((innerPart, i) => innerPart !== part.content[i])
+      ? new vscode.LanguageModelToolResultPart(part.callId, inner)
+      : part;
+  });
+  return changed ? result : undefined;
+}
+
 /**
  * Helper: extract tool call info from a part
  */
@@ -249,6 +338,29 @@ function isLegacyToolResultPart(part: LegacyPart): boolean {
   return false;
 }
 
+/** Data parts with this mime type mark prompt cache breakpoints */
+const CACHE_CONTROL_MIME = "cache_control";
+
+/**
+ * Placeholder for binary data that cannot be shown to the model, e.g.
+ * `[Binary data: application/pdf, 48 KB]`. Cache breakpoints become an
+ * empty string.
+ * @returns undefined when the part is not a data part
+ */
+function getBinaryDataPlaceholder(part: unknown): string | undefined {
+  if (typeof part !== "object" || part === null) {
+    return undefined;
+  }
+  const p = part as { mimeType?: unknown; data?: unknown };
+  if (typeof p.mimeType !== "string" || !(p.data instanceof Uint8Array)) {
+    return undefined;
+  }
+  if (p.mimeType === CACHE_CONTROL_MIME) {
+    return "";
+  }
+  return `[Binary data: ${p.mimeType}, ${formatBytes(p.data.length)}]`;
+}
+
 export function getToolResultTexts(
   part: vscode.LanguageModelInputPart | LegacyPart,
   maxChars?: number
@@ -271,6 +383,24 @@ export function getToolResultTexts(
         results.push(truncateText(dv, maxChars));
         continue;
       }
+      if (extractImageData(inner as LegacyPart)) {
+        // Images are forwarded as image content, not as text
+        continue;
+      }
+      if (inner instanceof vscode.LanguageModelPromptTsxPart) {
+        const text = renderPromptTsx(inner.value);
+        if (text) {
+          results.push(truncateText(text, maxChars));
+        }
+        continue;
+      }
+      const binary = getBinaryDataPlaceholder(inner);
+      if (binary !== undefined) {
+        if (binary) {
+          results.push(binary);
+        }
+        continue;
+      }
       try {
         if (
           typeof (inner as { valueOf?: () => string | object }).valueOf ===
@@ -321,10 +451,13 @@ export function getToolResultTexts(
 
 /**
  * Convert VSCode LanguageModelChatMessage to Z.ai/OpenAI format
+ *
+ * Thinking parts never become message text. With `preserveThinking` the
+ * thinking of an assistant message is sent back as its `reasoning_content`.
  */
 export function convertMessages(
   messages: readonly vscode.LanguageModelChatMessage[],
-  options?: { maxToolResultChars?: number }
+  options?: { maxToolResultChars?: number; preserveThinking?: boolean }
 ): ZaiChatMessage[] {
   const result: ZaiChatMessage[] = [];
   /** Running count of images included across all messages so far */
@@ -338,14 +471,25 @@ export function convertMessages(
           ? "assistant"
           : "system";
 
-    // Collect text parts
+    // Collect text and thinking parts
     const textParts: string[] = [];
+    const thinkingParts: string[] = [];
     for (const part of msg.content) {
+      const thinking = getThinkingPartInfo(part);
+      if (thinking) {
+        thinkingParts.push(thinking.text);
+        continue;
+      }
       const tv = getTextPartValue(part);
       if (tv !== undefined) {
         textParts.push(tv);
       }
     }
+    const reasoning =
+      options?.preserveThinking && role === "assistant"
+        ? thinkingParts.join("").trim()
+        : "";
+    const firstIndex = result.length;
 
     // Collect images
     const imageParts: ZaiContentPart[] = [];
@@ -368,11 +512,6 @@ export function convertMessages(
         console.warn("[Z.ai] Image part has no accessible byte data:", part);
       }
     }
-    if (skippedImageCount > 0) {
-      textParts.push(
-        `\n[${skippedImageCount} image(s) omitted due to size/count limits]`
-      );
-    }
 
     // Handle tool calls
     const toolCalls = msg.content
@@ -399,19 +538,47 @@ export function convertMessages(
       emittedAnyMessage = true;
     }
 
-    // Handle tool results
+    // Handle tool results. Tool messages carry text only, so images returned
+    // by tools follow in the user message after them.
     const toolResults = getToolResultEntries(
       msg.content as Array<vscode.LanguageModelInputPart | LegacyPart>,
       options?.maxToolResultChars
     );
     for (const tr of toolResults) {
+      let forwardedImages = 0;
+      for (const img of tr.images) {
+        if (
+          imageParts.length >= MAX_IMAGES_PER_MESSAGE ||
+          totalImagesSoFar >= MAX_TOTAL_IMAGES
+        ) {
+          skippedImageCount++;
+          continue;
+        }
+        imageParts.push({
+          type: "image_url",
+          image_url: {
+            url: `data:${img.mimeType};base64,${Buffer.from(img.data).toString("base64")}`,
+          },
+        });
+        totalImagesSoFar++;
+        forwardedImages++;
+      }
+      const imageNote =
+        forwardedImages > 0
+          ? `[${forwardedImages} image(s) returned by the tool follow in the next message]`
+          : "";
       result.push({
         role: "tool",
         tool_call_id: tr.callId,
-        content: tr.content || "",
+        content: [tr.content, imageNote].filter(Boolean).join("\n"),
       });
       emittedAnyMessage = true;
     }
+    if (skippedImageCount > 0) {
+      textParts.push(
+        `\n[${skippedImageCount} image(s) omitted due to size/count limits]`
+      );
+    }
 
     if (
       (textParts.length > 0 || imageParts.length > 0) &&
@@ -434,6 +601,9 @@ export function convertMessages(
     if (!emittedAnyMessage) {
       result.push({ role, content: "(empty message)" });
     }
+    if (reasoning) {
+      result[firstIndex].reasoning_content = reasoning;
+    }
   }
 
   return result;
@@ -442,13 +612,25 @@ export function convertMessages(
 function getToolResultEntries(
   parts: Array<vscode.LanguageModelInputPart | LegacyPart>,
   maxChars?: number
-): Array<{ callId: string; content: string }> {
-  const entries: Array<{ callId: string; content: string }> = [];
+): Array<{
+  callId: string;
+  content: string;
+  images: { mimeType: string; data: Uint8Array }[];
+}> {
+  const entries: Array<{
+    callId: string;
+    content: string;
+    images: { mimeType: string; data: Uint8Array }[];
+  }> = [];
 
   for (const part of parts) {
     if (part instanceof vscode.LanguageModelToolResultPart) {
       const content = getToolResultTexts(part, maxChars).join("\n").trim();
-      entries.push({ callId: part.callId, content });
+      entries.push({
+        callId: part.callId,
+        content,
+        images: getMessageImages([part]),
+      });
       continue;
     }
 
@@ -463,7 +645,7 @@ function getToolResultEntries(
       continue;
     }
     const content = getToolResultTexts(legacy, maxChars).join("\n").trim();
-    entries.push({ callId: legacy.callId, content });
+    entries.push({ callId: legacy.callId, content, images: [] });
   }
 
   return entries;
@@ -552,6 +734,20 @@ export function tryParseJSONObject<T extends Json = Json>(
   }
 }
 
+/**
+ * Length of the longest suffix of `text` that starts `token`, i.e. how much
+ * of a streamed chunk must be held back in case the token continues in the
+ * next one
+ */
+export function partialTokenLength(text: string, token: string): number {
+  for (let k = Math.min(token.length - 1, text.length); k > 0; k--) {
+    if (text.endsWith(token.slice(0, k))) {
+      return k;
+    }
+  }
+  return 0;
+}
+
 /**
  * Validate chat request
  */
@@ -587,6 +783,9 @@ export function estimateTokens(text: string): number {
 
 /**
  * Estimate message array tokens
+ *
+ * Images are costed from their dimensions with `imageTokenRule`
+ * (GLM vision tiling by default).
  */
 export function estimateMessagesTokens(
   messages:
@@ -594,7 +793,7 @@ export function estimateMessagesTokens(
     | readonly {
         content: (vscode.LanguageModelInputPart | LegacyPart)[];
       }[],
-  options?: { maxToolResultChars?: number }
+  options?: { maxToolResultChars?: number; imageTokenRule?: ZaiImageTokenRule }
 ): number {
   let total = 0;
   for (const m of messages) {
@@ -611,10 +810,7 @@ export function estimateMessagesTokens(
       }
       const img = extractImageData(part);
       if (img) {
-        // GLM vision models use a fixed token count per image tile.
-        // Each tile is 560x560 pixels; a typical screenshot is ~4 tiles.
-        // We conservatively estimate 2000 tokens per image regardless of size.
-        total += 2000;
+        total += estimateImageTokens(img.data, options?.imageTokenRule);
         continue;
       }
       const toolCall = getToolCallInfo(part);
@@ -629,6 +825,11 @@ export function estimateMessagesTokens(
         }
         continue;
       }
+      if (part instanceof vscode.LanguageModelToolResultPart) {
+        for (const image of getMessageImages([part])) {
+          total += estimateImageTokens(image.data, options?.imageTokenRule);
+        }
+      }
       const toolResultTexts = getToolResultTexts(
         part,
         options?.maxToolResultChars
@@ -642,3 +843,32 @@ export function estimateMessagesTokens(
   }
   return total;
 }
+
+/**
+ * Map items with an async function, running at most `limit` calls at once.
+ * Results keep the order of the items. After the first failure no further
+ * calls are started and the returned promise rejects with that error.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  const workers = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
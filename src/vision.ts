@@ -0,0 +1,110 @@
+import * as vscode from "vscode";
+
+/**
+ * How images reach a model without vision:
+ * - `switch`: the request is sent to a vision model instead
+ * - `describe`: images are replaced with descriptions from the vision model
+ *   and the request stays on the selected model
+ * - `auto`: describe when the `zai_analyze_image` tool is available or no
+ *   vision model is, otherwise switch; fall back to describing when the
+ *   vision model is not included in the plan (error 1311)
+ */
+export type ZaiVisionStrategy = "auto" | "switch" | "describe";
+
+/**
+ * Vision settings that apply to one model
+ */
+export interface ZaiVisionSettings {
+  strategy: ZaiVisionStrategy;
+  /** Vision model to switch to; undefined picks one from the model list */
+  model?: string;
+}
+
+/**
+ * Route taken for a request with images
+ */
+export type ZaiVisionRoute =
+  | { kind: "switch"; visionModel: string }
+  | { kind: "describe" };
+
+function toStrategy(value: unknown): ZaiVisionStrategy | undefined {
+  return value === "auto" || value === "switch" || value === "describe"
+    ? value
+    : undefined;
+}
+
+function toModelId(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Read the vision settings for a model: `zai.vision.strategy` and
+ * `zai.vision.model`, overridden by its `zai.vision.modelOverrides` entry.
+ * Without a model only the global settings apply.
+ */
+export function getVisionSettings(modelId?: string): ZaiVisionSettings {
+  const config = vscode.workspace.getConfiguration("zai");
+  const overrides = config.get<Record<string, unknown>>(
+    "vision.modelOverrides",
+    {}
+  );
+  const override =
+    modelId !== undefined &&
+    overrides &&
+    typeof overrides === "object" &&
+    Object.prototype.hasOwnProperty.call(overrides, modelId) &&
+    typeof overrides[modelId] === "object" &&
+    overrides[modelId] !== null
+      ? (overrides[modelId] as { strategy?: unknown; model?: unknown })
+      : {};
+  return {
+    strategy:
+      toStrategy(override.strategy) ??
+      toStrategy(config.get<string>("vision.strategy", "auto")) ??
+      "auto",
+    model:
+      toModelId(override.model) ??
+      toModelId(config.get<string>("vision.model", "")),
+  };
+}
+
+/**
+ * Pick the route for a request with images to a model without vision.
+ * @param strategy Vision strategy for the model
+ * @param visionModel Vision model available to switch to
+ * @param hasAnalysisTool Whether `zai_analyze_image` is in the request tools
+ */
+export function chooseVisionRoute(
+  strategy: ZaiVisionStrategy,
+  visionModel: string | undefined,
+  hasAnalysisTool: boolean
+): ZaiVisionRoute {
+  if (!visionModel || strategy === "describe") {
+    return { kind: "describe" };
+  }
+  if (strategy === "auto" && hasAnalysisTool) {
+    return { kind: "describe" };
+  }
+  return { kind: "switch", visionModel };
+}
+
+/**
+ * Chat notice that tells the user how images were handled.
+ * @param route Route taken
+ * @param modelId Model selected by the user
+ * @param unavailableModel Vision model that was tried first but is not
+ *   included in the plan
+ */
+export function formatVisionRouteNotice(
+  route: ZaiVisionRoute,
+  modelId: string,
+  unavailableModel?: string
+): string {
+  if (route.kind === "switch") {
+    return `> 👁️ ${modelId} cannot see images, so this request was sent to ${route.visionModel}.\n\n`;
+  }
+  if (unavailableModel) {
+    return `> 👁️ ${unavailableModel} is not available on your plan, so the images were described for ${modelId} instead.\n\n`;
+  }
+  return `> 👁️ ${modelId} cannot see images, so they were replaced with descriptions.\n\n`;
+}
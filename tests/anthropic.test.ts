@@ -0,0 +1,332 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the Messages API conversion and stream decoding in anthropic.ts
+ */
+
+import * as vscode from "vscode";
+import {
+  AnthropicStreamState,
+  convertMessagesToAnthropic,
+  convertToolsToAnthropic,
+  getThinkingBudget,
+} from "../src/anthropic";
+import type { AnthropicStreamSink } from "../src/anthropic";
+import type { AnthropicStreamEvent } from "../src/types";
+
+describe("convertMessagesToAnthropic", () => {
+  it("should move system messages into the system prompt", () => {
+    const result = convertMessagesToAnthropic([
+      new vscode.LanguageModelChatMessage(
+        // System role (proposed API, value 3)
+        3 as vscode.LanguageModelChatMessageRole,
+        "You are helpful"
+      ),
+      vscode.LanguageModelChatMessage.User("Hi"),
+    ]);
+
+    expect(result.system).toBe("You are helpful");
+    expect(result.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "Hi" }] },
+    ]);
+  });
+
+  it("should convert tool calls and tool results to content blocks", () => {
+    const result = convertMessagesToAnthropic([
+      vscode.LanguageModelChatMessage.User("Read the file"),
+      vscode.LanguageModelChatMessage.Assistant([
+        new vscode.LanguageModelTextPart("Reading it"),
+        new vscode.LanguageModelToolCallPart("toolu_1", "read_file", {
+          path: "a.ts",
+        }),
+      ]),
+      vscode.LanguageModelChatMessage.User([
+        new vscode.LanguageModelToolResultPart("toolu_1", [
+          new vscode.LanguageModelTextPart("contents"),
+        ]),
+        new vscode.LanguageModelTextPart("Now summarize"),
+      ]),
+    ]);
+
+    expect(result.messages[1]).toEqual({
+      role: "assistant",
+      content: [
+        { type: "text", text: "Reading it" },
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "read_file",
+          input: { path: "a.ts" },
+        },
+      ],
+    });
+    expect(result.messages[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "toolu_1", content: "contents" },
+      { type: "text", text: "Now summarize" },
+    ]);
+  });
+
+  it("should keep images returned by tools inside the tool result", () => {
+    const result = convertMessagesToAnthropic([
+      vscode.LanguageModelChatMessage.User([
+        new vscode.LanguageModelToolResultPart("toolu_1", [
+          new vscode.LanguageModelTextPart("Screenshot taken"),
+          vscode.LanguageModelDataPart.image(
+            new Uint8Array([1, 2, 3]),
+            "image/png"
+          ),
+        ]),
+      ]),
+    ]);
+
+    expect(result.messages[0].content).toEqual([
+      {
+        type: "tool_result",
+        tool_use_id: "toolu_1",
+        content: [
+          { type: "text", text: "Screenshot taken" },
+          {
+            type: "image",
+            source: { type: "base64", media_type: "image/png", data: "AQID" },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should replay signed thinking and drop unsigned thinking", () => {
+    const result = convertMessagesToAnthropic([
+      vscode.LanguageModelChatMessage.User("Q1"),
+      vscode.LanguageModelChatMessage.Assistant([
+        new vscode.LanguageModelThinkingPart("reasoning", "t1", {
+          signature: "sig",
+        }),
+        new vscode.LanguageModelThinkingPart("unsigned"),
+        new vscode.LanguageModelTextPart("A1"),
+      ] as unknown as vscode.LanguageModelTextPart[]),
+    ]);
+
+    expect(result.messages[1].content).toEqual([
+      { type: "thinking", thinking: "reasoning", signature: "sig" },
+      { type: "text", text: "A1" },
+    ]);
+  });
+
+  it("should replay thinking streamed as text and signature parts", () => {
+    // AnthropicStreamState reports the signature in a separate empty part
+    const result = convertMessagesToAnthropic([
+      vscode.LanguageModelChatMessage.User("Q1"),
+      vscode.LanguageModelChatMessage.Assistant([
+        new vscode.LanguageModelThinkingPart("Plan", "thinking_0"),
+        new vscode.LanguageModelThinkingPart(" ahead", "thinking_0"),
+        new vscode.LanguageModelThinkingPart("", "thinking_0", {
+          signature: "sig",
+        }),
+        new vscode.LanguageModelThinkingPart("Again", "thinking_1"),
+        new vscode.LanguageModelThinkingPart("", "thinking_1", {
+          signature: "sig2",
+        }),
+        new vscode.LanguageModelTextPart("A1"),
+      ] as unknown as vscode.LanguageModelTextPart[]),
+    ]);
+
+    expect(result.messages[1].content).toEqual([
+      { type: "thinking", thinking: "Plan ahead", signature: "sig" },
+      { type: "thinking", thinking: "Again", signature: "sig2" },
+      { type: "text", text: "A1" },
+    ]);
+  });
+
+  it("should send user images as base64 blocks", () => {
+    const result = convertMessagesToAnthropic([
+      vscode.LanguageModelChatMessage.User([
+        vscode.LanguageModelDataPart.image(
+          new Uint8Array([1, 2, 3]),
+          "image/png"
+        ),
+      ]),
+    ]);
+
+    expect(result.messages[0].content[0]).toEqual({
+      type: "image",
+      source: { type: "base64", media_type: "image/png", data: "AQID" },
+    });
+  });
+
+  it("should merge consecutive turns of the same role", () => {
+    const result = convertMessagesToAnthropic([
+      vscode.LanguageModelChatMessage.User("one"),
+      vscode.LanguageModelChatMessage.User("two"),
+    ]);
+
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].content).toHaveLength(2);
+  });
+});
+
+describe("convertToolsToAnthropic", () => {
+  const tools = [
+    {
+      type: "function" as const,
+      function: {
+        name: "search",
+        description: "Search the web",
+        parameters: { type: "object", properties: { q: { type: "string" } } },
+      },
+    },
+  ];
+
+  it("should map function tools to input schemas", () => {
+    expect(convertToolsToAnthropic(tools, "auto")).toEqual({
+      tools: [
+        {
+          name: "search",
+          description: "Search the web",
+          input_schema: {
+            type: "object",
+            properties: { q: { type: "string" } },
+          },
+        },
+      ],
+      tool_choice: { type: "auto" },
+    });
+  });
+
+  it("should map a required tool to a named tool choice", () => {
+    const result = convertToolsToAnthropic(tools, {
+      type: "function",
+      function: { name: "search" },
+    });
+    expect(result.tool_choice).toEqual({ type: "tool", name: "search" });
+  });
+
+  it("should return nothing without tools", () => {
+    expect(convertToolsToAnthropic(undefined, undefined)).toEqual({});
+  });
+});
+
+describe("getThinkingBudget", () => {
+  it("should use half of the output allowance", () => {
+    expect(getThinkingBudget(16384)).toBe(8192);
+    expect(getThinkingBudget(1500)).toBe(1024);
+  });
+
+  it("should skip thinking when max_tokens is too small", () => {
+    expect(getThinkingBudget(1024)).toBeUndefined();
+  });
+});
+
+describe("AnthropicStreamState", () => {
+  function createSink(): AnthropicStreamSink & {
+    parts: Array<{ kind: string; value: unknown; metadata?: unknown }>;
+  } {
+    const parts: Array<{ kind: string; value: unknown; metadata?: unknown }> =
+      [];
+    return {
+      parts,
+      text: (value) => parts.push({ kind: "text", value }),
+      thinking: (value, _id, metadata) =>
+        parts.push({ kind: "thinking", value, metadata }),
+      toolCall: (part) => parts.push({ kind: "tool", value: part }),
+      usage: (prompt, completion) =>
+        parts.push({ kind: "usage", value: [prompt, completion] }),
+    };
+  }
+
+  function feed(state: AnthropicStreamState, events: unknown[]): void {
+    for (const event of events) {
+      state.handleEvent(event as AnthropicStreamEvent);
+    }
+  }
+
+  it("should decode text, signed thinking and usage", () => {
+    const sink = createSink();
+    feed(new AnthropicStreamState(sink), [
+      {
+        type: "message_start",
+        message: {
+          id: "msg_1",
+          usage: { input_tokens: 10, cache_read_input_tokens: 5 },
+        },
+      },
+      {
+        type: "content_block_start",
+        index: 0,
+        content_block: { type: "thinking", thinking: "" },
+      },
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "thinking_delta", thinking: "Let me think" },
+      },
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "signature_delta", signature: "abc" },
+      },
+      { type: "content_block_stop", index: 0 },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "text", text: "" },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "text_delta", text: "Answer" },
+      },
+      { type: "content_block_stop", index: 1 },
+      { type: "message_delta", usage: { output_tokens: 7 } },
+      { type: "message_stop" },
+    ]);
+
+    expect(sink.parts).toEqual([
+      { kind: "thinking", value: "Let me think", metadata: undefined },
+      { kind: "thinking", value: "", metadata: { signature: "abc" } },
+      { kind: "text", value: "Answer" },
+      { kind: "usage", value: [15, 7] },
+    ]);
+  });
+
+  it("should emit a tool call once its input JSON is complete", () => {
+    const sink = createSink();
+    const state = new AnthropicStreamState(sink);
+    feed(state, [
+      {
+        type: "content_block_start",
+        index: 0,
+        content_block: { type: "tool_use", id: "toolu_9", name: "search" },
+      },
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "input_json_delta", partial_json: '{"q": "gl' },
+      },
+    ]);
+    expect(sink.parts).toEqual([]);
+
+    feed(state, [
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "input_json_delta", partial_json: 'm"}' },
+      },
+      { type: "content_block_stop", index: 0 },
+    ]);
+
+    const call = sink.parts[0].value as vscode.LanguageModelToolCallPart;
+    expect(call).toBeInstanceOf(vscode.LanguageModelToolCallPart);
+    expect(call.callId).toBe("toolu_9");
+    expect(call.name).toBe("search");
+    expect(call.input).toEqual({ q: "glm" });
+  });
+
+  it("should throw on error events", () => {
+    const state = new AnthropicStreamState(createSink());
+    expect(() =>
+      state.handleEvent({
+        type: "error",
+        error: { type: "overloaded_error", message: "Overloaded" },
+      })
+    ).toThrow("overloaded_error Overloaded");
+  });
+});
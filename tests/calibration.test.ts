@@ -0,0 +1,81 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for token estimate calibration in calibration.ts
+ */
+
+import type * as vscode from "vscode";
+import { ZaiTokenCalibration } from "../src/calibration";
+
+function createMemento(initial: Record<string, unknown> = {}): vscode.Memento {
+  const values = { ...initial };
+  return {
+    get: jest.fn((key: string) => values[key]),
+    update: jest.fn(async (key: string, value: unknown) => {
+      values[key] = value;
+    }),
+    keys: () => Object.keys(values),
+  } as unknown as vscode.Memento;
+}
+
+describe("ZaiTokenCalibration", () => {
+  it("should not correct estimates before enough requests", async () => {
+    const calibration = new ZaiTokenCalibration();
+    await calibration.record("glm-5", 1000, 600);
+    await calibration.record("glm-5", 1000, 600);
+    expect(calibration.getRatio("glm-5")).toBe(1);
+    expect(calibration.apply("glm-5", 1000)).toBe(1000);
+  });
+
+  it("should learn the ratio of actual to estimated tokens", async () => {
+    const calibration = new ZaiTokenCalibration();
+    await calibration.record("glm-5", 1000, 600);
+    await calibration.record("glm-5", 2000, 1300);
+    await calibration.record("glm-5", 1000, 600);
+    expect(calibration.getRatio("glm-5")).toBeCloseTo(0.625);
+    expect(calibration.apply("glm-5", 800)).toBe(500);
+    // Other models are unaffected
+    expect(calibration.getRatio("glm-4.7")).toBe(1);
+  });
+
+  it("should ignore small prompts and missing usage", async () => {
+    const calibration = new ZaiTokenCalibration();
+    for (let i = 0; i < 3; i++) {
+      await calibration.record("glm-5", 50, 100);
+      await calibration.record("glm-5", 1000, 0);
+    }
+    expect(calibration.getRatio("glm-5")).toBe(1);
+  });
+
+  it("should keep only recent requests", async () => {
+    const calibration = new ZaiTokenCalibration();
+    for (let i = 0; i < 20; i++) {
+      await calibration.record("glm-5", 1000, 500);
+    }
+    for (let i = 0; i < 20; i++) {
+      await calibration.record("glm-5", 1000, 900);
+    }
+    expect(calibration.getRatio("glm-5")).toBeCloseTo(0.9);
+  });
+
+  it("should clamp extreme ratios", async () => {
+    const calibration = new ZaiTokenCalibration();
+    for (let i = 0; i < 3; i++) {
+      await calibration.record("glm-5", 1000, 10000);
+    }
+    expect(calibration.getRatio("glm-5")).toBe(2);
+  });
+
+  it("should persist samples in globalState", async () => {
+    const memento = createMemento();
+    const calibration = new ZaiTokenCalibration(memento);
+    for (let i = 0; i < 3; i++) {
+      await calibration.record("glm-5", 1000, 700);
+    }
+
+    expect(memento.update).toHaveBeenCalledWith(
+      "zai.tokenCalibration",
+      expect.objectContaining({ "glm-5": expect.any(Array) })
+    );
+    expect(new ZaiTokenCalibration(memento).getRatio("glm-5")).toBeCloseTo(0.7);
+  });
+});
@@ -0,0 +1,241 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for context compaction in compaction.ts
+ */
+
+import * as vscode from "vscode";
+import {
+  compactMessages,
+  formatCompactionNotice,
+  getCompactionStrategy,
+  renderTranscript,
+} from "../src/compaction";
+import { estimateMessagesTokens } from "../src/utils";
+
+const System = 3 as vscode.LanguageModelChatMessageRole;
+
+function textOf(message: vscode.LanguageModelChatMessage): string {
+  return message.content
+    .map((part) =>
+      part instanceof vscode.LanguageModelTextPart
+        ? part.value
+        : part instanceof vscode.LanguageModelToolResultPart
+          ? (part.content[0] as vscode.LanguageModelTextPart).value
+          : ""
+    )
+    .join("");
+}
+
+/**
+ * An agent turn: a prompt, a tool call and its result, and an answer.
+ */
+function agentTurn(
+  n: number,
+  resultChars = 100
+): vscode.LanguageModelChatMessage[] {
+  return [
+    vscode.LanguageModelChatMessage.User(`question ${n}`),
+    vscode.LanguageModelChatMessage.Assistant([
+      new vscode.LanguageModelToolCallPart(`call_${n}`, "read_file", {
+        path: `file${n}.ts`,
+      }),
+    ]),
+    vscode.LanguageModelChatMessage.User([
+      new vscode.LanguageModelToolResultPart(`call_${n}`, [
+        new vscode.LanguageModelTextPart("x".repeat(resultChars)),
+      ]),
+    ]),
+    vscode.LanguageModelChatMessage.Assistant(`answer ${n}`),
+  ];
+}
+
+function conversation(
+  turns: number,
+  resultChars?: number
+): vscode.LanguageModelChatMessage[] {
+  const messages = [
+    new vscode.LanguageModelChatMessage(System, "You are a helpful assistant."),
+  ];
+  for (let n = 1; n <= turns; n++) {
+    messages.push(...agentTurn(n, resultChars));
+  }
+  return messages;
+}
+
+describe("getCompactionStrategy", () => {
+  afterEach(() => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+    });
+  });
+
+  it("should default to off and reject unknown values", () => {
+    expect(getCompactionStrategy()).toBe("off");
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn(() => "aggressive"),
+    });
+    expect(getCompactionStrategy()).toBe("off");
+  });
+});
+
+describe("compactMessages", () => {
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+  });
+
+  it("should leave messages that fit unchanged", async () => {
+    const messages = conversation(2);
+    const result = await compactMessages(messages, {
+      strategy: "truncate",
+      tokenBudget: 100000,
+    });
+    expect(result.fits).toBe(true);
+    expect(result.messages).toEqual(messages);
+    expect(result.droppedTurns).toBe(0);
+  });
+
+  it("should shorten old tool results before dropping turns", async () => {
+    const messages = conversation(3, 10000);
+    const result = await compactMessages(messages, {
+      strategy: "truncate",
+      tokenBudget: 12000,
+    });
+
+    expect(result.fits).toBe(true);
+    expect(result.shortenedToolResults).toBe(1);
+    expect(result.droppedTurns).toBe(0);
+    expect(result.messages).toHaveLength(messages.length);
+    expect(textOf(result.messages[3])).toContain(
+      "chars removed to fit the context window"
+    );
+    // The latest two turns keep their full tool results
+    expect(result.messages.slice(5)).toEqual(messages.slice(5));
+  });
+
+  it("should replace old images with descriptions", async () => {
+    const messages = [
+      vscode.LanguageModelChatMessage.User([
+        new vscode.LanguageModelTextPart("what is this?"),
+        vscode.LanguageModelDataPart.image(new Uint8Array([1, 2]), "image/png"),
+      ]),
+      vscode.LanguageModelChatMessage.Assistant("a cat"),
+      ...agentTurn(2),
+      ...agentTurn(3),
+    ];
+    const describeImage = jest.fn().mockResolvedValue("A cat on a sofa");
+
+    const result = await compactMessages(messages, {
+      strategy: "truncate",
+      tokenBudget: 1000,
+      describeImage,
+    });
+
+    expect(result.fits).toBe(true);
+    expect(result.replacedImages).toBe(1);
+    expect(describeImage).toHaveBeenCalledWith({
+      mimeType: "image/png",
+      data: new Uint8Array([1, 2]),
+    });
+    expect(textOf(result.messages[0])).toBe(
+      "what is this?[Image Analysis]:\nA cat on a sofa"
+    );
+    expect(result.messages[0].role).toBe(
+      vscode.LanguageModelChatMessageRole.User
+    );
+  });
+
+  it("should drop whole old turns and keep the system prompt", async () => {
+    const messages = conversation(6, 1000);
+    const budget = estimateMessagesTokens(conversation(2, 1000)) + 100;
+
+    const result = await compactMessages(messages, {
+      strategy: "truncate",
+      tokenBudget: budget,
+    });
+
+    expect(result.fits).toBe(true);
+    expect(result.droppedTurns).toBe(4);
+    expect(result.messages[0]).toBe(messages[0]);
+    expect(textOf(result.messages[1])).toBe(
+      "[4 earlier turn(s) were removed to fit the context window]"
+    );
+    // The latest turns follow unchanged, tool calls next to their results
+    expect(result.messages.slice(2)).toEqual(messages.slice(-8));
+  });
+
+  it("should replace dropped turns with a summary", async () => {
+    const messages = conversation(6, 1000);
+    const summarize = jest.fn().mockResolvedValue("The user read files 1-4.");
+
+    const result = await compactMessages(messages, {
+      strategy: "summarize",
+      tokenBudget: estimateMessagesTokens(conversation(2, 1000)) + 1100,
+      summarize,
+    });
+
+    expect(result.fits).toBe(true);
+    expect(result.summarized).toBe(true);
+    expect(summarize.mock.calls[0][0]).toContain("User: question 1");
+    expect(summarize.mock.calls[0][0]).toContain("Assistant called read_file");
+    expect(textOf(result.messages[1])).toBe(
+      "[Summary of 4 earlier turn(s), compacted to fit the context window]\nThe user read files 1-4."
+    );
+  });
+
+  it("should fall back to dropping when the summary fails", async () => {
+    const result = await compactMessages(conversation(6, 1000), {
+      strategy: "summarize",
+      tokenBudget: estimateMessagesTokens(conversation(2, 1000)) + 1100,
+      summarize: jest.fn().mockRejectedValue(new Error("Summary API error")),
+    });
+
+    expect(result.fits).toBe(true);
+    expect(result.summarized).toBe(false);
+    expect(textOf(result.messages[1])).toContain("were removed");
+  });
+
+  it("should report when even the latest turns do not fit", async () => {
+    const result = await compactMessages(conversation(3, 1000), {
+      strategy: "truncate",
+      tokenBudget: 100,
+    });
+    expect(result.fits).toBe(false);
+  });
+});
+
+describe("renderTranscript", () => {
+  it("should label speakers, tool calls and results", () => {
+    expect(renderTranscript(agentTurn(1, 5))).toBe(
+      [
+        "User: question 1",
+        'Assistant called read_file: {"path":"file1.ts"}',
+        "Tool result: xxxxx",
+        "Assistant: answer 1",
+      ].join("\n\n")
+    );
+  });
+});
+
+describe("formatCompactionNotice", () => {
+  it("should list what was compacted", () => {
+    expect(
+      formatCompactionNotice({
+        messages: [],
+        tokens: 0,
+        fits: true,
+        shortenedToolResults: 2,
+        replacedImages: 0,
+        droppedTurns: 3,
+        summarized: true,
+      })
+    ).toBe(
+      "> 🗜️ The conversation was compacted to fit the model's context window: shortened 2 old tool result(s), summarized 3 earlier turn(s).\n\n"
+    );
+  });
+});
@@ -0,0 +1,140 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for endpoint profile resolution in endpoints.ts
+ */
+
+import * as vscode from "vscode";
+import {
+  getBaseUrl,
+  getEndpointProfile,
+  normalizeBaseUrl,
+  getTransport,
+  resolveEndpoint,
+  ZAI_ENDPOINT_PROFILES,
+} from "../src/endpoints";
+
+function mockSettings(settings: Record<string, unknown>): void {
+  (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+    get: jest.fn((key: string, defaultValue: unknown) =>
+      key in settings ? settings[key] : defaultValue
+    ),
+  });
+}
+
+describe("getEndpointProfile", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should default to the coding plan endpoint", () => {
+    mockSettings({});
+    expect(getEndpointProfile().id).toBe("coding");
+    expect(getBaseUrl()).toBe("https://api.z.ai/api/coding/paas/v4");
+  });
+
+  it("should resolve the built-in profiles", () => {
+    mockSettings({ "endpoint.profile": "general" });
+    expect(getBaseUrl()).toBe(ZAI_ENDPOINT_PROFILES.general.baseUrl);
+
+    mockSettings({ "endpoint.profile": "bigmodel" });
+    expect(getBaseUrl()).toBe("https://open.bigmodel.cn/api/paas/v4");
+  });
+
+  it("should use the custom base URL without trailing slashes", () => {
+    mockSettings({
+      "endpoint.profile": "custom",
+      "endpoint.customBaseUrl": "http://localhost:8080/v4/",
+    });
+    const profile = getEndpointProfile();
+    expect(profile.id).toBe("custom");
+    expect(profile.baseUrl).toBe("http://localhost:8080/v4");
+  });
+
+  it("should fall back to the default when the custom URL is empty", () => {
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+    mockSettings({ "endpoint.profile": "custom" });
+    expect(getEndpointProfile().id).toBe("coding");
+    warnSpy.mockRestore();
+  });
+
+  it("should fall back to the default for unknown profile ids", () => {
+    mockSettings({ "endpoint.profile": "constructor" });
+    expect(getEndpointProfile().id).toBe("coding");
+  });
+});
+
+describe("normalizeBaseUrl", () => {
+  it("should trim whitespace and trailing slashes", () => {
+    expect(normalizeBaseUrl("  https://example.com/api//  ")).toBe(
+      "https://example.com/api"
+    );
+  });
+});
+
+describe("resolveEndpoint", () => {
+  beforeEach(() => {
+    mockSettings({});
+  });
+
+  it("should use the selected profile without an override", () => {
+    expect(resolveEndpoint()).toEqual({
+      baseUrl: ZAI_ENDPOINT_PROFILES.coding.baseUrl,
+      transport: "openai",
+    });
+    expect(resolveEndpoint("  ").baseUrl).toBe(
+      ZAI_ENDPOINT_PROFILES.coding.baseUrl
+    );
+  });
+
+  it("should resolve profile ids and base URLs", () => {
+    expect(resolveEndpoint("bigmodel").baseUrl).toBe(
+      ZAI_ENDPOINT_PROFILES.bigmodel.baseUrl
+    );
+    expect(resolveEndpoint("http://127.0.0.1:9000/v1/").baseUrl).toBe(
+      "http://127.0.0.1:9000/v1"
+    );
+  });
+
+  it("should resolve the custom profile from settings", () => {
+    mockSettings({ "endpoint.customBaseUrl": "http://mock.local/v4" });
+    expect(resolveEndpoint("custom").baseUrl).toBe("http://mock.local/v4");
+  });
+
+  it("should ignore overrides that are neither profiles nor URLs", () => {
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(resolveEndpoint("localhost").baseUrl).toBe(
+      ZAI_ENDPOINT_PROFILES.coding.baseUrl
+    );
+    warnSpy.mockRestore();
+  });
+
+  it("should use the Anthropic base URL of a profile for that transport", () => {
+    mockSettings({ "endpoint.transport": "anthropic" });
+    expect(getTransport()).toBe("anthropic");
+    expect(resolveEndpoint()).toEqual({
+      baseUrl: "https://api.z.ai/api/anthropic",
+      transport: "anthropic",
+    });
+    expect(resolveEndpoint("bigmodel").baseUrl).toBe(
+      "https://open.bigmodel.cn/api/anthropic"
+    );
+  });
+
+  it("should let a per-model transport override the setting", () => {
+    expect(resolveEndpoint("general", "anthropic")).toEqual({
+      baseUrl: ZAI_ENDPOINT_PROFILES.general.anthropicBaseUrl,
+      transport: "anthropic",
+    });
+    expect(
+      resolveEndpoint("http://localhost:8080/anthropic/", "anthropic")
+    ).toEqual({
+      baseUrl: "http://localhost:8080/anthropic",
+      transport: "anthropic",
+    });
+  });
+
+  it("should fall back to the OpenAI transport for unknown values", () => {
+    mockSettings({ "endpoint.transport": "grpc" });
+    expect(getTransport()).toBe("openai");
+  });
+});
@@ -0,0 +1,68 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for stream error mapping in errors.ts
+ */
+
+import * as vscode from "vscode";
+import {
+  getStreamErrorPayload,
+  toStreamLanguageModelError,
+} from "../src/errors";
+
+describe("getStreamErrorPayload", () => {
+  it("should read Z.ai error objects", () => {
+    expect(
+      getStreamErrorPayload({
+        error: { code: "1302", message: "Rate limit reached" },
+      })
+    ).toEqual({ code: "1302", message: "Rate limit reached" });
+  });
+
+  it("should read string errors", () => {
+    expect(getStreamErrorPayload({ error: "boom" })).toEqual({
+      message: "boom",
+    });
+  });
+
+  it("should ignore regular chunks", () => {
+    expect(getStreamErrorPayload({ choices: [] })).toBeUndefined();
+    expect(getStreamErrorPayload({ error: null })).toBeUndefined();
+    expect(getStreamErrorPayload("text")).toBeUndefined();
+  });
+});
+
+describe("toStreamLanguageModelError", () => {
+  function codeOf(error: vscode.LanguageModelError): string {
+    return (error as unknown as { code: string }).code;
+  }
+
+  it("should map Z.ai business codes", () => {
+    expect(codeOf(toStreamLanguageModelError({ code: "1002" }))).toBe(
+      "NoPermissions"
+    );
+    expect(codeOf(toStreamLanguageModelError({ code: 1211 }))).toBe("NotFound");
+    expect(codeOf(toStreamLanguageModelError({ code: "1305" }))).toBe(
+      "Blocked"
+    );
+  });
+
+  it("should map Messages API error types", () => {
+    expect(
+      codeOf(toStreamLanguageModelError({ type: "authentication_error" }))
+    ).toBe("NoPermissions");
+    expect(
+      codeOf(toStreamLanguageModelError({ type: "rate_limit_error" }))
+    ).toBe("Blocked");
+  });
+
+  it("should fall back to a generic LanguageModelError", () => {
+    const error = toStreamLanguageModelError({
+      type: "overloaded_error",
+      message: "Overloaded",
+    });
+    expect(error).toBeInstanceOf(vscode.LanguageModelError);
+    expect(error.message).toBe(
+      "Z.ai API stream error: overloaded_error Overloaded"
+    );
+  });
+});
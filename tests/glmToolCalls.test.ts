@@ -0,0 +1,206 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for GLM's native tool call format in glmToolCalls.ts
+ */
+
+import type * as vscode from "vscode";
+import {
+  GlmToolCallParser,
+  getStringArgumentLookup,
+  parseGlmToolCall,
+} from "../src/glmToolCalls";
+import type { GlmContentSegment } from "../src/glmToolCalls";
+
+const readFileCall =
+  "<tool_call>read_file\n<arg_key>filePath</arg_key>\n<arg_value>/workspace/src/app.ts</arg_value>\n<arg_key>startLine</arg_key>\n<arg_value>1</arg_value>\n<arg_key>endLine</arg_key>\n<arg_value>40</arg_value>\n</tool_call>";
+
+const tools = [
+  {
+    name: "read_file",
+    description: "Read a file",
+    inputSchema: {
+      type: "object",
+      properties: {
+        filePath: { type: "string" },
+        startLine: { type: "number" },
+        endLine: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "run_in_terminal",
+    description: "Run a command",
+    inputSchema: {
+      type: "object",
+      properties: {
+        command: { type: "string" },
+        isBackground: { type: "boolean" },
+      },
+    },
+  },
+] as unknown as vscode.LanguageModelChatTool[];
+
+/** Feed the chunks and merge adjacent text segments */
+function feed(
+  parser: GlmToolCallParser,
+  chunks: string[]
+): GlmContentSegment[] {
+  const segments: GlmContentSegment[] = [];
+  for (const segment of [
+    ...chunks.flatMap((chunk) => parser.push(chunk)),
+    ...parser.flush(),
+  ]) {
+    const last = segments[segments.length - 1];
+    if (segment.type === "text" && last?.type === "text") {
+      last.text += segment.text;
+    } else {
+      segments.push({ ...segment });
+    }
+  }
+  return segments;
+}
+
+describe("parseGlmToolCall", () => {
+  it("should read the name and arguments", () => {
+    expect(
+      parseGlmToolCall(
+        "run_in_terminal\n<arg_key>command</arg_key>\n<arg_value>npm test</arg_value>\n<arg_key>isBackground</arg_key>\n<arg_value>false</arg_value>\n"
+      )
+    ).toEqual({
+      name: "run_in_terminal",
+      input: { command: "npm test", isBackground: false },
+    });
+  });
+
+  it("should keep string arguments verbatim", () => {
+    const body =
+      "run_in_terminal<arg_key>command</arg_key><arg_value>42</arg_value>";
+    expect(parseGlmToolCall(body)?.input).toEqual({ command: 42 });
+    expect(
+      parseGlmToolCall(body, getStringArgumentLookup(tools))?.input
+    ).toEqual({ command: "42" });
+  });
+
+  it("should parse JSON values and calls without arguments", () => {
+    expect(
+      parseGlmToolCall(
+        'edit<arg_key>edits</arg_key><arg_value>[{"line":1,"text":"a"}]</arg_value>'
+      )?.input
+    ).toEqual({ edits: [{ line: 1, text: "a" }] });
+    expect(parseGlmToolCall("get_changed_files\n")).toEqual({
+      name: "get_changed_files",
+      input: {},
+    });
+  });
+
+  it("should accept a JSON body", () => {
+    expect(
+      parseGlmToolCall(
+        '{"name": "read_file", "arguments": {"filePath": "a.ts"}}'
+      )
+    ).toEqual({ name: "read_file", input: { filePath: "a.ts" } });
+  });
+
+  it("should reject bodies that are not tool calls", () => {
+    expect(parseGlmToolCall("some prose about tools")).toBeUndefined();
+    expect(
+      parseGlmToolCall("read_file<arg_key>path</arg_key>stray")
+    ).toBeUndefined();
+  });
+});
+
+describe("GlmToolCallParser", () => {
+  it("should split text and tool calls", () => {
+    const parser = new GlmToolCallParser(tools);
+    expect(
+      feed(parser, [`Let me read the file.\n${readFileCall}\nDone.`])
+    ).toEqual([
+      { type: "text", text: "Let me read the file.\n" },
+      {
+        type: "toolCall",
+        name: "read_file",
+        input: { filePath: "/workspace/src/app.ts", startLine: 1, endLine: 40 },
+      },
+      { type: "text", text: "\nDone." },
+    ]);
+  });
+
+  it("should handle any chunk boundary", () => {
+    const text = `Reading.${readFileCall}${readFileCall.replace("40", "80")}`;
+    for (const size of [1, 2, 3, 7, 11, 64]) {
+      const chunks: string[] = [];
+      for (let i = 0; i < text.length; i += size) {
+        chunks.push(text.slice(i, i + size));
+      }
+      const segments = feed(new GlmToolCallParser(tools), chunks);
+      expect(segments.map((s) => s.type)).toEqual([
+        "text",
+        "toolCall",
+        "toolCall",
+      ]);
+      expect(segments[2]).toMatchObject({ input: { endLine: 80 } });
+    }
+  });
+
+  it("should pass text through without waiting for the stream to end", () => {
+    const parser = new GlmToolCallParser(tools);
+    expect(parser.push("Hello <")).toEqual([{ type: "text", text: "Hello " }]);
+    expect(parser.push("b>world</b>")).toEqual([
+      { type: "text", text: "<b>world</b>" },
+    ]);
+    expect(parser.push("<tool_call>read_file")).toEqual([]);
+  });
+
+  it("should pass a mention of the tag through right away", () => {
+    const parser = new GlmToolCallParser(tools);
+    expect(parser.push("Use `<tool_call>` tags")).toEqual([
+      { type: "text", text: "Use `<tool_call>` tags" },
+    ]);
+    expect(parser.push(" or <tool_call>read")).toEqual([
+      { type: "text", text: " or " },
+    ]);
+    expect(parser.push("ing list")).toEqual([
+      { type: "text", text: "<tool_call>reading list" },
+    ]);
+    // Without declared tools only a JSON body can be a call
+    expect(
+      new GlmToolCallParser().push("<tool_call> marks a call, <tool_call>{")
+    ).toEqual([{ type: "text", text: "<tool_call> marks a call, " }]);
+  });
+
+  it("should return malformed or unterminated blocks as text", () => {
+    expect(
+      feed(new GlmToolCallParser(), ["<tool_call>not a call!</tool_call>"])
+    ).toEqual([{ type: "text", text: "<tool_call>not a call!</tool_call>" }]);
+    expect(
+      feed(new GlmToolCallParser(), [
+        "<tool_call>read_file<arg_key>filePath</arg_key><arg_value>a.ts",
+      ])
+    ).toEqual([
+      {
+        type: "text",
+        text: "<tool_call>read_file<arg_key>filePath</arg_key><arg_value>a.ts",
+      },
+    ]);
+  });
+
+  it("should emit a complete call whose closing tag is missing", () => {
+    expect(
+      feed(new GlmToolCallParser(tools), [
+        "<tool_call>read_file<arg_key>filePath</arg_key><arg_value>a.ts</arg_value>\n",
+      ])
+    ).toEqual([
+      { type: "toolCall", name: "read_file", input: { filePath: "a.ts" } },
+    ]);
+  });
+
+  it("should return calls to undeclared tools as text", () => {
+    const text = "Use <tool_call>delete_all</tool_call> to wipe it.";
+    expect(feed(new GlmToolCallParser(tools), [text])).toEqual([
+      { type: "text", text },
+    ]);
+    expect(feed(new GlmToolCallParser(), [readFileCall])).toEqual([
+      { type: "text", text: readFileCall },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the image description cache in imageCache.ts
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { IMAGE_CACHE_FILE, ZaiImageDescriptionCache } from "../src/imageCache";
+
+const imageA = new Uint8Array([1, 2, 3, 4]);
+const imageB = new Uint8Array([5, 6, 7, 8]);
+const imageC = new Uint8Array([9, 10, 11, 12]);
+
+describe("ZaiImageDescriptionCache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "zai-image-cache-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should return stored descriptions by image and prompt", async () => {
+    const cache = new ZaiImageDescriptionCache();
+    expect(await cache.get(imageA, "Describe")).toBeUndefined();
+
+    await cache.set(imageA, "Describe", "A red square");
+    expect(await cache.get(imageA, "Describe")).toBe("A red square");
+    expect(await cache.get(Uint8Array.from(imageA), "Describe")).toBe(
+      "A red square"
+    );
+    // Another prompt or another image is a miss
+    expect(await cache.get(imageA, "Read the text")).toBeUndefined();
+    expect(await cache.get(imageB, "Describe")).toBeUndefined();
+  });
+
+  it("should persist descriptions across instances", async () => {
+    const first = new ZaiImageDescriptionCache(dir);
+    await first.set(imageA, "Describe", "A red square");
+    expect(fs.existsSync(path.join(dir, IMAGE_CACHE_FILE))).toBe(true);
+
+    const second = new ZaiImageDescriptionCache(dir);
+    expect(await second.size()).toBe(1);
+    expect(await second.get(imageA, "Describe")).toBe("A red square");
+  });
+
+  it("should evict the least recently used descriptions above the cap", async () => {
+    const cache = new ZaiImageDescriptionCache(dir, 20);
+    await cache.set(imageA, "Describe", "aaaaaaaaaa");
+    await cache.set(imageB, "Describe", "bbbbbbbbbb");
+    // Reading A makes B the least recently used entry
+    await cache.get(imageA, "Describe");
+    await cache.set(imageC, "Describe", "cccccccccc");
+
+    expect(await cache.size()).toBe(2);
+    expect(await cache.get(imageA, "Describe")).toBe("aaaaaaaaaa");
+    expect(await cache.get(imageB, "Describe")).toBeUndefined();
+    expect(await cache.get(imageC, "Describe")).toBe("cccccccccc");
+
+    const reloaded = new ZaiImageDescriptionCache(dir, 20);
+    expect(await reloaded.get(imageB, "Describe")).toBeUndefined();
+  });
+
+  it("should keep a description larger than the cap", async () => {
+    const cache = new ZaiImageDescriptionCache(undefined, 5);
+    await cache.set(imageA, "Describe", "a long description");
+    expect(await cache.get(imageA, "Describe")).toBe("a long description");
+  });
+
+  it("should clear memory and the cache file", async () => {
+    const cache = new ZaiImageDescriptionCache(dir);
+    await cache.set(imageA, "Describe", "A red square");
+    await cache.clear();
+
+    expect(await cache.size()).toBe(0);
+    expect(fs.existsSync(path.join(dir, IMAGE_CACHE_FILE))).toBe(false);
+    expect(await new ZaiImageDescriptionCache(dir).size()).toBe(0);
+  });
+
+  it("should start empty when the cache file is unreadable", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    fs.writeFileSync(path.join(dir, IMAGE_CACHE_FILE), "{not json");
+
+    const cache = new ZaiImageDescriptionCache(dir);
+    expect(await cache.size()).toBe(0);
+    expect(warn).toHaveBeenCalled();
+
+    // A new description replaces the broken file
+    await cache.set(imageA, "Describe", "A red square");
+    expect(await new ZaiImageDescriptionCache(dir).size()).toBe(1);
+    warn.mockRestore();
+  });
+});
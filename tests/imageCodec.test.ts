@@ -0,0 +1,395 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the image decoders and encoders in imageCodec.ts
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import {
+  decodeGif,
+  decodeJpeg,
+  decodePng,
+  encodeJpeg,
+  encodePng,
+  isAnimatedGif,
+  isAnimatedPng,
+  resizeImage,
+} from "../src/imageCodec";
+import type { RgbaImage } from "../src/imageCodec";
+
+function chunk(type: string, data: Uint8Array): Buffer {
+  const out = Buffer.alloc(12 + data.length);
+  out.writeUInt32BE(data.length, 0);
+  out.write(type, 4, "latin1");
+  out.set(data, 8);
+  out.writeUInt32BE(
+    zlib.crc32(out.subarray(4, 8 + data.length)),
+    8 + data.length
+  );
+  return out;
+}
+
+/**
+ * Build a PNG from unfiltered scanlines.
+ */
+function png(
+  width: number,
+  height: number,
+  bitDepth: number,
+  colorType: number,
+  lines: number[][],
+  extra: Buffer[] = [],
+  interlaced = false
+): Uint8Array {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  header[12] = interlaced ? 1 : 0;
+  const raw = Buffer.from(lines.flatMap((line) => [0, ...line]));
+  return new Uint8Array(
+    Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk("IHDR", header),
+      ...extra,
+      chunk("IDAT", zlib.deflateSync(raw)),
+      chunk("IEND", new Uint8Array(0)),
+    ])
+  );
+}
+
+/**
+ * Build a GIF with a 4-color table. LZW codes are written as literals,
+ * with a clear code every two pixels so the code size stays at 3 bits.
+ */
+function gif(
+  width: number,
+  height: number,
+  frames: number[][],
+  transparentIndex?: number
+): Uint8Array {
+  const bytes = [
+    ...Buffer.from("GIF89a"),
+    width & 0xff,
+    width >> 8,
+    height & 0xff,
+    height >> 8,
+    0x81,
+    0,
+    0,
+    ...[0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255],
+  ];
+  for (const pixels of frames) {
+    if (transparentIndex !== undefined) {
+      bytes.push(0x21, 0xf9, 4, 0x01, 0, 0, transparentIndex, 0);
+    }
+    bytes.push(0x2c, 0, 0, 0, 0, width & 0xff, width >> 8);
+    bytes.push(height & 0xff, height >> 8, 0);
+    const codes: number[] = [];
+    pixels.forEach((pixel, i) => {
+      if (i % 2 === 0) {
+        codes.push(4);
+      }
+      codes.push(pixel);
+    });
+    codes.push(5);
+    const data: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const code of codes) {
+      buffer |= code << bits;
+      bits += 3;
+      while (bits >= 8) {
+        data.push(buffer & 0xff);
+        buffer >>= 8;
+        bits -= 8;
+      }
+    }
+    if (bits > 0) {
+      data.push(buffer);
+    }
+    bytes.push(2, data.length, ...data, 0);
+  }
+  bytes.push(0x3b);
+  return new Uint8Array(bytes);
+}
+
+function gradient(width: number, height: number, alpha = 255): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      data[o] = Math.round((x * 255) / Math.max(1, width - 1));
+      data[o + 1] = Math.round((y * 255) / Math.max(1, height - 1));
+      data[o + 2] = 128;
+      data[o + 3] = alpha;
+    }
+  }
+  return { width, height, data };
+}
+
+function pixel(image: RgbaImage, x: number, y: number): number[] {
+  const o = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(o, o + 4));
+}
+
+/**
+ * JPEGs written by libvips 8.18: red, green, blue and white quadrants (or
+ * cyan, magenta, yellow and black in CMYK)
+ */
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(
+    fs.readFileSync(path.join(__dirname, "fixtures", name))
+  );
+}
+
+/** Check the color in the middle of each quadrant */
+function expectQuadrants(image: RgbaImage, colors: number[][]): void {
+  const centers = [
+    [1, 1],
+    [3, 1],
+    [1, 3],
+    [3, 3],
+  ].map(([x, y]) => [
+    Math.floor((x * image.width) / 4),
+    Math.floor((y * image.height) / 4),
+  ]);
+  centers.forEach(([x, y], i) => {
+    pixel(image, x, y).forEach((value, c) => {
+      expect(Math.abs(value - [...colors[i], 255][c])).toBeLessThan(12);
+    });
+  });
+}
+
+const QUADRANTS = [
+  [230, 30, 30],
+  [30, 200, 40],
+  [40, 50, 220],
+  [245, 245, 245],
+];
+
+describe("decodePng", () => {
+  it("should decode RGB and RGBA images", () => {
+    const rgb = decodePng(png(2, 1, 8, 2, [[255, 0, 0, 0, 0, 255]]));
+    expect(pixel(rgb, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(rgb, 1, 0)).toEqual([0, 0, 255, 255]);
+
+    const rgba = decodePng(png(1, 1, 8, 6, [[10, 20, 30, 40]]));
+    expect(pixel(rgba, 0, 0)).toEqual([10, 20, 30, 40]);
+  });
+
+  it("should decode palette images with transparency", () => {
+    const image = decodePng(
+      png(
+        4,
+        1,
+        2,
+        3,
+        [[0b00011011]],
+        [
+          chunk(
+            "PLTE",
+            new Uint8Array([0, 0, 0, 255, 0, 0, 0, 255, 0, 1, 2, 3])
+          ),
+          chunk("tRNS", new Uint8Array([0])),
+        ]
+      )
+    );
+    expect(pixel(image, 0, 0)).toEqual([0, 0, 0, 0]);
+    expect(pixel(image, 1, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(image, 3, 0)).toEqual([1, 2, 3, 255]);
+  });
+
+  it("should scale low and high bit depths to 8 bits", () => {
+    const gray = decodePng(png(8, 1, 1, 0, [[0b10000001]]));
+    expect(pixel(gray, 0, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(gray, 1, 0)).toEqual([0, 0, 0, 255]);
+
+    const deep = decodePng(
+      png(1, 1, 16, 2, [[0x12, 0x34, 0xab, 0xcd, 0xff, 0xff]])
+    );
+    expect(pixel(deep, 0, 0)).toEqual([0x12, 0xab, 0xff, 255]);
+  });
+
+  it("should decode Adam7 interlaced images", () => {
+    // A 2x2 gray image: pass 1 has (0,0), pass 6 (1,0), pass 7 row 1
+    const image = decodePng(png(2, 2, 8, 0, [[10], [20], [30, 40]], [], true));
+    expect(pixel(image, 0, 0)[0]).toBe(10);
+    expect(pixel(image, 1, 0)[0]).toBe(20);
+    expect(pixel(image, 0, 1)[0]).toBe(30);
+    expect(pixel(image, 1, 1)[0]).toBe(40);
+  });
+
+  it("should reject unsupported data", () => {
+    expect(() => decodePng(new Uint8Array([1, 2, 3]))).toThrow("Not a PNG");
+    expect(() => decodePng(png(1, 1, 3, 2, [[0]]))).toThrow("Unsupported PNG");
+  });
+});
+
+describe("encodePng", () => {
+  it("should round-trip opaque and transparent images", () => {
+    for (const image of [gradient(33, 17), gradient(5, 9, 100)]) {
+      const decoded = decodePng(encodePng(image));
+      expect(decoded.width).toBe(image.width);
+      expect(decoded.height).toBe(image.height);
+      expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+    }
+  });
+
+  it("should store opaque images without alpha", () => {
+    expect(encodePng(gradient(4, 4))[25]).toBe(2);
+    expect(encodePng(gradient(4, 4, 0))[25]).toBe(6);
+  });
+
+  it("should detect animated PNGs", () => {
+    const still = png(1, 1, 8, 0, [[0]]);
+    const animated = png(1, 1, 8, 0, [[0]], [chunk("acTL", new Uint8Array(8))]);
+    expect(isAnimatedPng(still)).toBe(false);
+    expect(isAnimatedPng(animated)).toBe(true);
+    expect(pixel(decodePng(animated), 0, 0)).toEqual([0, 0, 0, 255]);
+  });
+});
+
+describe("JPEG", () => {
+  it("should round-trip through the encoder and decoder", () => {
+    const image = gradient(37, 21);
+    const decoded = decodeJpeg(encodeJpeg(image, 95));
+    expect(decoded.width).toBe(37);
+    expect(decoded.height).toBe(21);
+    let error = 0;
+    for (let i = 0; i < image.data.length; i++) {
+      error += Math.abs(image.data[i] - decoded.data[i]);
+    }
+    expect(error / image.data.length).toBeLessThan(2);
+  });
+
+  it("should get smaller at lower quality", () => {
+    const image = gradient(64, 64);
+    expect(encodeJpeg(image, 30).length).toBeLessThan(
+      encodeJpeg(image, 95).length
+    );
+  });
+
+  it("should decode progressive, restart interval and subsampled files", () => {
+    for (const name of ["progressive.jpg", "restart.jpg"]) {
+      const image = decodeJpeg(fixture(name));
+      expect([image.width, image.height]).toEqual([24, 16]);
+      expectQuadrants(image, QUADRANTS);
+    }
+    // 4:2:0 with partial blocks at the right and bottom edges
+    const subsampled = decodeJpeg(fixture("subsampled.jpg"));
+    expect([subsampled.width, subsampled.height]).toEqual([21, 13]);
+    expectQuadrants(subsampled, QUADRANTS);
+  });
+
+  it("should decode Adobe CMYK files", () => {
+    expectQuadrants(decodeJpeg(fixture("cmyk.jpg")), [
+      [0, 255, 255],
+      [255, 0, 255],
+      [255, 255, 0],
+      [0, 0, 0],
+    ]);
+  });
+
+  it("should apply the EXIF orientation", () => {
+    // Stored as 16x24, turned a quarter counterclockwise, with orientation 6
+    const image = decodeJpeg(fixture("orientation6.jpg"));
+    expect([image.width, image.height]).toEqual([24, 16]);
+    expectQuadrants(image, QUADRANTS);
+  });
+
+  it("should apply every EXIF orientation", () => {
+    const [r, g, b, w] = QUADRANTS;
+    const quadrants: RgbaImage = {
+      width: 32,
+      height: 16,
+      data: new Uint8Array(32 * 16 * 4),
+    };
+    for (let y = 0; y < 16; y++) {
+      for (let x = 0; x < 32; x++) {
+        const color = QUADRANTS[(y < 8 ? 0 : 2) + (x < 16 ? 0 : 1)];
+        quadrants.data.set([...color, 255], (y * 32 + x) * 4);
+      }
+    }
+    const jpeg = encodeJpeg(quadrants, 95);
+    const expected = [
+      [r, g, b, w],
+      [g, r, w, b],
+      [w, b, g, r],
+      [b, w, r, g],
+      [r, b, g, w],
+      [b, r, w, g],
+      [w, g, b, r],
+      [g, w, r, b],
+    ];
+    expected.forEach((colors, i) => {
+      // Big-endian TIFF header with one IFD entry: orientation, SHORT
+      const exif = Buffer.from([
+        ...Buffer.from("Exif\0\0MM\0*", "latin1"),
+        ...[0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, i + 1, 0, 0],
+      ]);
+      const app1 = Buffer.from([0xff, 0xe1, 0, exif.length + 2]);
+      const image = decodeJpeg(
+        Buffer.concat([jpeg.subarray(0, 2), app1, exif, jpeg.subarray(2)])
+      );
+      expect([image.width, image.height]).toEqual(i < 4 ? [32, 16] : [16, 32]);
+      expectQuadrants(image, colors);
+    });
+  });
+
+  it("should reject lossless JPEGs", () => {
+    const sof2 = [0xff, 0xc3, 0, 11, 8, 0, 1, 0, 1, 1, 1, 0x11, 0];
+    expect(() => decodeJpeg(new Uint8Array([0xff, 0xd8, ...sof2]))).toThrow(
+      "Lossless and arithmetic-coded JPEGs are not supported"
+    );
+  });
+});
+
+describe("decodeGif", () => {
+  it("should decode the first frame with transparency", () => {
+    const data = gif(
+      2,
+      2,
+      [
+        [1, 2, 3, 0],
+        [0, 0, 0, 0],
+      ],
+      0
+    );
+    expect(isAnimatedGif(data)).toBe(true);
+    const image = decodeGif(data);
+    expect(pixel(image, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(image, 1, 0)).toEqual([0, 255, 0, 255]);
+    expect(pixel(image, 0, 1)).toEqual([0, 0, 255, 255]);
+    expect(pixel(image, 1, 1)).toEqual([0, 0, 0, 0]);
+  });
+
+  it("should not report single-frame GIFs as animated", () => {
+    expect(isAnimatedGif(gif(1, 1, [[1]]))).toBe(false);
+  });
+});
+
+describe("resizeImage", () => {
+  it("should average the source pixels", () => {
+    const image: RgbaImage = {
+      width: 2,
+      height: 2,
+      data: new Uint8Array([
+        0, 0, 0, 255, 100, 100, 100, 255, 200, 200, 200, 255, 100, 100, 100,
+        255,
+      ]),
+    };
+    expect(pixel(resizeImage(image, 1, 1), 0, 0)).toEqual([100, 100, 100, 255]);
+  });
+
+  it("should ignore the color of transparent pixels", () => {
+    const image: RgbaImage = {
+      width: 2,
+      height: 1,
+      data: new Uint8Array([255, 0, 0, 255, 0, 0, 0, 0]),
+    };
+    expect(pixel(resizeImage(image, 1, 1), 0, 0)).toEqual([255, 0, 0, 128]);
+  });
+});
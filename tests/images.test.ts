@@ -0,0 +1,420 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for image header parsing and token estimation in images.ts
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as ts from "typescript";
+import * as vscode from "vscode";
+import {
+  estimateImageTokens,
+  formatImageNotice,
+  getImageDimensions,
+  getImageAnalysisConcurrency,
+  getImageLimits,
+  getImageTokenRule,
+  GLM_VISION_TOKEN_RULE,
+  prepareImage,
+} from "../src/images";
+import type { ZaiImageLimits } from "../src/images";
+import { decodePng, encodeJpeg, encodePng } from "../src/imageCodec";
+import { estimateMessagesTokens } from "../src/utils";
+
+function png(width: number, height: number): Uint8Array {
+  const data = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data, 0);
+  data.writeUInt32BE(13, 8);
+  data.write("IHDR", 12, "ascii");
+  data.writeUInt32BE(width, 16);
+  data.writeUInt32BE(height, 20);
+  return new Uint8Array(data);
+}
+
+function jpeg(width: number, height: number): Uint8Array {
+  const app0 = [0xff, 0xe0, 0x00, 0x04, 0x00, 0x00];
+  // A DHT segment must not be mistaken for a frame header
+  const dht = [0xff, 0xc4, 0x00, 0x04, 0x00, 0x00];
+  const sof = [
+    0xff,
+    0xc2,
+    0x00,
+    0x0b,
+    0x08,
+    height >> 8,
+    height & 0xff,
+    width >> 8,
+    width & 0xff,
+    0x01,
+    0x01,
+    0x11,
+    0x00,
+  ];
+  return new Uint8Array([0xff, 0xd8, ...app0, ...dht, ...sof, 0xff, 0xd9]);
+}
+
+function gif(width: number, height: number): Uint8Array {
+  const data = Buffer.alloc(13);
+  data.write("GIF89a", 0, "ascii");
+  data.writeUInt16LE(width, 6);
+  data.writeUInt16LE(height, 8);
+  return new Uint8Array(data);
+}
+
+function webp(chunk: "VP8X" | "VP8L" | "VP8 ", width: number, height: number) {
+  const data = Buffer.alloc(30);
+  data.write("RIFF", 0, "ascii");
+  data.writeUInt32LE(22, 4);
+  data.write("WEBP", 8, "ascii");
+  data.write(chunk, 12, "ascii");
+  if (chunk === "VP8X") {
+    data.writeUIntLE(width - 1, 24, 3);
+    data.writeUIntLE(height - 1, 27, 3);
+  } else if (chunk === "VP8L") {
+    data[20] = 0x2f;
+    data.writeUInt32LE(((height - 1) << 14) | (width - 1), 21);
+  } else {
+    Buffer.from([0x9d, 0x01, 0x2a]).copy(data, 23);
+    data.writeUInt16LE(width, 26);
+    data.writeUInt16LE(height, 28);
+  }
+  return new Uint8Array(data);
+}
+
+describe("getImageDimensions", () => {
+  it("should read PNG, JPEG and GIF headers", () => {
+    expect(getImageDimensions(png(1920, 1080))).toEqual({
+      width: 1920,
+      height: 1080,
+    });
+    expect(getImageDimensions(jpeg(800, 600))).toEqual({
+      width: 800,
+      height: 600,
+    });
+    expect(getImageDimensions(gif(64, 32))).toEqual({ width: 64, height: 32 });
+  });
+
+  it("should read all WebP variants", () => {
+    expect(getImageDimensions(webp("VP8X", 3000, 2000))).toEqual({
+      width: 3000,
+      height: 2000,
+    });
+    expect(getImageDimensions(webp("VP8L", 640, 480))).toEqual({
+      width: 640,
+      height: 480,
+    });
+    expect(getImageDimensions(webp("VP8 ", 1024, 768))).toEqual({
+      width: 1024,
+      height: 768,
+    });
+  });
+
+  it("should return undefined for unknown or truncated data", () => {
+    expect(getImageDimensions(new Uint8Array([1, 2, 3, 4]))).toBeUndefined();
+    expect(getImageDimensions(png(100, 100).slice(0, 20))).toBeUndefined();
+    expect(getImageDimensions(jpeg(100, 100).slice(0, 12))).toBeUndefined();
+  });
+});
+
+describe("estimateImageTokens", () => {
+  it("should charge per 560x560 tile", () => {
+    expect(estimateImageTokens(png(560, 560))).toBe(400);
+    expect(estimateImageTokens(png(561, 100))).toBe(800);
+    // 1920x1080 is 4x2 tiles
+    expect(estimateImageTokens(jpeg(1920, 1080))).toBe(3200);
+  });
+
+  it("should cap images the API scales down", () => {
+    // 16 tiles of 400 tokens at most
+    expect(estimateImageTokens(webp("VP8X", 8000, 8000))).toBe(6400);
+  });
+
+  it("should fall back to a fixed cost for unknown dimensions", () => {
+    expect(estimateImageTokens(new Uint8Array([1, 2, 3, 4]))).toBe(2000);
+  });
+
+  it("should charge a description for non-vision models", () => {
+    const rule = getImageTokenRule({ supportsVision: false });
+    expect(estimateImageTokens(png(4000, 4000), rule)).toBe(1000);
+    expect(getImageTokenRule({ supportsVision: true })).toBe(
+      GLM_VISION_TOKEN_RULE
+    );
+  });
+
+  it("should be used for image parts in messages", () => {
+    const small = estimateMessagesTokens([
+      { content: [{ mimeType: "image/png", data: png(100, 100) }] },
+    ]);
+    const large = estimateMessagesTokens([
+      { content: [{ mimeType: "image/png", data: png(2000, 1500) }] },
+    ]);
+    expect(small).toBe(400);
+    expect(large).toBe(4800);
+  });
+});
+
+/**
+ * A real PNG or JPEG; noise makes it compress poorly.
+ */
+function encoded(
+  width: number,
+  height: number,
+  format: "png" | "jpeg",
+  noise = false
+): Uint8Array {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = i % 4 === 3 ? 255 : noise ? (i * 2654435761) >>> 24 : i % 251;
+  }
+  const image = { width, height, data };
+  return format === "png" ? encodePng(image) : encodeJpeg(image);
+}
+
+describe("getImageLimits", () => {
+  afterEach(() => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: (_key: string, defaultValue: unknown) => defaultValue,
+    });
+  });
+
+  it("should default to 1 MB and the GLM tile grid", () => {
+    expect(getImageLimits()).toEqual({
+      maxBytes: 1024 * 1024,
+      maxDimension: 2240,
+      maxPixels: 16 * 560 * 560,
+    });
+  });
+
+  it("should read the limits from settings", () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === "images.maxSizeKB"
+          ? 512
+          : key === "images.maxDimension"
+            ? 1024
+            : defaultValue
+      ),
+    });
+    expect(getImageLimits()).toEqual({
+      maxBytes: 512 * 1024,
+      maxDimension: 1024,
+      maxPixels: Infinity,
+    });
+  });
+});
+
+describe("getImageAnalysisConcurrency", () => {
+  afterEach(() => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: (_key: string, defaultValue: unknown) => defaultValue,
+    });
+  });
+
+  function withConcurrency(value: unknown): void {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === "images.analysisConcurrency" ? value : defaultValue
+      ),
+    });
+  }
+
+  it("should default to 3", () => {
+    expect(getImageAnalysisConcurrency()).toBe(3);
+  });
+
+  it("should clamp the setting to 1-8", () => {
+    withConcurrency(5);
+    expect(getImageAnalysisConcurrency()).toBe(5);
+    withConcurrency(20);
+    expect(getImageAnalysisConcurrency()).toBe(8);
+    withConcurrency(0);
+    expect(getImageAnalysisConcurrency()).toBe(3);
+    withConcurrency(Number.NaN);
+    expect(getImageAnalysisConcurrency()).toBe(3);
+  });
+});
+
+describe("prepareImage", () => {
+  const limits: ZaiImageLimits = {
+    maxBytes: 64 * 1024,
+    maxDimension: 100,
+    maxPixels: Infinity,
+  };
+
+  it("should keep images within the limits", async () => {
+    const data = encoded(50, 40, "png");
+    const result = await prepareImage({ mimeType: "image/png", data }, limits);
+    expect(result.status).toBe("unchanged");
+    expect(result.status === "unchanged" && result.data).toBe(data);
+  });
+
+  it("should scale down images larger than the maximum dimension", async () => {
+    const data = encoded(400, 200, "png");
+    const result = await prepareImage({ mimeType: "image/png", data }, limits);
+    if (result.status !== "converted") {
+      throw new Error(`Expected a converted image, got ${result.status}`);
+    }
+    expect(result.mimeType).toBe("image/png");
+    expect(result.original).toEqual({ width: 400, height: 200 });
+    expect(result.dimensions).toEqual({ width: 100, height: 50 });
+    expect(getImageDimensions(result.data)).toEqual(result.dimensions);
+    expect(formatImageNotice(result)).toContain(
+      "resized from 400×200 to 100×50"
+    );
+  });
+
+  it("should shrink images until they fit the byte limit", async () => {
+    const data = encoded(100, 100, "jpeg", true);
+    const result = await prepareImage(
+      { mimeType: "image/jpeg", data },
+      { ...limits, maxBytes: 4 * 1024 }
+    );
+    if (result.status !== "converted") {
+      throw new Error(`Expected a converted image, got ${result.status}`);
+    }
+    expect(result.mimeType).toBe("image/jpeg");
+    expect(result.data.length).toBeLessThanOrEqual(4 * 1024);
+    expect(result.dimensions.width).toBeLessThan(100);
+  });
+
+  it("should reject images that cannot be decoded", async () => {
+    const data = new Uint8Array(128 * 1024);
+    data.set(Buffer.from("RIFF\0\0\0\0WEBPVP8X"));
+    const result = await prepareImage({ mimeType: "image/webp", data }, limits);
+    expect(result).toEqual({
+      status: "rejected",
+      reason: "WebP images cannot be resized",
+      originalBytes: 128 * 1024,
+    });
+    if (result.status === "rejected") {
+      expect(formatImageNotice(result)).toBe(
+        "> ⚠️ An image (128 KB) was not sent. WebP images cannot be resized.\n\n"
+      );
+    }
+  });
+
+  it("should reduce animated images to their first frame", async () => {
+    const frame = [0x2c, 0, 0, 0, 0, 1, 0, 1, 0, 0, 2, 2, 0x4c, 0x01, 0];
+    const data = new Uint8Array([
+      ...Buffer.from("GIF89a"),
+      1,
+      0,
+      1,
+      0,
+      0x80,
+      0,
+      0,
+      ...[255, 0, 0, 0, 0, 255],
+      ...frame,
+      ...frame,
+      0x3b,
+    ]);
+    const result = await prepareImage({ mimeType: "image/gif", data }, limits);
+    if (result.status !== "converted") {
+      throw new Error(`Expected a converted image, got ${result.status}`);
+    }
+    expect(result.stillFrame).toBe(true);
+    expect(result.mimeType).toBe("image/png");
+    expect(Array.from(decodePng(result.data).data)).toEqual([0, 0, 255, 255]);
+    expect(formatImageNotice(result)).toContain("reduced to its first frame");
+  });
+
+  it("should keep an image that re-encoding would make larger", async () => {
+    // A low-quality JPEG of flat blocks stays smaller than the resized one
+    const pixels = new Uint8Array(400 * 200 * 4);
+    for (let i = 0; i < pixels.length; i += 4) {
+      const x = (i / 4) % 400;
+      const y = Math.floor(i / 4 / 400);
+      pixels.fill(((x >> 3) * 37 + (y >> 3) * 91) & 255, i, i + 3);
+      pixels[i + 3] = 255;
+    }
+    const data = encodeJpeg({ width: 400, height: 200, data: pixels }, 5);
+    const result = await prepareImage({ mimeType: "image/jpeg", data }, limits);
+    expect(result.status).toBe("unchanged");
+    expect(result.status === "unchanged" && result.data).toBe(data);
+  });
+
+  it("should switch opaque images to JPEG when the PNG does not fit", async () => {
+    // Photo-like: smooth gradients with noise in the low bits
+    let seed = 1;
+    const pixels = new Uint8Array(100 * 100 * 4);
+    for (let i = 0; i < pixels.length; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      const x = (i >> 2) % 100;
+      const y = Math.floor(i / 400);
+      pixels[i] =
+        i % 4 === 3 ? 255 : (x + y * 2 + (i % 4) * 40 + (seed >>> 27)) & 255;
+    }
+    const data = encodePng({ width: 100, height: 100, data: pixels });
+    const result = await prepareImage(
+      { mimeType: "image/png", data },
+      { ...limits, maxBytes: 10 * 1024 }
+    );
+    if (result.status !== "converted") {
+      throw new Error(`Expected a converted image, got ${result.status}`);
+    }
+    expect(data.length).toBeGreaterThan(10 * 1024);
+    expect(result.mimeType).toBe("image/jpeg");
+    expect(result.dimensions).toEqual({ width: 100, height: 100 });
+    expect(result.data.length).toBeLessThanOrEqual(10 * 1024);
+  });
+});
+
+describe("prepareImage in the image worker", () => {
+  const limits: ZaiImageLimits = {
+    maxBytes: 64 * 1024,
+    maxDimension: 100,
+    maxPixels: Infinity,
+  };
+  let outDir: string;
+
+  beforeAll(() => {
+    // Compile the worker and the modules it runs, as they ship in out/
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), "zai-image-worker-"));
+    for (const name of [
+      "images",
+      "imageCodec",
+      "imageConversion",
+      "imageWorker",
+    ]) {
+      const source = fs.readFileSync(
+        path.join(__dirname, "..", "src", `${name}.ts`),
+        "utf8"
+      );
+      const { outputText } = ts.transpileModule(source, {
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2020,
+          esModuleInterop: true,
+        },
+      });
+      fs.writeFileSync(path.join(outDir, `${name}.js`), outputText);
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("should convert images off the current thread", async () => {
+    const compiled = jest.requireActual<typeof import("../src/images")>(
+      path.join(outDir, "images.js")
+    );
+    const conversion = jest.requireActual<
+      typeof import("../src/imageConversion")
+    >(path.join(outDir, "imageConversion.js"));
+    const inThread = jest.spyOn(conversion, "convertImage");
+
+    const result = await compiled.prepareImage(
+      { mimeType: "image/png", data: encoded(400, 200, "png") },
+      limits
+    );
+    expect(inThread).not.toHaveBeenCalled();
+    if (result.status !== "converted") {
+      throw new Error(`Expected a converted image, got ${result.status}`);
+    }
+    expect(result.dimensions).toEqual({ width: 100, height: 50 });
+    expect(getImageDimensions(result.data)).toEqual(result.dimensions);
+  });
+});
@@ -0,0 +1,80 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for inline <think> reasoning in inlineThinking.ts
+ */
+
+import { InlineThinkingParser } from "../src/inlineThinking";
+import type { InlineThinkingSegment } from "../src/inlineThinking";
+
+/** Feed the chunks and merge adjacent segments of the same type */
+function feed(chunks: string[]): InlineThinkingSegment[] {
+  const parser = new InlineThinkingParser();
+  const segments: InlineThinkingSegment[] = [];
+  for (const segment of [
+    ...chunks.flatMap((chunk) => parser.push(chunk)),
+    ...parser.flush(),
+  ]) {
+    const last = segments[segments.length - 1];
+    if (last?.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      segments.push({ ...segment });
+    }
+  }
+  return segments;
+}
+
+describe("InlineThinkingParser", () => {
+  it("should split reasoning from the answer", () => {
+    expect(
+      feed(["<think>\nThe user wants a greeting.\n</think>\n\nHello!"])
+    ).toEqual([
+      { type: "thinking", text: "The user wants a greeting.\n" },
+      { type: "text", text: "Hello!" },
+    ]);
+  });
+
+  it("should handle any chunk boundary", () => {
+    const text =
+      "  <think>Plan the edit.</think>\n\nEditing now.</think> Done.";
+    for (const size of [1, 2, 3, 5, 8]) {
+      const chunks: string[] = [];
+      for (let i = 0; i < text.length; i += size) {
+        chunks.push(text.slice(i, i + size));
+      }
+      expect(feed(chunks)).toEqual([
+        { type: "thinking", text: "Plan the edit." },
+        { type: "text", text: "Editing now.</think> Done." },
+      ]);
+    }
+  });
+
+  it("should pass text through without waiting for the stream to end", () => {
+    const parser = new InlineThinkingParser();
+    expect(parser.push("\n<thi")).toEqual([]);
+    expect(parser.push("s is")).toEqual([{ type: "text", text: "\n<this is" }]);
+    expect(parser.push(" a <thi")).toEqual([{ type: "text", text: " a <thi" }]);
+  });
+
+  it("should leave an answer that mentions the tag alone", () => {
+    expect(
+      feed(["Wrap reasoning in <think>", " tags, like <think>a</think>."])
+    ).toEqual([
+      {
+        type: "text",
+        text: "Wrap reasoning in <think> tags, like <think>a</think>.",
+      },
+    ]);
+  });
+
+  it("should not repeat an unterminated block", () => {
+    const parser = new InlineThinkingParser();
+    expect(parser.push("<think>I reason about x")).toEqual([
+      { type: "thinking", text: "I reason about x" },
+    ]);
+    expect(parser.push(" and y</thi")).toEqual([
+      { type: "thinking", text: " and y" },
+    ]);
+    expect(parser.flush()).toEqual([{ type: "thinking", text: "</thi" }]);
+  });
+});
@@ -3,6 +3,7 @@
  * Unit tests for MCP client in mcp.ts
  */
 
+import * as vscode from "vscode";
 import { ZaiMcpClient } from "../src/mcp";
 import { secrets } from "../__mocks__/vscode";
 
@@ -64,6 +65,56 @@ describe("ZaiMcpClient", () => {
       expect(fetchCall[0]).toContain("api.z.ai");
     });
 
+    it("should send the requested vision model", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: "ok" } }] }),
+      });
+
+      await client.analyzeImage("data:image/png;base64,...", "Describe");
+      await client.analyzeImage(
+        "data:image/png;base64,...",
+        "Describe",
+        undefined,
+        "glm-5v-turbo"
+      );
+
+      const models = (global.fetch as jest.Mock).mock.calls.map(
+        ([, init]) => JSON.parse(init.body).model
+      );
+      expect(models).toEqual(["glm-4.6v", "glm-5v-turbo"]);
+    });
+
+    it("should return undefined when the model returns no text", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: "  " } }] }),
+      });
+
+      await expect(
+        client.analyzeImage("data:image/png;base64,...", "Describe")
+      ).resolves.toBeUndefined();
+    });
+
+    it("should use the configured endpoint profile", async () => {
+      (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+        get: jest.fn((key: string, defaultValue: unknown) =>
+          key === "endpoint.profile" ? "bigmodel" : defaultValue
+        ),
+      });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: "ok" } }] }),
+      });
+
+      await client.analyzeImage("data:image/png;base64,...", "Describe");
+
+      const fetchCall = (global.fetch as jest.Mock).mock.calls[0];
+      expect(fetchCall[0]).toBe(
+        "https://open.bigmodel.cn/api/paas/v4/chat/completions"
+      );
+    });
+
     it("should return error message when tool call fails", async () => {
       (global.fetch as jest.Mock).mockResolvedValue({
         ok: false,
@@ -71,6 +122,15 @@ describe("ZaiMcpClient", () => {
         statusText: "Internal Server Error",
         text: async () => "Server error",
       });
+      const timeoutSpy = jest.spyOn(global, "setTimeout").mockImplementation(((
+        fn: () => void
+      ) => {
+        fn();
+        return 0;
+      }) as unknown as typeof setTimeout);
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+      // Shortest backoff, so all retries fit into the default wait budget
+      const randomSpy = jest.spyOn(Math, "random").mockReturnValue(0);
 
       const internal = client as {
         analyzeImage(imageData: string, prompt: string): Promise<string>;
@@ -78,6 +138,89 @@ describe("ZaiMcpClient", () => {
       await expect(
         internal.analyzeImage("data:image/png;base64,...", "Describe")
       ).rejects.toThrow("Vision API error: 500 Server error");
+      timeoutSpy.mockRestore();
+      warnSpy.mockRestore();
+      randomSpy.mockRestore();
+
+      // First attempt plus the default 10 retries
+      expect(global.fetch).toHaveBeenCalledTimes(11);
+    });
+
+    it("should not retry client errors", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: async () => "Bad request",
+      });
+
+      await expect(
+        client.analyzeImage("data:image/png;base64,...", "Describe")
+      ).rejects.toThrow("Vision API error: 400 Bad request");
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should wait for Retry-After before retrying", async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          headers: new Headers({ "retry-after": "3" }),
+          text: async () => "Rate limited",
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ choices: [{ message: { content: "ok" } }] }),
+        });
+      const delays: number[] = [];
+      const timeoutSpy = jest.spyOn(global, "setTimeout").mockImplementation(((
+        fn: () => void,
+        ms: number
+      ) => {
+        delays.push(ms);
+        fn();
+        return 0;
+      }) as unknown as typeof setTimeout);
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const result = await client.analyzeImage(
+        "data:image/png;base64,...",
+        "Describe"
+      );
+      timeoutSpy.mockRestore();
+      warnSpy.mockRestore();
+
+      expect(result).toBe("ok");
+      expect(delays).toEqual([3000]);
+    });
+
+    it("should abort the request in flight when cancelled", async () => {
+      (global.fetch as jest.Mock).mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () => {
+              reject(new DOMException("Aborted", "AbortError"));
+            });
+          })
+      );
+      let cancel = (): void => {};
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: jest.fn((listener: () => void) => {
+          cancel = listener;
+          return { dispose: jest.fn() };
+        }),
+      } as unknown as vscode.CancellationToken;
+
+      const result = client.analyzeImage(
+        "data:image/png;base64,...",
+        "Describe",
+        token
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      cancel();
+
+      await expect(result).rejects.toBeInstanceOf(vscode.CancellationError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
     });
 
     it("should pass image data URL to tool", async () => {
@@ -140,4 +283,35 @@ describe("ZaiMcpClient", () => {
       expect(promptContent?.text).toBe(prompt);
     });
   });
+
+  describe("summarizeConversation", () => {
+    beforeEach(() => {
+      (secrets.get as jest.Mock).mockResolvedValue("test-api-key");
+    });
+
+    it("should ask the given model for a summary without thinking", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: "Fixed the parser." } }],
+        }),
+      });
+
+      const summary = await client.summarizeConversation(
+        "User: fix the parser",
+        "glm-4.7-flash"
+      );
+
+      expect(summary).toBe("Fixed the parser.");
+      const body = JSON.parse(
+        (global.fetch as jest.Mock).mock.calls[0][1].body
+      );
+      expect(body.model).toBe("glm-4.7-flash");
+      expect(body.thinking).toEqual({ type: "disabled" });
+      expect(body.messages[1]).toEqual({
+        role: "user",
+        content: "User: fix the parser",
+      });
+    });
+  });
 });
@@ -0,0 +1,233 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the model catalog in models.ts
+ */
+
+import * as vscode from "vscode";
+import {
+  fetchModelIds,
+  getCustomModels,
+  MODEL_CACHE_KEY,
+  toModelInfo,
+  ZaiModelCatalog,
+} from "../src/models";
+import { ZAI_MODELS } from "../src/types";
+
+const BASE_URL = "https://api.z.ai/api/coding/paas/v4";
+
+function createMemento(): vscode.Memento {
+  const store = new Map<string, unknown>();
+  return {
+    keys: () => Array.from(store.keys()),
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      store.has(key) ? store.get(key) : defaultValue
+    ),
+    update: jest.fn((key: string, value: unknown) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+  } as unknown as vscode.Memento;
+}
+
+function mockModelList(ids: string[]): void {
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: true,
+    json: async () => ({
+      object: "list",
+      data: ids.map((id) => ({ id, object: "model", owned_by: "z-ai" })),
+    }),
+  });
+}
+
+describe("toModelInfo", () => {
+  it("should return static metadata for known models", () => {
+    const info = toModelInfo("glm-4.7");
+    expect(info).toBe(ZAI_MODELS.find((m) => m.id === "glm-4.7"));
+  });
+
+  it("should build defaults for unknown models", () => {
+    const info = toModelInfo("glm-6");
+    expect(info.displayName).toBe("GLM-6");
+    expect(info.supportsTools).toBe(true);
+    expect(info.supportsVision).toBe(false);
+    expect(info.contextWindow).toBeGreaterThan(0);
+  });
+
+  it("should infer vision support from the version suffix", () => {
+    expect(toModelInfo("glm-6v").supportsVision).toBe(true);
+    expect(toModelInfo("glm-6v-turbo").supportsVision).toBe(true);
+    expect(toModelInfo("glm-6-vast").supportsVision).toBe(false);
+  });
+});
+
+function mockCustomModels(customModels: unknown): void {
+  (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+    get: jest.fn((key: string, defaultValue: unknown) =>
+      key === "customModels" ? customModels : defaultValue
+    ),
+  });
+}
+
+describe("getCustomModels", () => {
+  afterEach(() => {
+    mockCustomModels([]);
+  });
+
+  it("should read entries and apply defaults", () => {
+    mockCustomModels([
+      {
+        id: "glm-5-ft",
+        displayName: "GLM-5 Fine-tuned",
+        contextWindow: 65536,
+        supportsVision: true,
+        endpoint: "general",
+      },
+    ]);
+
+    const [model] = getCustomModels();
+    expect(model).toEqual({
+      id: "glm-5-ft",
+      name: "GLM-5 Fine-tuned",
+      displayName: "GLM-5 Fine-tuned",
+      contextWindow: 65536,
+      maxOutput: toModelInfo("glm-5-ft").maxOutput,
+      supportsTools: true,
+      supportsVision: true,
+      endpoint: "general",
+    });
+  });
+
+  it("should skip invalid and duplicate entries", () => {
+    mockCustomModels([
+      null,
+      { displayName: "no id" },
+      { id: "  " },
+      { id: "glm-x", contextWindow: -1 },
+      { id: "glm-x", contextWindow: 1000 },
+    ]);
+
+    const models = getCustomModels();
+    expect(models).toHaveLength(1);
+    expect(models[0].contextWindow).toBe(toModelInfo("glm-x").contextWindow);
+  });
+
+  it("should return an empty list for a malformed setting", () => {
+    mockCustomModels("not-an-array");
+    expect(getCustomModels()).toEqual([]);
+  });
+});
+
+describe("fetchModelIds", () => {
+  it("should request the models endpoint and skip non-chat models", async () => {
+    mockModelList(["glm-5", "embedding-3", "cogview-4", "glm-6", "glm-5"]);
+
+    const ids = await fetchModelIds(BASE_URL, "key", "jest-agent");
+
+    expect(ids).toEqual(["glm-5", "glm-6"]);
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe(`${BASE_URL}/models`);
+    expect(init.headers.Authorization).toBe("Bearer key");
+  });
+
+  it("should throw on HTTP errors", async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 404 });
+    await expect(fetchModelIds(BASE_URL, "key", "ua")).rejects.toThrow(
+      "Model list request failed: 404"
+    );
+  });
+});
+
+describe("ZaiModelCatalog", () => {
+  let warnSpy: jest.SpyInstance;
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+    logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    logSpy.mockRestore();
+  });
+
+  it("should serve the static table when nothing is cached", () => {
+    const catalog = new ZaiModelCatalog(createMemento());
+    expect(catalog.getModels(BASE_URL)).toEqual(ZAI_MODELS);
+    expect(catalog.needsRefresh(BASE_URL)).toBe(true);
+  });
+
+  it("should never discover without a globalState", async () => {
+    global.fetch = jest.fn();
+    const catalog = new ZaiModelCatalog();
+    expect(catalog.needsRefresh(BASE_URL)).toBe(false);
+    await expect(catalog.refresh(BASE_URL, "key", "ua")).resolves.toBe(false);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it("should merge discovered ids with static metadata", async () => {
+    const memento = createMemento();
+    const catalog = new ZaiModelCatalog(memento);
+    mockModelList(["glm-5", "glm-4.7", "glm-6"]);
+
+    await expect(catalog.refresh(BASE_URL, "key", "ua")).resolves.toBe(true);
+
+    const ids = catalog.getModels(BASE_URL).map((m) => m.id);
+    // Static order first, internal models kept, new ids appended
+    expect(ids).toEqual(["glm-4.7", "glm-5", "glm-4.6v", "glm-6"]);
+    expect(catalog.findModel(BASE_URL, "glm-5")?.contextWindow).toBe(202752);
+    expect(memento.update).toHaveBeenCalledWith(
+      MODEL_CACHE_KEY,
+      expect.objectContaining({ baseUrl: BASE_URL, ids: expect.any(Array) })
+    );
+    expect(catalog.needsRefresh(BASE_URL)).toBe(false);
+  });
+
+  it("should report no change when the discovered set is unchanged", async () => {
+    const catalog = new ZaiModelCatalog(createMemento());
+    mockModelList(["glm-5", "glm-6"]);
+    await catalog.refresh(BASE_URL, "key", "ua");
+
+    mockModelList(["glm-6", "glm-5"]);
+    await expect(catalog.refresh(BASE_URL, "key", "ua")).resolves.toBe(false);
+  });
+
+  it("should keep the cache when the endpoint is unreachable", async () => {
+    const catalog = new ZaiModelCatalog(createMemento());
+    mockModelList(["glm-6"]);
+    await catalog.refresh(BASE_URL, "key", "ua");
+
+    global.fetch = jest.fn().mockRejectedValue(new Error("offline"));
+    await expect(catalog.refresh(BASE_URL, "key", "ua")).resolves.toBe(false);
+    expect(catalog.findModel(BASE_URL, "glm-6")).toBeDefined();
+  });
+
+  it("should add custom models and let them override built-ins", () => {
+    mockCustomModels([
+      { id: "glm-preview", supportsVision: true },
+      { id: "glm-4.7", displayName: "GLM-4.7 (local)", maxOutput: 4096 },
+    ]);
+    const catalog = new ZaiModelCatalog();
+
+    const models = catalog.getModels(BASE_URL);
+    expect(models).toHaveLength(ZAI_MODELS.length + 1);
+    expect(catalog.findModel(BASE_URL, "glm-preview")?.supportsVision).toBe(
+      true
+    );
+    expect(catalog.findModel(BASE_URL, "glm-4.7")).toMatchObject({
+      displayName: "GLM-4.7 (local)",
+      maxOutput: 4096,
+    });
+    mockCustomModels([]);
+  });
+
+  it("should ignore a cache recorded for another endpoint", async () => {
+    const catalog = new ZaiModelCatalog(createMemento());
+    mockModelList(["glm-6"]);
+    await catalog.refresh(BASE_URL, "key", "ua");
+
+    const other = "https://open.bigmodel.cn/api/paas/v4";
+    expect(catalog.getModels(other)).toEqual(ZAI_MODELS);
+    expect(catalog.needsRefresh(other)).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for prompt-tsx rendering in promptTsx.ts
+ */
+
+import { renderPromptTsx } from "../src/promptTsx";
+
+const MAX_PRIORITY = Number.MAX_SAFE_INTEGER;
+
+/** `renderElementJSON` output of a read_file result: a fenced code block */
+const readFileResult = {
+  node: {
+    type: 1,
+    ctor: 2,
+    ctorName: "ReadFileResult",
+    priority: MAX_PRIORITY,
+    children: [
+      {
+        type: 2,
+        text: "File: `/workspace/src/math.ts`. Lines 1 to 3 (3 lines total): ",
+        priority: MAX_PRIORITY,
+        lineBreakBefore: false,
+      },
+      {
+        type: 1,
+        ctor: 2,
+        ctorName: "CodeBlock",
+        priority: MAX_PRIORITY,
+        references: [
+          {
+            anchor: {
+              $mid: 1,
+              fsPath: "/workspace/src/math.ts",
+              path: "/workspace/src/math.ts",
+              scheme: "file",
+            },
+          },
+        ],
+        children: [
+          {
+            type: 2,
+            text: "```typescript\n",
+            priority: MAX_PRIORITY,
+            lineBreakBefore: true,
+          },
+          {
+            type: 2,
+            text: "export function add(a: number, b: number): number {\n  return a + b;\n}\n",
+            priority: MAX_PRIORITY,
+            lineBreakBefore: false,
+          },
+          {
+            type: 2,
+            text: "```",
+            priority: MAX_PRIORITY,
+            lineBreakBefore: false,
+          },
+        ],
+        props: { priority: MAX_PRIORITY },
+      },
+      // Cache breakpoint inserted by Copilot
+      { type: 3, value: { type: 3, cacheType: "ephemeral" } },
+    ],
+    props: {},
+    references: [],
+  },
+};
+
+/** `renderElementJSON` output of a get_errors result with several files */
+const getErrorsResult = {
+  node: {
+    type: 1,
+    ctor: 2,
+    ctorName: "DiagnosticToolOutput",
+    children: [
+      {
+        type: 1,
+        ctor: 2,
+        ctorName: "Tag",
+        children: [
+          {
+            type: 2,
+            text: '<errors path="/workspace/src/app.ts">',
+            lineBreakBefore: true,
+          },
+          {
+            type: 2,
+            text: "Cannot find name 'foo'.",
+            lineBreakBefore: true,
+          },
+          { type: 2, text: "</errors>", lineBreakBefore: true },
+        ],
+      },
+      {
+        type: 1,
+        ctor: 2,
+        ctorName: "Tag",
+        children: [
+          {
+            type: 2,
+            text: '<errors path="/workspace/src/util.ts">',
+            lineBreakBefore: true,
+          },
+          { type: 2, text: "No errors found", lineBreakBefore: true },
+          { type: 2, text: "</errors>", lineBreakBefore: true },
+        ],
+      },
+    ],
+  },
+};
+
+describe("renderPromptTsx", () => {
+  it("should flatten a read_file result into its text", () => {
+    expect(renderPromptTsx(readFileResult)).toBe(
+      [
+        "File: `/workspace/src/math.ts`. Lines 1 to 3 (3 lines total): ",
+        "```typescript",
+        "export function add(a: number, b: number): number {",
+        "  return a + b;",
+        "}",
+        "```",
+      ].join("\n")
+    );
+  });
+
+  it("should put line-broken chunks on their own lines", () => {
+    expect(renderPromptTsx(getErrorsResult)).toBe(
+      [
+        '<errors path="/workspace/src/app.ts">',
+        "Cannot find name 'foo'.",
+        "</errors>",
+        '<errors path="/workspace/src/util.ts">',
+        "No errors found",
+        "</errors>",
+      ].join("\n")
+    );
+  });
+
+  it("should render opaque content parts and images", () => {
+    expect(
+      renderPromptTsx({
+        node: {
+          type: 1,
+          ctor: 2,
+          children: [
+            { type: 3, value: { type: 1, text: "Opaque text" } },
+            {
+              type: 1,
+              ctor: 3,
+              children: [],
+              props: { src: "data:image/png;base64,AAAA" },
+            },
+          ],
+        },
+      })
+    ).toBe("Opaque text\n[image]");
+  });
+
+  it("should accept bare nodes and ignore malformed values", () => {
+    expect(renderPromptTsx({ type: 2, text: "plain" })).toBe("plain");
+    expect(renderPromptTsx("already text")).toBe("already text");
+    expect(renderPromptTsx({ node: { type: 1, children: "x" } })).toBe("");
+    expect(renderPromptTsx(null)).toBe("");
+    expect(renderPromptTsx(42)).toBe("");
+  });
+});
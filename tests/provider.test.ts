@@ -4,6 +4,10 @@ import * as vscode from "vscode";
 
 import { ZaiChatModelProvider } from "../src/provider";
 import { secrets } from "../__mocks__/vscode";
+import { encodePng } from "../src/imageCodec";
+import { getImageDimensions } from "../src/images";
+import { ZaiMcpClient } from "../src/mcp";
+import { convertMessagesToAnthropic } from "../src/anthropic";
 
 function createDoneStream(): ReadableStream<Uint8Array> {
   return new ReadableStream<Uint8Array>({
@@ -14,6 +18,35 @@ function createDoneStream(): ReadableStream<Uint8Array> {
   });
 }
 
+/**
+ * Stream whose SSE chunks are pushed by the test, for interleaving requests.
+ */
+function createControlledStream(): {
+  stream: ReadableStream<Uint8Array>;
+  push: (chunk: unknown) => void;
+  end: () => void;
+} {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const encoder = new TextEncoder();
+  return {
+    stream: new ReadableStream<Uint8Array>({
+      start(c) {
+        controller = c;
+      },
+    }),
+    push: (chunk) =>
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`)),
+    end: () => {
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  };
+}
+
+function flushStreams(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
 function createToken(): vscode.CancellationToken {
   return {
     isCancellationRequested: false,
@@ -153,6 +186,1048 @@ describe("ZaiChatModelProvider", () => {
     expect(global.fetch).not.toHaveBeenCalled();
   });
 
+  it("should compact an oversized conversation when compaction is enabled", async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === "compaction.strategy" ? "truncate" : defaultValue
+      ),
+    });
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const glm5 = models.find((m) => m.id === "glm-5");
+    if (!glm5) {
+      throw new Error("glm-5 not found");
+    }
+
+    const messages = [
+      vscode.LanguageModelChatMessage.User("a".repeat(202753 * 4)),
+      vscode.LanguageModelChatMessage.Assistant("Summarized the log."),
+      vscode.LanguageModelChatMessage.User("Now fix the bug"),
+      vscode.LanguageModelChatMessage.Assistant("Done."),
+      vscode.LanguageModelChatMessage.User("Thanks, add a test"),
+    ];
+    const report = jest.fn();
+
+    await provider.provideLanguageModelChatResponse(
+      glm5,
+      messages,
+      {},
+      {
+        report,
+      } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+    logSpy.mockRestore();
+
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(body.messages.map((m: { content: string }) => m.content)).toEqual([
+      "[1 earlier turn(s) were removed to fit the context window]",
+      "Now fix the bug",
+      "Done.",
+      "Thanks, add a test",
+    ]);
+    const notice = report.mock.calls
+      .map(([part]) => part)
+      .find((p) => p instanceof vscode.LanguageModelTextPart);
+    expect(notice?.value).toContain("removed 1 earlier turn(s)");
+  });
+
+  it("should calibrate token counts from the usage the API reports", async () => {
+    global.fetch = jest.fn().mockImplementation(async () => ({
+      ok: true,
+      body: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(
+            new TextEncoder().encode(
+              'data: {"choices":[{"index":0,"delta":{"content":"ok"}}],"usage":{"prompt_tokens":300,"completion_tokens":1}}\n\ndata: [DONE]\n\n'
+            )
+          );
+          controller.close();
+        },
+      }),
+    }));
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const glm5 = models.find((m) => m.id === "glm-5");
+    if (!glm5) {
+      throw new Error("glm-5 not found");
+    }
+    const prompt = "a".repeat(1000);
+
+    expect(await provider.provideTokenCount(glm5, prompt, createToken())).toBe(
+      500
+    );
+    for (let i = 0; i < 3; i++) {
+      await provider.provideLanguageModelChatResponse(
+        glm5,
+        [vscode.LanguageModelChatMessage.User(prompt)],
+        {},
+        {
+          report: jest.fn(),
+        } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+        createToken()
+      );
+    }
+    logSpy.mockRestore();
+
+    expect(await provider.provideTokenCount(glm5, prompt, createToken())).toBe(
+      300
+    );
+  });
+
+  it("should send chat requests to the configured endpoint profile", async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) => {
+        if (key === "endpoint.profile") {
+          return "custom";
+        }
+        if (key === "endpoint.customBaseUrl") {
+          return "http://localhost:4000/v4/";
+        }
+        return defaultValue;
+      }),
+    });
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const glm47 = models.find((m) => m.id === "glm-4.7");
+    if (!glm47) {
+      throw new Error("glm-4.7 not found");
+    }
+
+    await provider.provideLanguageModelChatResponse(
+      glm47,
+      [vscode.LanguageModelChatMessage.User("hello")],
+      {},
+      {
+        report: jest.fn(),
+      } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+
+    expect((global.fetch as jest.Mock).mock.calls[0]?.[0]).toBe(
+      "http://localhost:4000/v4/chat/completions"
+    );
+  });
+
+  it("should expose discovered models and fire a change event", async () => {
+    const store = new Map<string, unknown>();
+    const globalState = {
+      keys: () => Array.from(store.keys()),
+      get: (key: string) => store.get(key),
+      update: (key: string, value: unknown) => {
+        store.set(key, value);
+        return Promise.resolve();
+      },
+    } as unknown as vscode.Memento;
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: [{ id: "glm-5" }, { id: "glm-6" }] }),
+    });
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent",
+      globalState
+    );
+    const changed = new Promise<void>((resolve) => {
+      provider.onDidChangeLanguageModelChatInformation(() => resolve());
+    });
+
+    // First call serves the static table and refreshes in the background
+    const first = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    expect(first.some((m) => m.id === "glm-4.7")).toBe(true);
+    await changed;
+
+    const second = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    expect(second.map((m) => m.id)).toEqual(["glm-5", "glm-6"]);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should list custom models and send them to their endpoint", async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === "customModels"
+          ? [
+              {
+                id: "glm-5-ft",
+                displayName: "GLM-5 FT",
+                contextWindow: 32768,
+                maxOutput: 4096,
+                endpoint: "http://localhost:9000/v4",
+              },
+            ]
+          : defaultValue
+      ),
+    });
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const custom = models.find((m) => m.id === "glm-5-ft");
+    expect(custom).toMatchObject({
+      name: "GLM-5 FT",
+      maxInputTokens: 32768 - 4096,
+      maxOutputTokens: 4096,
+    });
+    if (!custom) {
+      throw new Error("glm-5-ft not found");
+    }
+
+    await provider.provideLanguageModelChatResponse(
+      custom,
+      [vscode.LanguageModelChatMessage.User("hello")],
+      {},
+      {
+        report: jest.fn(),
+      } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe("http://localhost:9000/v4/chat/completions");
+    expect(JSON.parse(init.body).max_tokens).toBe(4096);
+  });
+
+  it("should send images directly to custom vision models", async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === "customModels"
+          ? [{ id: "glm-vision-preview", supportsVision: true }]
+          : defaultValue
+      ),
+    });
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const custom = models.find((m) => m.id === "glm-vision-preview");
+    if (!custom) {
+      throw new Error("glm-vision-preview not found");
+    }
+
+    await provider.provideLanguageModelChatResponse(
+      custom,
+      [
+        vscode.LanguageModelChatMessage.User([
+          new vscode.LanguageModelTextPart("What is this?"),
+          vscode.LanguageModelDataPart.image(
+            new Uint8Array([1, 2, 3]),
+            "image/png"
+          ),
+        ]),
+      ],
+      {},
+      {
+        report: jest.fn(),
+      } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(body.model).toBe("glm-vision-preview");
+    expect(body.messages[0].content[1].type).toBe("image_url");
+  });
+
+  it("should resize oversized images and tell the user", async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === "customModels"
+          ? [{ id: "glm-vision-preview", supportsVision: true }]
+          : defaultValue
+      ),
+    });
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const custom = models.find((m) => m.id === "glm-vision-preview");
+    if (!custom) {
+      throw new Error("glm-vision-preview not found");
+    }
+    const wide = encodePng({
+      width: 4480,
+      height: 10,
+      data: new Uint8Array(4480 * 10 * 4).fill(255),
+    });
+    const progress = { report: jest.fn() };
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    await provider.provideLanguageModelChatResponse(
+      custom,
+      [
+        vscode.LanguageModelChatMessage.User([
+          new vscode.LanguageModelTextPart("What is this?"),
+          vscode.LanguageModelDataPart.image(wide, "image/png"),
+        ]),
+      ],
+      {},
+      progress as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+    logSpy.mockRestore();
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    const url: string = body.messages[0].content[1].image_url.url;
+    const sent = Buffer.from(url.split(",")[1], "base64");
+    expect(getImageDimensions(sent)).toEqual({ width: 2240, height: 5 });
+    expect(progress.report).toHaveBeenCalledWith(
+      expect.objectContaining({
+        value: expect.stringContaining("resized from 4480×10 to 2240×5"),
+      })
+    );
+  });
+
+  it("should analyze an image once across turns", async () => {
+    global.fetch = jest.fn().mockImplementation(async () => ({
+      ok: true,
+      body: createDoneStream(),
+    }));
+    const analyze = jest
+      .spyOn(ZaiMcpClient.prototype, "analyzeImage")
+      .mockResolvedValue("A red square");
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const model = {
+      id: "glm-4.7",
+      maxInputTokens: 200000,
+      maxOutputTokens: 131072,
+    } as vscode.LanguageModelChatInformation;
+    const options = {
+      tools: [
+        {
+          name: "zai_analyze_image",
+          description: "Analyze an image",
+          inputSchema: {},
+        },
+      ],
+    } as unknown as vscode.ProvideLanguageModelChatResponseOptions;
+    const imageMessage = vscode.LanguageModelChatMessage.User([
+      new vscode.LanguageModelTextPart("What is this?"),
+      vscode.LanguageModelDataPart.image(
+        new Uint8Array([1, 2, 3]),
+        "image/png"
+      ),
+    ]);
+    const progress = { report: jest.fn() };
+
+    await provider.provideLanguageModelChatResponse(
+      model,
+      [imageMessage],
+      options,
+      progress as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+    await provider.provideLanguageModelChatResponse(
+      model,
+      [
+        imageMessage,
+        vscode.LanguageModelChatMessage.Assistant("It is a red square."),
+        vscode.LanguageModelChatMessage.User("Are you sure?"),
+      ],
+      options,
+      progress as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+    logSpy.mockRestore();
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+    expect(JSON.stringify(body.messages)).toContain("A red square");
+    analyze.mockRestore();
+  });
+
+  it("should not cache an empty image analysis", async () => {
+    global.fetch = jest.fn().mockImplementation(async () => ({
+      ok: true,
+      body: createDoneStream(),
+    }));
+    const analyze = jest
+      .spyOn(ZaiMcpClient.prototype, "analyzeImage")
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValueOnce("A blue circle");
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const send = () =>
+      provider.provideLanguageModelChatResponse(
+        {
+          id: "glm-4.7",
+          maxInputTokens: 200000,
+          maxOutputTokens: 131072,
+        } as vscode.LanguageModelChatInformation,
+        [
+          vscode.LanguageModelChatMessage.User([
+            new vscode.LanguageModelTextPart("What is this?"),
+            vscode.LanguageModelDataPart.image(
+              new Uint8Array([4, 5, 6]),
+              "image/png"
+            ),
+          ]),
+        ],
+        {
+          tools: [
+            {
+              name: "zai_analyze_image",
+              description: "Analyze an image",
+              inputSchema: {},
+            },
+          ],
+        } as unknown as vscode.ProvideLanguageModelChatResponseOptions,
+        {
+          report: jest.fn(),
+        } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+        createToken()
+      );
+
+    await send();
+    await send();
+    logSpy.mockRestore();
+
+    expect(analyze).toHaveBeenCalledTimes(2);
+    const first = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(JSON.stringify(first.messages)).toContain("Failed to analyze image");
+    const second = JSON.parse(
+      (global.fetch as jest.Mock).mock.calls[1][1].body
+    );
+    expect(JSON.stringify(second.messages)).toContain("A blue circle");
+    analyze.mockRestore();
+  });
+
+  it("should analyze images in parallel and show progress", async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === "images.analysisConcurrency" ? 2 : defaultValue
+      ),
+    });
+    let running = 0;
+    let peak = 0;
+    const analyze = jest
+      .spyOn(ZaiMcpClient.prototype, "analyzeImage")
+      .mockImplementation(async (dataUrl: string) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return `Description of ${dataUrl.slice(-4)}`;
+      });
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const progress = { report: jest.fn() };
+
+    await provider.provideLanguageModelChatResponse(
+      {
+        id: "glm-4.7",
+        maxInputTokens: 200000,
+        maxOutputTokens: 131072,
+      } as vscode.LanguageModelChatInformation,
+      [
+        vscode.LanguageModelChatMessage.User([
+          vscode.LanguageModelDataPart.image(new Uint8Array([1]), "image/png"),
+          vscode.LanguageModelDataPart.image(new Uint8Array([2]), "image/png"),
+          vscode.LanguageModelDataPart.image(new Uint8Array([3]), "image/png"),
+          // Repeated images are analyzed once
+          vscode.LanguageModelDataPart.image(new Uint8Array([1]), "image/png"),
+        ]),
+      ],
+      {
+        tools: [
+          {
+            name: "zai_analyze_image",
+            description: "Analyze an image",
+            inputSchema: {},
+          },
+        ],
+      } as unknown as vscode.ProvideLanguageModelChatResponseOptions,
+      progress as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+    logSpy.mockRestore();
+
+    expect(analyze).toHaveBeenCalledTimes(3);
+    analyze.mockRestore();
+    expect(peak).toBe(2);
+    const notices = progress.report.mock.calls
+      .map(([part]) => (part as vscode.LanguageModelTextPart).value)
+      .filter((value) => value?.includes("Analyzing image"));
+    expect(notices).toEqual([
+      "> 🔍 Analyzing image 1/3…\n\n",
+      "> 🔍 Analyzing image 2/3…\n\n",
+      "> 🔍 Analyzing image 3/3…\n\n",
+    ]);
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    const sent = JSON.stringify(body.messages);
+    expect(sent).toContain("Description of AQ==");
+    expect(sent.split("Description of AQ==").length).toBe(3);
+  });
+
+  it("should keep roles and tool parts when replacing images with descriptions", async () => {
+    const analyze = jest
+      .spyOn(ZaiMcpClient.prototype, "analyzeImage")
+      .mockResolvedValue("A screenshot of an error");
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const image = () =>
+      vscode.LanguageModelDataPart.image(
+        new Uint8Array([1, 2, 3]),
+        "image/png"
+      );
+
+    await provider.provideLanguageModelChatResponse(
+      {
+        id: "glm-4.7",
+        maxInputTokens: 200000,
+        maxOutputTokens: 131072,
+      } as vscode.LanguageModelChatInformation,
+      [
+        vscode.LanguageModelChatMessage.User([
+          new vscode.LanguageModelTextPart("Fix this"),
+          image(),
+          new vscode.LanguageModelTextPart("please"),
+        ]),
+        vscode.LanguageModelChatMessage.Assistant([
+          new vscode.LanguageModelTextPart("Taking a screenshot."),
+          image(),
+          new vscode.LanguageModelToolCallPart("call_1", "screenshot", {}),
+        ]),
+        vscode.LanguageModelChatMessage.User([
+          new vscode.LanguageModelToolResultPart("call_1", [
+            new vscode.LanguageModelTextPart("saved"),
+          ]),
+          image(),
+        ]),
+      ],
+      {
+        tools: [
+          {
+            name: "zai_analyze_image",
+            description: "Analyze an image",
+            inputSchema: {},
+          },
+        ],
+      } as unknown as vscode.ProvideLanguageModelChatResponseOptions,
+      { report: jest.fn() },
+      createToken()
+    );
+    logSpy.mockRestore();
+    analyze.mockRestore();
+
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    const messages = body.messages.filter(
+      (m: { role: string }) => m.role !== "system"
+    );
+    expect(messages.map((m: { role: string }) => m.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "user",
+    ]);
+    expect(JSON.stringify(messages[0].content)).toMatch(
+      /Fix this.*\[Image Analysis\]:\\nA screenshot of an error.*please/
+    );
+    expect(messages[1].content).toContain("A screenshot of an error");
+    expect(messages[1].tool_calls[0].id).toBe("call_1");
+    expect(messages[2].tool_call_id).toBe("call_1");
+    expect(messages[2].content).toContain("saved");
+    expect(JSON.stringify(messages[3].content)).toContain(
+      "A screenshot of an error"
+    );
+  });
+
+  it("should describe images returned by tools for models without vision", async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === "vision.strategy" ? "describe" : defaultValue
+      ),
+    });
+    const analyze = jest
+      .spyOn(ZaiMcpClient.prototype, "analyzeImage")
+      .mockResolvedValue("A login form");
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+
+    await provider.provideLanguageModelChatResponse(
+      {
+        id: "glm-4.7",
+        maxInputTokens: 200000,
+        maxOutputTokens: 131072,
+      } as vscode.LanguageModelChatInformation,
+      [
+        vscode.LanguageModelChatMessage.User("Open the login page"),
+        vscode.LanguageModelChatMessage.Assistant([
+          new vscode.LanguageModelToolCallPart("call_1", "screenshot", {}),
+        ]),
+        vscode.LanguageModelChatMessage.User([
+          new vscode.LanguageModelToolResultPart("call_1", [
+            new vscode.LanguageModelTextPart("Screenshot taken"),
+            vscode.LanguageModelDataPart.image(
+              new Uint8Array([1, 2, 3]),
+              "image/png"
+            ),
+          ]),
+        ]),
+      ],
+      {},
+      { report: jest.fn() },
+      createToken()
+    );
+    logSpy.mockRestore();
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    analyze.mockRestore();
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    const toolMessage = body.messages.find(
+      (m: { role: string }) => m.role === "tool"
+    );
+    expect(toolMessage).toEqual({
+      role: "tool",
+      tool_call_id: "call_1",
+      content: "Screenshot taken\n[Image Analysis]:\nA login form",
+    });
+    expect(JSON.stringify(body.messages)).not.toContain("image_url");
+  });
+
+  it("should follow zai.vision.strategy and show the route", async () => {
+    let settings: Record<string, unknown> = {
+      "vision.strategy": "switch",
+      "vision.model": "glm-5v-turbo",
+    };
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key in settings ? settings[key] : defaultValue
+      ),
+    });
+    global.fetch = jest.fn().mockImplementation(async () => ({
+      ok: true,
+      body: createDoneStream(),
+    }));
+    const analyze = jest
+      .spyOn(ZaiMcpClient.prototype, "analyzeImage")
+      .mockResolvedValue("A red square");
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const send = async () => {
+      const progress = { report: jest.fn() };
+      await provider.provideLanguageModelChatResponse(
+        {
+          id: "glm-4.7",
+          maxInputTokens: 200000,
+          maxOutputTokens: 131072,
+        } as vscode.LanguageModelChatInformation,
+        [
+          vscode.LanguageModelChatMessage.User([
+            new vscode.LanguageModelTextPart("What is this?"),
+            vscode.LanguageModelDataPart.image(
+              new Uint8Array([1, 2, 3]),
+              "image/png"
+            ),
+          ]),
+        ],
+        {
+          // The analysis tool does not matter outside of auto mode
+          tools: [
+            {
+              name: "zai_analyze_image",
+              description: "Analyze an image",
+              inputSchema: {},
+            },
+          ],
+        } as unknown as vscode.ProvideLanguageModelChatResponseOptions,
+        progress as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+        createToken()
+      );
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      return {
+        body: JSON.parse(calls[calls.length - 1][1].body),
+        notices: progress.report.mock.calls.map(
+          ([part]) => (part as vscode.LanguageModelTextPart).value
+        ),
+      };
+    };
+
+    const switched = await send();
+    expect(switched.body.model).toBe("glm-5v-turbo");
+    expect(switched.body.messages[0].content[1].type).toBe("image_url");
+    expect(switched.notices).toContain(
+      "> 👁️ glm-4.7 cannot see images, so this request was sent to glm-5v-turbo.\n\n"
+    );
+    expect(analyze).not.toHaveBeenCalled();
+
+    // A per-model override wins over the global strategy
+    settings = {
+      ...settings,
+      "vision.modelOverrides": { "glm-4.7": { strategy: "describe" } },
+    };
+    const described = await send();
+    logSpy.mockRestore();
+    expect(described.body.model).toBe("glm-4.7");
+    expect(JSON.stringify(described.body.messages)).toContain("A red square");
+    expect(described.notices).toContain(
+      "> 👁️ glm-4.7 cannot see images, so they were replaced with descriptions.\n\n"
+    );
+    expect(analyze).toHaveBeenCalledTimes(1);
+    // Images are described with the configured vision model
+    expect(analyze.mock.calls[0][3]).toBe("glm-5v-turbo");
+    analyze.mockRestore();
+  });
+
+  it("should use the Messages API for models on the anthropic transport", async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === "customModels"
+          ? [{ id: "glm-5-anthropic", transport: "anthropic" }]
+          : defaultValue
+      ),
+    });
+    const events = [
+      {
+        type: "message_start",
+        message: { id: "msg_1", usage: { input_tokens: 12 } },
+      },
+      {
+        type: "content_block_start",
+        index: 0,
+        content_block: { type: "thinking", thinking: "" },
+      },
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "thinking_delta", thinking: "Plan" },
+      },
+      {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "signature_delta", signature: "sig" },
+      },
+      { type: "content_block_stop", index: 0 },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "text", text: "" },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "text_delta", text: "Hi" },
+      },
+      { type: "content_block_stop", index: 1 },
+      {
+        type: "message_delta",
+        delta: { stop_reason: "end_turn" },
+        usage: { output_tokens: 3 },
+      },
+      { type: "message_stop" },
+    ];
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      body: new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const event of events) {
+            controller.enqueue(
+              new TextEncoder().encode(
+                `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+              )
+            );
+          }
+          controller.close();
+        },
+      }),
+    });
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const model = models.find((m) => m.id === "glm-5-anthropic");
+    if (!model) {
+      throw new Error("glm-5-anthropic not found");
+    }
+    const report = jest.fn();
+
+    await provider.provideLanguageModelChatResponse(
+      model,
+      [
+        vscode.LanguageModelChatMessage.Assistant("Be brief"),
+        vscode.LanguageModelChatMessage.User("hello"),
+      ],
+      {},
+      {
+        report,
+      } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe("https://api.z.ai/api/anthropic/v1/messages");
+    expect(init.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(init.headers["x-api-key"]).toBe("test-api-key");
+    const body = JSON.parse(init.body);
+    expect(body.messages).toEqual([
+      { role: "assistant", content: [{ type: "text", text: "Be brief" }] },
+      { role: "user", content: [{ type: "text", text: "hello" }] },
+    ]);
+    expect(body.thinking).toEqual({
+      type: "enabled",
+      budget_tokens: Math.floor(body.max_tokens / 2),
+    });
+
+    const parts = report.mock.calls.map(([part]) => part);
+    const thinking = parts.filter(
+      (p) => p instanceof vscode.LanguageModelThinkingPart
+    );
+    expect(thinking.map((p) => p.value)).toEqual(["Plan", ""]);
+    expect(thinking[1].metadata).toEqual({ signature: "sig" });
+    const text = parts.filter((p) => p instanceof vscode.LanguageModelTextPart);
+    expect(text.map((p) => p.value)).toEqual(["Hi"]);
+    // The reported parts replay as one signed thinking block
+    const replayed = convertMessagesToAnthropic([
+      vscode.LanguageModelChatMessage.Assistant([
+        ...thinking,
+        ...text,
+      ] as unknown as vscode.LanguageModelTextPart[]),
+    ]);
+    expect(replayed.messages[0].content).toEqual([
+      { type: "thinking", thinking: "Plan", signature: "sig" },
+      { type: "text", text: "Hi" },
+    ]);
+    const usage = parts.find((p) => p instanceof vscode.LanguageModelDataPart);
+    expect(JSON.parse(new TextDecoder().decode(usage?.data))).toMatchObject({
+      prompt_tokens: 12,
+      completion_tokens: 3,
+    });
+  });
+
+  describe("request parameters", () => {
+    async function sendWithSettings(
+      modelId: string,
+      settings: Record<string, unknown>,
+      modelOptions?: Record<string, unknown>,
+      messages = [vscode.LanguageModelChatMessage.User("hello")]
+    ): Promise<Record<string, unknown>> {
+      (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn((key: string, defaultValue: unknown) =>
+          key in settings ? settings[key] : defaultValue
+        ),
+      });
+      const provider = new ZaiChatModelProvider(
+        secrets as unknown as vscode.SecretStorage,
+        "jest-agent"
+      );
+      const models = await provider.provideLanguageModelChatInformation(
+        { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+        createToken()
+      );
+      const model = models.find((m) => m.id === modelId);
+      if (!model) {
+        throw new Error(`${modelId} not found`);
+      }
+      await provider.provideLanguageModelChatResponse(
+        model,
+        messages,
+        { modelOptions } as vscode.ProvideLanguageModelChatResponseOptions,
+        {
+          report: jest.fn(),
+        } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+        createToken()
+      );
+      const init = (global.fetch as jest.Mock).mock.calls[0][1];
+      return JSON.parse(init.body);
+    }
+
+    it("should use built-in defaults without settings", async () => {
+      const body = await sendWithSettings("glm-5", {});
+      expect(body.temperature).toBe(0.7);
+      expect(body.top_p).toBeUndefined();
+      expect(body.thinking).toEqual({ type: "enabled" });
+    });
+
+    it("should apply zai.modelDefaults for the requested model", async () => {
+      const settings = {
+        modelDefaults: {
+          "glm-4.6": { temperature: 1.0 },
+          "glm-5": {
+            temperature: 0.6,
+            top_p: 0.95,
+            max_tokens: 8192,
+            thinking: false,
+            stop: ["<END>"],
+            frequency_penalty: 0.1,
+            presence_penalty: 0.2,
+          },
+        },
+      };
+
+      const glm5 = await sendWithSettings("glm-5", settings);
+      expect(glm5).toMatchObject({
+        temperature: 0.6,
+        top_p: 0.95,
+        max_tokens: 8192,
+        thinking: { type: "disabled" },
+        stop: ["<END>"],
+        frequency_penalty: 0.1,
+        presence_penalty: 0.2,
+      });
+
+      (global.fetch as jest.Mock).mockClear();
+      const glm46 = await sendWithSettings("glm-4.6", settings);
+      expect(glm46.temperature).toBe(1.0);
+      expect(glm46.top_p).toBeUndefined();
+    });
+
+    it("should let modelOptions override the model defaults", async () => {
+      const body = await sendWithSettings(
+        "glm-5",
+        { modelDefaults: { "glm-5": { temperature: 0.6, top_p: 0.95 } } },
+        { temperature: 0.2, top_p: 0.5, stop: "STOP" }
+      );
+      expect(body.temperature).toBe(0.2);
+      expect(body.top_p).toBe(0.5);
+      expect(body.stop).toBe("STOP");
+    });
+
+    it("should cap max_tokens at the model's output limit", async () => {
+      const body = await sendWithSettings(
+        "glm-4.7",
+        { modelDefaults: { "glm-4.7": { max_tokens: 999999 } } },
+        undefined
+      );
+      expect(body.max_tokens).toBe(65535);
+    });
+
+    it("should follow zai.thinking.mode, model defaults and modelOptions.thinking", async () => {
+      const auto = await sendWithSettings("glm-5", { "thinking.mode": "auto" });
+      expect(auto.thinking).toBeUndefined();
+
+      (global.fetch as jest.Mock).mockClear();
+      const perModel = await sendWithSettings("glm-5", {
+        "thinking.mode": "disabled",
+        modelDefaults: { "glm-5": { thinking: "auto" } },
+      });
+      expect(perModel.thinking).toBeUndefined();
+
+      (global.fetch as jest.Mock).mockClear();
+      const requested = await sendWithSettings(
+        "glm-5",
+        { modelDefaults: { "glm-5": { thinking: true } } },
+        { thinking: "disabled" }
+      );
+      expect(requested.thinking).toEqual({ type: "disabled" });
+    });
+
+    it("should preserve thinking when enabled for a supporting model", async () => {
+      const messages = [
+        vscode.LanguageModelChatMessage.User("fix the test"),
+        new vscode.LanguageModelChatMessage(
+          vscode.LanguageModelChatMessageRole.Assistant,
+          [
+            new vscode.LanguageModelThinkingPart("Read the test first."),
+            new vscode.LanguageModelToolCallPart("call_1", "read_file", {
+              path: "a.test.ts",
+            }),
+          ] as unknown as vscode.LanguageModelTextPart[]
+        ),
+        vscode.LanguageModelChatMessage.User([
+          new vscode.LanguageModelToolResultPart("call_1", [
+            new vscode.LanguageModelTextPart("expect(1).toBe(2)"),
+          ]),
+        ]),
+      ];
+      const settings = { "thinking.preserve": true };
+
+      const glm5 = await sendWithSettings("glm-5", settings, {}, messages);
+      expect(glm5.thinking).toEqual({ type: "enabled", clear_thinking: false });
+      expect(glm5.messages).toContainEqual(
+        expect.objectContaining({
+          role: "assistant",
+          reasoning_content: "Read the test first.",
+        })
+      );
+
+      // Models without preserved thinking and the default setting drop it
+      for (const [modelId, modelSettings] of [
+        ["glm-4.6", settings],
+        ["glm-5", {}],
+      ] as const) {
+        (global.fetch as jest.Mock).mockClear();
+        const body = await sendWithSettings(
+          modelId,
+          modelSettings,
+          {},
+          messages
+        );
+        expect(body.thinking).toEqual({ type: "enabled" });
+        expect(JSON.stringify(body.messages)).not.toContain(
+          "Read the test first."
+        );
+      }
+    });
+
+    it("should ignore malformed default values", async () => {
+      const body = await sendWithSettings("glm-5", {
+        modelDefaults: { "glm-5": { temperature: "hot", stop: [1, 2] } },
+      });
+      expect(body.temperature).toBe(0.7);
+      expect(body.stop).toBeUndefined();
+    });
+  });
+
   it("should count tokens for text data parts in provideTokenCount", async () => {
     const provider = new ZaiChatModelProvider(
       secrets as unknown as vscode.SecretStorage,
@@ -179,4 +1254,940 @@ describe("ZaiChatModelProvider", () => {
     );
     expect(count).toBe(Math.ceil(text.length / 2));
   });
+
+  describe("stream decoding", () => {
+    async function sendWithStream(
+      raw: string,
+      report: jest.Mock = jest.fn()
+    ): Promise<void> {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(raw));
+            controller.close();
+          },
+        }),
+      });
+      const provider = new ZaiChatModelProvider(
+        secrets as unknown as vscode.SecretStorage,
+        "jest-agent"
+      );
+      const models = await provider.provideLanguageModelChatInformation(
+        { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+        createToken()
+      );
+      const glm5 = models.find((m) => m.id === "glm-5");
+      if (!glm5) {
+        throw new Error("glm-5 not found");
+      }
+      await provider.provideLanguageModelChatResponse(
+        glm5,
+        [vscode.LanguageModelChatMessage.User("hello")],
+        {},
+        {
+          report,
+        } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+        createToken()
+      );
+    }
+
+    it("should read CRLF streams with heartbeats and compact data fields", async () => {
+      const report = jest.fn();
+      await sendWithStream(
+        [
+          ": heartbeat",
+          "",
+          'data:{"choices":[{"index":0,"delta":{"content":"Hel"}}]}',
+          "",
+          'data: {"choices":[{"index":0,',
+          'data: "delta":{"content":"lo"}}]}',
+          "",
+          "data:[DONE]",
+          "",
+          "",
+        ].join("\r\n"),
+        report
+      );
+
+      const text = report.mock.calls
+        .map(([part]) => part)
+        .filter((p) => p instanceof vscode.LanguageModelTextPart)
+        .map((p) => p.value)
+        .join("");
+      expect(text).toBe("Hello");
+    });
+
+    it("should unwrap inline <think> blocks into thinking parts", async () => {
+      const raw = ["<thi", "nk>\nCheck the", " file.</th", "ink>\n\nDone."]
+        .map(
+          (content) =>
+            `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`
+        )
+        .join("");
+      const report = jest.fn();
+      await sendWithStream(raw + "data: [DONE]\n\n", report);
+
+      const parts = report.mock.calls.map(([part]) => part);
+      expect(
+        parts
+          .filter((p) => p instanceof vscode.LanguageModelThinkingPart)
+          .map((p) => p.value)
+          .join("")
+      ).toBe("Check the file.");
+      expect(
+        parts
+          .filter((p) => p instanceof vscode.LanguageModelTextPart)
+          .map((p) => p.value)
+          .join("")
+      ).toBe("Done.");
+
+      // With thinking disabled the reasoning is dropped, not shown as text
+      (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn((key: string, defaultValue: unknown) =>
+          key === "enableThinking" ? false : defaultValue
+        ),
+      });
+      const hidden = jest.fn();
+      await sendWithStream(raw + "data: [DONE]\n\n", hidden);
+      expect(
+        hidden.mock.calls.map(([part]) => part.value).join("")
+      ).not.toContain("Check the file.");
+      expect(
+        hidden.mock.calls
+          .map(([part]) => part)
+          .filter((p) => p instanceof vscode.LanguageModelTextPart)
+          .map((p) => p.value)
+          .join("")
+      ).toBe("Done.");
+    });
+
+    it("should show reasoning as set by zai.thinking.display", async () => {
+      const raw =
+        'data: {"choices":[{"index":0,"delta":{"reasoning_content":"Plan the edit."}}]}\n\n' +
+        'data: {"choices":[{"index":0,"delta":{"content":"Done."}}]}\n\n' +
+        "data: [DONE]\n\n";
+      const shown = async (display: string) => {
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+          get: jest.fn((key: string, defaultValue: unknown) =>
+            key === "thinking.display" ? display : defaultValue
+          ),
+        });
+        const report = jest.fn();
+        await sendWithStream(raw, report);
+        return report.mock.calls.map(([part]) => part);
+      };
+
+      const markdown = await shown("markdown");
+      expect(
+        markdown.some((p) => p instanceof vscode.LanguageModelThinkingPart)
+      ).toBe(false);
+      expect(markdown.map((p) => p.value).join("")).toBe(
+        "> *🧠 Thinking…*\n>\n> Plan the edit.\n>\n> *Thought for 1s*\n\n---\n\nDone."
+      );
+
+      const create = vscode.window.createOutputChannel as jest.Mock;
+      create.mockClear();
+      const mirrored = await shown("outputChannel");
+      expect(mirrored.map((p) => p.value)).toEqual(["Plan the edit.", "Done."]);
+      expect(mirrored[0]).toBeInstanceOf(vscode.LanguageModelThinkingPart);
+      const channel = create.mock.results[0].value;
+      expect(channel.append).toHaveBeenLastCalledWith("Plan the edit.");
+
+      expect((await shown("hidden")).map((p) => p.value)).toEqual(["Done."]);
+    });
+
+    it("should stream markdown reasoning before the answer starts", async () => {
+      (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn((key: string, defaultValue: unknown) =>
+          key === "thinking.display" ? "markdown" : defaultValue
+        ),
+      });
+      const delta = (d: unknown) =>
+        `data: ${JSON.stringify({ choices: [{ index: 0, delta: d }] })}\n\n`;
+      const report = jest.fn();
+      await sendWithStream(
+        delta({ reasoning_content: "\nPlan" }) +
+          delta({ reasoning_content: " the\nedit." }) +
+          delta({ reasoning_content: " More." }) +
+          delta({ content: "Done." }) +
+          "data: [DONE]\n\n",
+        report
+      );
+
+      // The first chunk is shown right away, later ones are batched until
+      // the block is closed
+      expect(report.mock.calls.map(([part]) => part.value)).toEqual([
+        "> *🧠 Thinking…*\n>\n> Plan",
+        " the\n> edit. More.",
+        "\n>\n> *Thought for 1s*\n\n---\n\n",
+        "Done.",
+      ]);
+    });
+
+    it("should surface errors sent mid-stream as LanguageModelErrors", async () => {
+      const errorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const raw =
+        'data: {"choices":[{"index":0,"delta":{"content":"Partial"}}]}\n\n' +
+        'data: {"error":{"code":"1305","message":"Service overloaded"}}\n\n';
+
+      const result = sendWithStream(raw);
+      await expect(result).rejects.toBeInstanceOf(vscode.LanguageModelError);
+      await expect(result).rejects.toMatchObject({
+        code: "Blocked",
+        message: "Z.ai API stream error: 1305 Service overloaded",
+      });
+      // API errors are final and not retried
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      errorSpy.mockRestore();
+    });
+
+    it("should surface error events", async () => {
+      const errorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      await expect(
+        sendWithStream("event: error\ndata: upstream failure\n\n")
+      ).rejects.toThrow("Z.ai API stream error: error upstream failure");
+      errorSpy.mockRestore();
+    });
+  });
+
+  it("should not repeat delivered text or tool calls when a stream is retried", async () => {
+    const encoder = new TextEncoder();
+    const chunk = (delta: unknown) =>
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta }] })}\n\n`;
+    const toolCall = (id: string) =>
+      chunk({
+        tool_calls: [
+          {
+            index: 0,
+            id,
+            function: { name: "read_file", arguments: '{"path":"a.ts"}' },
+          },
+        ],
+      });
+    // First stream delivers text and a tool call, then the connection drops
+    const failing = [
+      chunk({ content: "Reading the " }),
+      chunk({ content: "file" }),
+      toolCall("call_1"),
+    ];
+    let sent = 0;
+    const firstBody = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent < failing.length) {
+          controller.enqueue(encoder.encode(failing[sent++]));
+        } else {
+          controller.error(new Error("socket hang up"));
+        }
+      },
+    });
+    const secondBody = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          encoder.encode(
+            chunk({ content: "Reading the file" }) +
+              chunk({ content: " now." }) +
+              toolCall("call_2") +
+              "data: [DONE]\n\n"
+          )
+        );
+        controller.close();
+      },
+    });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, body: firstBody })
+      .mockResolvedValueOnce({ ok: true, body: secondBody });
+    const timeoutSpy = jest.spyOn(global, "setTimeout").mockImplementation(((
+      fn: () => void
+    ) => {
+      fn();
+      return 0;
+    }) as unknown as typeof setTimeout);
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const glm5 = models.find((m) => m.id === "glm-5");
+    if (!glm5) {
+      throw new Error("glm-5 not found");
+    }
+    const report = jest.fn();
+    await provider.provideLanguageModelChatResponse(
+      glm5,
+      [vscode.LanguageModelChatMessage.User("read a.ts")],
+      {},
+      {
+        report,
+      } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+    timeoutSpy.mockRestore();
+    warnSpy.mockRestore();
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    const parts = report.mock.calls.map(([part]) => part);
+    const text = parts
+      .filter((p) => p instanceof vscode.LanguageModelTextPart)
+      .map((p) => p.value)
+      .join("");
+    expect(text.trim()).toBe("Reading the file now.");
+    const calls = parts.filter(
+      (p) => p instanceof vscode.LanguageModelToolCallPart
+    );
+    expect(calls.map((c) => c.callId)).toEqual(["call_1"]);
+  });
+
+  it("should resume a broken answer from the delivered text", async () => {
+    const encoder = new TextEncoder();
+    const chunk = (delta: unknown) =>
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta }] })}\n\n`;
+    const failing = [
+      chunk({ reasoning_content: "Plan." }),
+      chunk({ content: "Sure, le" }),
+    ];
+    let sent = 0;
+    const firstBody = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent < failing.length) {
+          controller.enqueue(encoder.encode(failing[sent++]));
+        } else {
+          controller.error(new Error("socket hang up"));
+        }
+      },
+    });
+    const secondBody = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          encoder.encode(chunk({ content: "t me check." }) + "data: [DONE]\n\n")
+        );
+        controller.close();
+      },
+    });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, body: firstBody })
+      .mockResolvedValueOnce({ ok: true, body: secondBody });
+    const timeoutSpy = jest.spyOn(global, "setTimeout").mockImplementation(((
+      fn: () => void
+    ) => {
+      fn();
+      return 0;
+    }) as unknown as typeof setTimeout);
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const glm5 = models.find((m) => m.id === "glm-5");
+    if (!glm5) {
+      throw new Error("glm-5 not found");
+    }
+    const report = jest.fn();
+    await provider.provideLanguageModelChatResponse(
+      glm5,
+      [vscode.LanguageModelChatMessage.User("check a.ts")],
+      {},
+      {
+        report,
+      } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+    timeoutSpy.mockRestore();
+    warnSpy.mockRestore();
+
+    const [first, retry] = (global.fetch as jest.Mock).mock.calls.map(
+      ([, init]) => JSON.parse(init.body)
+    );
+    expect(first.thinking).toEqual({ type: "enabled" });
+    // The retry continues the delivered answer without thinking again
+    expect(retry.messages).toEqual([
+      ...first.messages,
+      { role: "assistant", content: "Sure, le" },
+    ]);
+    expect(retry.thinking).toEqual({ type: "disabled" });
+    const text = report.mock.calls
+      .map(([part]) => part)
+      .filter((p) => p instanceof vscode.LanguageModelTextPart)
+      .map((p) => p.value)
+      .join("");
+    expect(text).toBe("Sure, let me check.");
+  });
+
+  it("should not repeat markdown reasoning when a retry thinks for longer", async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === "thinking.display" ? "markdown" : defaultValue
+      ),
+    });
+    const encoder = new TextEncoder();
+    const chunk = (delta: unknown) =>
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta }] })}\n\n`;
+    // Each chunk arrives a second later in the first stream and five
+    // seconds later in the retry, so the thinking times differ
+    let now = 0;
+    const dateSpy = jest.spyOn(Date, "now").mockImplementation(() => now);
+    const body = (chunks: string[], step: number, complete: boolean) => {
+      let sent = 0;
+      return new ReadableStream<Uint8Array>(
+        {
+          pull(controller) {
+            if (sent < chunks.length) {
+              now += step;
+              controller.enqueue(encoder.encode(chunks[sent++]));
+            } else if (complete) {
+              controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+              controller.close();
+            } else {
+              controller.error(new Error("socket hang up"));
+            }
+          },
+        },
+        // Only pull a chunk when the previous one has been read
+        { highWaterMark: 0 }
+      );
+    };
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        body: body(
+          [
+            chunk({ reasoning_content: "Plan the edit." }),
+            chunk({ content: "Do" }),
+          ],
+          1000,
+          false
+        ),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        body: body(
+          [
+            chunk({ reasoning_content: "Plan the edit." }),
+            chunk({ content: "Done." }),
+          ],
+          5000,
+          true
+        ),
+      });
+    const timeoutSpy = jest.spyOn(global, "setTimeout").mockImplementation(((
+      fn: () => void
+    ) => {
+      fn();
+      return 0;
+    }) as unknown as typeof setTimeout);
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const glm5 = models.find((m) => m.id === "glm-5");
+    if (!glm5) {
+      throw new Error("glm-5 not found");
+    }
+    const report = jest.fn();
+    await provider.provideLanguageModelChatResponse(
+      glm5,
+      [vscode.LanguageModelChatMessage.User("edit a.ts")],
+      {},
+      {
+        report,
+      } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+    timeoutSpy.mockRestore();
+    warnSpy.mockRestore();
+    dateSpy.mockRestore();
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    const text = report.mock.calls
+      .map(([part]) => part)
+      .filter((p) => p instanceof vscode.LanguageModelTextPart)
+      .map((p) => p.value)
+      .join("");
+    expect(text).toBe(
+      "> *🧠 Thinking…*\n>\n> Plan the edit.\n>\n> *Thought for 1s*\n\n---\n\nDone."
+    );
+  });
+
+  it("should turn GLM's native tool call format into tool calls", async () => {
+    const encoder = new TextEncoder();
+    const chunk = (content: string) =>
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`;
+    const call =
+      "<tool_call>read_file\n<arg_key>path</arg_key>\n<arg_value>src/a.ts</arg_value>\n<arg_key>limit</arg_key>\n<arg_value>20</arg_value>\n</tool_call>";
+    // Split the call inside the opening tag and inside an argument
+    const content = `Let me look.\n${call}${call}`;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          encoder.encode(
+            chunk(content.slice(0, 16)) +
+              chunk(content.slice(16, 70)) +
+              chunk(content.slice(70)) +
+              "data: [DONE]\n\n"
+          )
+        );
+        controller.close();
+      },
+    });
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, body });
+
+    const provider = new ZaiChatModelProvider(
+      secrets as unknown as vscode.SecretStorage,
+      "jest-agent"
+    );
+    const models = await provider.provideLanguageModelChatInformation(
+      { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+      createToken()
+    );
+    const glm5 = models.find((m) => m.id === "glm-5");
+    if (!glm5) {
+      throw new Error("glm-5 not found");
+    }
+    const report = jest.fn();
+    await provider.provideLanguageModelChatResponse(
+      glm5,
+      [vscode.LanguageModelChatMessage.User("read a.ts")],
+      {
+        tools: [
+          {
+            name: "read_file",
+            description: "Read a file",
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: { type: "string" },
+                limit: { type: "number" },
+              },
+            },
+          },
+        ],
+      } as unknown as vscode.ProvideLanguageModelChatResponseOptions,
+      {
+        report,
+      } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+      createToken()
+    );
+
+    const parts = report.mock.calls.map(([part]) => part);
+    const text = parts
+      .filter((p) => p instanceof vscode.LanguageModelTextPart)
+      .map((p) => p.value)
+      .join("");
+    expect(text.trim()).toBe("Let me look.");
+    const calls = parts.filter(
+      (p) => p instanceof vscode.LanguageModelToolCallPart
+    );
+    // The repeated call is dropped like other duplicate tool calls
+    expect(calls).toHaveLength(1);
+    expect(calls[0].name).toBe("read_file");
+    expect(calls[0].input).toEqual({ path: "src/a.ts", limit: 20 });
+  });
+
+  describe("retries", () => {
+    async function getGlm5(
+      provider: ZaiChatModelProvider
+    ): Promise<vscode.LanguageModelChatInformation> {
+      const models = await provider.provideLanguageModelChatInformation(
+        { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+        createToken()
+      );
+      const glm5 = models.find((m) => m.id === "glm-5");
+      if (!glm5) {
+        throw new Error("glm-5 not found");
+      }
+      return glm5;
+    }
+
+    function rateLimited(headers: Record<string, string>): unknown {
+      return {
+        ok: false,
+        status: 429,
+        statusText: "Too Many Requests",
+        headers: new Headers(headers),
+        text: async () => '{"error":{"code":"1302"}}',
+      };
+    }
+
+    it("should wait as long as Retry-After asks", async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce(rateLimited({ "retry-after": "7" }))
+        .mockResolvedValueOnce({ ok: true, body: createDoneStream() });
+      const delays: number[] = [];
+      const timeoutSpy = jest.spyOn(global, "setTimeout").mockImplementation(((
+        fn: () => void,
+        ms: number
+      ) => {
+        delays.push(ms);
+        fn();
+        return 0;
+      }) as unknown as typeof setTimeout);
+      const errorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      const provider = new ZaiChatModelProvider(
+        secrets as unknown as vscode.SecretStorage,
+        "jest-agent"
+      );
+      const report = jest.fn();
+      await provider.provideLanguageModelChatResponse(
+        await getGlm5(provider),
+        [vscode.LanguageModelChatMessage.User("hello")],
+        {},
+        {
+          report,
+        } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+        createToken()
+      );
+      timeoutSpy.mockRestore();
+      errorSpy.mockRestore();
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(delays).toEqual([7000]);
+      expect(report).toHaveBeenCalledWith({
+        value: "⏳ Request failed (429). Retry attempt 1/10 (waiting 7s)...",
+      });
+    });
+
+    it("should apply the retry policy to the request resent after a broken stream", async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          body: new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.error(new Error("socket hang up"));
+            },
+          }),
+        })
+        .mockResolvedValueOnce(rateLimited({ "retry-after": "7" }))
+        .mockResolvedValueOnce({ ok: true, body: createDoneStream() });
+      const delays: number[] = [];
+      const timeoutSpy = jest.spyOn(global, "setTimeout").mockImplementation(((
+        fn: () => void,
+        ms: number
+      ) => {
+        delays.push(ms);
+        fn();
+        return 0;
+      }) as unknown as typeof setTimeout);
+      const errorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const provider = new ZaiChatModelProvider(
+        secrets as unknown as vscode.SecretStorage,
+        "jest-agent"
+      );
+      const report = jest.fn();
+      await provider.provideLanguageModelChatResponse(
+        await getGlm5(provider),
+        [vscode.LanguageModelChatMessage.User("hello")],
+        {},
+        {
+          report,
+        } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+        createToken()
+      );
+      timeoutSpy.mockRestore();
+      errorSpy.mockRestore();
+      warnSpy.mockRestore();
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect(delays[1]).toBe(7000);
+      expect(report).toHaveBeenCalledWith({
+        value: "⏳ Request failed (429). Retry attempt 2/10 (waiting 7s)...",
+      });
+    });
+
+    it("should fail right away when the server asks to wait past the budget", async () => {
+      (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn((key: string, defaultValue: unknown) =>
+          key === "retry.maxTotalWaitSeconds" ? 30 : defaultValue
+        ),
+      });
+      global.fetch = jest
+        .fn()
+        .mockResolvedValue(rateLimited({ "retry-after": "3600" }));
+      const errorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      const provider = new ZaiChatModelProvider(
+        secrets as unknown as vscode.SecretStorage,
+        "jest-agent"
+      );
+      await expect(
+        provider.provideLanguageModelChatResponse(
+          await getGlm5(provider),
+          [vscode.LanguageModelChatMessage.User("hello")],
+          {},
+          {
+            report: jest.fn(),
+          } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+          createToken()
+        )
+      ).rejects.toBeInstanceOf(vscode.LanguageModelError);
+      errorSpy.mockRestore();
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop waiting as soon as the request is cancelled", async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValue(rateLimited({ "retry-after": "60" }));
+      const errorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const listeners: Array<() => void> = [];
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: jest.fn((listener: () => void) => {
+          listeners.push(listener);
+          return { dispose: jest.fn() };
+        }),
+      } as unknown as vscode.CancellationToken;
+
+      const provider = new ZaiChatModelProvider(
+        secrets as unknown as vscode.SecretStorage,
+        "jest-agent"
+      );
+      const glm5 = await getGlm5(provider);
+      const report = jest.fn();
+      const pending = provider.provideLanguageModelChatResponse(
+        glm5,
+        [vscode.LanguageModelChatMessage.User("hello")],
+        {},
+        {
+          report,
+        } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+        token
+      );
+      while (report.mock.calls.length === 0) {
+        await flushStreams();
+      }
+      (token as { isCancellationRequested: boolean }).isCancellationRequested =
+        true;
+      listeners.forEach((listener) => listener());
+
+      await expect(pending).rejects.toBeInstanceOf(vscode.CancellationError);
+      errorSpy.mockRestore();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("concurrent requests", () => {
+    function toolCallChunk(id: string, args: string, name?: string): unknown {
+      return {
+        choices: [
+          {
+            index: 0,
+            delta: {
+              tool_calls: [
+                {
+                  index: 0,
+                  id,
+                  function: name
+                    ? { name, arguments: args }
+                    : { arguments: args },
+                },
+              ],
+            },
+          },
+        ],
+      };
+    }
+
+    it("should keep tool calls and usage of interleaved streams apart", async () => {
+      const streams: Record<
+        string,
+        ReturnType<typeof createControlledStream>
+      > = {
+        "glm-4.7": createControlledStream(),
+        "glm-5": createControlledStream(),
+      };
+      global.fetch = jest.fn((_url: string, init: { body: string }) =>
+        Promise.resolve({
+          ok: true,
+          body: streams[JSON.parse(init.body).model as string].stream,
+        })
+      ) as unknown as typeof fetch;
+      const provider = new ZaiChatModelProvider(
+        secrets as unknown as vscode.SecretStorage,
+        "jest-agent"
+      );
+      const models = await provider.provideLanguageModelChatInformation(
+        { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+        createToken()
+      );
+      const send = (modelId: string, report: jest.Mock): Promise<void> => {
+        const model = models.find((m) => m.id === modelId);
+        if (!model) {
+          throw new Error(`${modelId} not found`);
+        }
+        return provider.provideLanguageModelChatResponse(
+          model,
+          [vscode.LanguageModelChatMessage.User("go")],
+          {},
+          {
+            report,
+          } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+          createToken()
+        );
+      };
+
+      const reportA = jest.fn();
+      const reportB = jest.fn();
+      const requestA = send("glm-4.7", reportA);
+      await flushStreams();
+      const a = streams["glm-4.7"];
+      a.push(toolCallChunk("call_a", '{"path": "a', "read_file"));
+      await flushStreams();
+
+      // The second request starts while the first tool call is half-streamed
+      const requestB = send("glm-5", reportB);
+      await flushStreams();
+      const b = streams["glm-5"];
+      b.push(toolCallChunk("call_b", '{"query": ', "search"));
+      await flushStreams();
+      a.push(toolCallChunk("call_a", '.ts"}'));
+      b.push(toolCallChunk("call_b", '"glm"}'));
+      b.push({
+        choices: [],
+        usage: { prompt_tokens: 20, completion_tokens: 2 },
+      });
+      a.push({
+        choices: [],
+        usage: { prompt_tokens: 10, completion_tokens: 1 },
+      });
+      await flushStreams();
+      a.end();
+      b.end();
+      await Promise.all([requestA, requestB]);
+
+      const toolCalls = (report: jest.Mock) =>
+        report.mock.calls
+          .map(([part]) => part)
+          .filter((p) => p instanceof vscode.LanguageModelToolCallPart);
+      const usage = (report: jest.Mock) => {
+        const part = report.mock.calls
+          .map(([p]) => p)
+          .find((p) => p instanceof vscode.LanguageModelDataPart);
+        return JSON.parse(new TextDecoder().decode(part?.data));
+      };
+
+      expect(toolCalls(reportA)).toEqual([
+        new vscode.LanguageModelToolCallPart("call_a", "read_file", {
+          path: "a.ts",
+        }),
+      ]);
+      expect(toolCalls(reportB)).toEqual([
+        new vscode.LanguageModelToolCallPart("call_b", "search", {
+          query: "glm",
+        }),
+      ]);
+      expect(usage(reportA)).toMatchObject({ prompt_tokens: 10 });
+      expect(usage(reportB)).toMatchObject({ prompt_tokens: 20 });
+    });
+
+    it("should not let a finishing stream reset another stream's text state", async () => {
+      const streams: Record<
+        string,
+        ReturnType<typeof createControlledStream>
+      > = {
+        "glm-4.7": createControlledStream(),
+        "glm-5": createControlledStream(),
+      };
+      global.fetch = jest.fn((_url: string, init: { body: string }) =>
+        Promise.resolve({
+          ok: true,
+          body: streams[JSON.parse(init.body).model as string].stream,
+        })
+      ) as unknown as typeof fetch;
+      const provider = new ZaiChatModelProvider(
+        secrets as unknown as vscode.SecretStorage,
+        "jest-agent"
+      );
+      const models = await provider.provideLanguageModelChatInformation(
+        { silent: true } as vscode.PrepareLanguageModelChatModelOptions,
+        createToken()
+      );
+      const [glm47, glm5] = ["glm-4.7", "glm-5"].map((id) => {
+        const model = models.find((m) => m.id === id);
+        if (!model) {
+          throw new Error(`${id} not found`);
+        }
+        return model;
+      });
+
+      const reportA = jest.fn();
+      const requestA = provider.provideLanguageModelChatResponse(
+        glm47,
+        [vscode.LanguageModelChatMessage.User("go")],
+        {},
+        {
+          report: reportA,
+        } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+        createToken()
+      );
+      const requestB = provider.provideLanguageModelChatResponse(
+        glm5,
+        [vscode.LanguageModelChatMessage.User("go")],
+        {},
+        {
+          report: jest.fn(),
+        } as unknown as vscode.Progress<vscode.LanguageModelResponsePart>,
+        createToken()
+      );
+      await flushStreams();
+
+      streams["glm-4.7"].push({
+        choices: [{ index: 0, delta: { content: "Let me check." } }],
+      });
+      await flushStreams();
+      streams["glm-5"].end();
+      await requestB;
+
+      // The first stream still knows it emitted text and sends the tool hint
+      streams["glm-4.7"].push(toolCallChunk("call_a", "{}", "list_files"));
+      streams["glm-4.7"].end();
+      await requestA;
+
+      const parts = reportA.mock.calls.map(([part]) => part);
+      const hintIndex = parts.findIndex(
+        (p) => p instanceof vscode.LanguageModelTextPart && p.value === " "
+      );
+      const callIndex = parts.findIndex(
+        (p) => p instanceof vscode.LanguageModelToolCallPart
+      );
+      expect(hintIndex).toBeGreaterThan(-1);
+      expect(callIndex).toBeGreaterThan(hintIndex);
+    });
+  });
 });
@@ -0,0 +1,249 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for retry output deduplication in resume.ts
+ */
+
+import * as vscode from "vscode";
+import { ZaiResumeFilter } from "../src/resume";
+import { formatThinkingFooter } from "../src/thinking";
+
+function textOf(report: jest.Mock): string {
+  return report.mock.calls
+    .map(([part]) => part)
+    .filter((p) => p instanceof vscode.LanguageModelTextPart)
+    .map((p: vscode.LanguageModelTextPart) => p.value)
+    .join("");
+}
+
+describe("ZaiResumeFilter", () => {
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  it("should pass everything through on the first attempt", () => {
+    const report = jest.fn();
+    const progress = new ZaiResumeFilter({ report }).beginAttempt();
+
+    progress.report(new vscode.LanguageModelTextPart("Hello"));
+    progress.report(new vscode.LanguageModelTextPart(" world"));
+
+    expect(textOf(report)).toBe("Hello world");
+  });
+
+  it("should only emit the continuation of a retried answer", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    const first = filter.beginAttempt();
+    first.report(new vscode.LanguageModelTextPart("The answer"));
+    first.report(new vscode.LanguageModelTextPart(" is"));
+
+    const second = filter.beginAttempt();
+    second.report(new vscode.LanguageModelTextPart("The ans"));
+    second.report(new vscode.LanguageModelTextPart("wer is 42"));
+    second.report(new vscode.LanguageModelTextPart("."));
+
+    expect(textOf(report)).toBe("The answer is 42.");
+    expect(filter.attempts).toBe(2);
+  });
+
+  it("should ignore trailing whitespace of the delivered text", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    const first = filter.beginAttempt();
+    first.report(new vscode.LanguageModelTextPart("Checking"));
+    first.report(new vscode.LanguageModelTextPart(" "));
+
+    filter
+      .beginAttempt()
+      .report(new vscode.LanguageModelTextPart("Checking now"));
+
+    expect(textOf(report)).toBe("Checking now");
+  });
+
+  it("should continue a resumed answer where it stopped", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    filter.beginAttempt().report(new vscode.LanguageModelTextPart("Sure, le"));
+
+    const second = filter.beginAttempt(true);
+    second.report(new vscode.LanguageModelTextPart("t me"));
+    second.report(new vscode.LanguageModelTextPart(" check."));
+
+    expect(textOf(report)).toBe("Sure, let me check.");
+  });
+
+  it("should not repeat a resumed answer that starts over", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    filter.beginAttempt().report(new vscode.LanguageModelTextPart("Sure, le"));
+
+    const second = filter.beginAttempt(true);
+    // A continuation that happens to start like the answer is held back
+    second.report(new vscode.LanguageModelTextPart("Su"));
+    second.report(new vscode.LanguageModelTextPart("re, let me check."));
+
+    const third = filter.beginAttempt(true);
+    third.report(new vscode.LanguageModelTextPart("S"));
+    third.report(new vscode.LanguageModelTextPart("o, done."));
+
+    expect(textOf(report)).toBe("Sure, let me check.So, done.");
+  });
+
+  it("should separate markdown reasoning that takes a different path", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    filter.beginAttempt().report(new vscode.LanguageModelTextPart("> Let me"));
+
+    const second = filter.beginAttempt();
+    second.report(new vscode.LanguageModelTextPart("> First"));
+    second.report(new vscode.LanguageModelTextPart(", check"));
+
+    expect(textOf(report)).toBe("> Let me\n\n> First, check");
+  });
+
+  it("should hide thinking that takes a different path", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    const thinking = (text: string) =>
+      new vscode.LanguageModelThinkingPart(
+        text
+      ) as unknown as vscode.LanguageModelResponsePart;
+    filter.beginAttempt().report(thinking("I reason about x"));
+
+    const second = filter.beginAttempt();
+    second.report(thinking("First,"));
+    second.report(thinking(" y"));
+    second.report(new vscode.LanguageModelTextPart("Answer"));
+
+    expect(report.mock.calls.map(([part]) => part.value)).toEqual([
+      "I reason about x",
+      "Answer",
+    ]);
+  });
+
+  it("should compare a third attempt with the latest delivered output", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    filter.beginAttempt().report(new vscode.LanguageModelTextPart("Step 1"));
+    filter
+      .beginAttempt()
+      .report(new vscode.LanguageModelTextPart("Step 1, step 2"));
+
+    const third = filter.beginAttempt();
+    third.report(new vscode.LanguageModelTextPart("Step 1, step 2, step 3"));
+
+    expect(textOf(report)).toBe("Step 1, step 2, step 3");
+  });
+
+  it("should never emit a tool call twice", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    filter.beginAttempt().report(
+      new vscode.LanguageModelToolCallPart("call_1", "read_file", {
+        path: "a.ts",
+      })
+    );
+
+    const second = filter.beginAttempt();
+    // Same call with a new id, and the same id again
+    second.report(
+      new vscode.LanguageModelToolCallPart("call_2", "read_file", {
+        path: "a.ts",
+      })
+    );
+    second.report(
+      new vscode.LanguageModelToolCallPart("call_1", "read_file", {
+        path: "b.ts",
+      })
+    );
+    second.report(
+      new vscode.LanguageModelToolCallPart("call_3", "read_file", {
+        path: "c.ts",
+      })
+    );
+
+    const calls = report.mock.calls
+      .map(([part]) => part)
+      .filter((p) => p instanceof vscode.LanguageModelToolCallPart);
+    expect(calls.map((c) => c.callId)).toEqual(["call_1", "call_3"]);
+  });
+
+  it("should allow identical tool calls within one attempt", () => {
+    const report = jest.fn();
+    const progress = new ZaiResumeFilter({ report }).beginAttempt();
+    progress.report(new vscode.LanguageModelToolCallPart("a", "run", {}));
+    progress.report(new vscode.LanguageModelToolCallPart("b", "run", {}));
+    expect(report).toHaveBeenCalledTimes(2);
+  });
+
+  it("should deduplicate thinking and keep signature parts", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    filter
+      .beginAttempt()
+      .report(
+        new vscode.LanguageModelThinkingPart(
+          "Let me"
+        ) as unknown as vscode.LanguageModelResponsePart
+      );
+
+    const second = filter.beginAttempt();
+    second.report(
+      new vscode.LanguageModelThinkingPart(
+        "Let me think"
+      ) as unknown as vscode.LanguageModelResponsePart
+    );
+    second.report(
+      new vscode.LanguageModelThinkingPart("", "t1", {
+        signature: "sig",
+      }) as unknown as vscode.LanguageModelResponsePart
+    );
+
+    const thinking = report.mock.calls.map(
+      ([part]) => part as vscode.LanguageModelThinkingPart
+    );
+    expect(thinking.map((p) => p.value)).toEqual(["Let me", " think", ""]);
+    expect(thinking[2].metadata).toEqual({ signature: "sig" });
+  });
+
+  it("should show a thinking footer once, whatever its timing", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    const first = filter.beginAttempt();
+    first.report(new vscode.LanguageModelTextPart("> Plan"));
+    first.report(new vscode.LanguageModelTextPart(formatThinkingFooter(1000)));
+    first.report(new vscode.LanguageModelTextPart("Do"));
+
+    const second = filter.beginAttempt();
+    second.report(new vscode.LanguageModelTextPart("> Plan"));
+    second.report(new vscode.LanguageModelTextPart(formatThinkingFooter(4000)));
+    second.report(new vscode.LanguageModelTextPart("Done."));
+    expect(textOf(report)).toBe(`> Plan${formatThinkingFooter(1000)}Done.`);
+
+    // A footer the broken attempt did not get to is shown by the retry
+    const late = jest.fn();
+    const lateFilter = new ZaiResumeFilter({ report: late });
+    lateFilter
+      .beginAttempt()
+      .report(new vscode.LanguageModelTextPart("> Plan"));
+    const retry = lateFilter.beginAttempt();
+    retry.report(new vscode.LanguageModelTextPart("> Plan"));
+    retry.report(new vscode.LanguageModelTextPart(formatThinkingFooter(4000)));
+    expect(textOf(late)).toBe(`> Plan${formatThinkingFooter(4000)}`);
+  });
+
+  it("should forward other parts unchanged", () => {
+    const report = jest.fn();
+    const filter = new ZaiResumeFilter({ report });
+    filter.beginAttempt();
+    const usage = vscode.LanguageModelDataPart.json({ prompt_tokens: 1 });
+    filter.beginAttempt().report(usage);
+    expect(report).toHaveBeenCalledWith(usage);
+  });
+});
@@ -0,0 +1,184 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the retry policy in retry.ts
+ */
+
+import * as vscode from "vscode";
+import {
+  getRetrySettings,
+  getServerRetryDelay,
+  sleep,
+  ZaiRetryPolicy,
+} from "../src/retry";
+
+function mockSettings(values: Record<string, unknown>): void {
+  (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+    get: jest.fn((key: string, defaultValue: unknown) =>
+      key in values ? values[key] : defaultValue
+    ),
+  });
+}
+
+describe("getRetrySettings", () => {
+  afterEach(() => {
+    mockSettings({});
+  });
+
+  it("should use the defaults", () => {
+    mockSettings({});
+    expect(getRetrySettings()).toEqual({
+      maxRetries: 10,
+      statusCodes: [429, 500, 502, 503, 504],
+      maxTotalWaitMs: 120000,
+    });
+  });
+
+  it("should read configured values and ignore invalid ones", () => {
+    mockSettings({
+      "retry.maxRetries": -1,
+      "retry.statusCodes": [429, "503"],
+      "retry.maxTotalWaitSeconds": 5,
+    });
+    expect(getRetrySettings()).toEqual({
+      maxRetries: 10,
+      statusCodes: [429],
+      maxTotalWaitMs: 5000,
+    });
+  });
+});
+
+describe("getServerRetryDelay", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+
+  it("should read Retry-After in seconds and as an HTTP date", () => {
+    expect(getServerRetryDelay(new Headers({ "retry-after": "3" }), now)).toBe(
+      3000
+    );
+    expect(
+      getServerRetryDelay(
+        new Headers({ "retry-after": "Thu, 01 Jan 2026 00:00:10 GMT" }),
+        now
+      )
+    ).toBe(10000);
+  });
+
+  it("should prefer retry-after-ms", () => {
+    expect(
+      getServerRetryDelay(
+        new Headers({ "retry-after-ms": "250", "retry-after": "3" }),
+        now
+      )
+    ).toBe(250);
+  });
+
+  it("should read rate-limit reset deltas and timestamps", () => {
+    expect(
+      getServerRetryDelay(new Headers({ "ratelimit-reset": "7" }), now)
+    ).toBe(7000);
+    expect(
+      getServerRetryDelay(
+        new Headers({ "x-ratelimit-reset": String(now / 1000 + 4) }),
+        now
+      )
+    ).toBe(4000);
+  });
+
+  it("should wait for the later of the per-limit resets", () => {
+    expect(
+      getServerRetryDelay(
+        new Headers({
+          "x-ratelimit-reset-requests": "1s",
+          "x-ratelimit-reset-tokens": "6m0s",
+        }),
+        now
+      )
+    ).toBe(360000);
+  });
+
+  it("should ignore missing and unparsable headers", () => {
+    expect(getServerRetryDelay(undefined, now)).toBeUndefined();
+    expect(
+      getServerRetryDelay(new Headers({ "retry-after": "soon" }), now)
+    ).toBeUndefined();
+  });
+});
+
+describe("ZaiRetryPolicy", () => {
+  afterEach(() => {
+    mockSettings({});
+  });
+
+  it("should back off exponentially with jitter", () => {
+    mockSettings({});
+    const retry = new ZaiRetryPolicy(() => 0.5).begin();
+    expect([retry.next(), retry.next(), retry.next()]).toEqual([
+      1500, 3000, 6000,
+    ]);
+    expect(retry.retries).toBe(3);
+  });
+
+  it("should stop after the configured number of retries", () => {
+    mockSettings({ "retry.maxRetries": 2 });
+    const retry = new ZaiRetryPolicy(() => 0).begin();
+    expect(retry.next()).toBeDefined();
+    expect(retry.next()).toBeDefined();
+    expect(retry.next()).toBeUndefined();
+  });
+
+  it("should honor server delays within the wait budget", () => {
+    mockSettings({ "retry.maxTotalWaitSeconds": 10 });
+    const retry = new ZaiRetryPolicy().begin();
+    expect(retry.next(new Headers({ "retry-after": "4" }))).toBe(4000);
+    // 4s + 8s would exceed the 10s budget
+    expect(retry.next(new Headers({ "retry-after": "8" }))).toBeUndefined();
+  });
+
+  it("should shorten the backoff to the remaining budget", () => {
+    mockSettings({ "retry.maxTotalWaitSeconds": 3 });
+    const retry = new ZaiRetryPolicy(() => 1).begin();
+    expect(retry.next()).toBe(2000);
+    expect(retry.next()).toBe(1000);
+    expect(retry.next()).toBeUndefined();
+  });
+
+  it("should use the configured status codes", () => {
+    mockSettings({ "retry.statusCodes": [503] });
+    const retry = new ZaiRetryPolicy().begin();
+    expect(retry.isRetryableStatus(503)).toBe(true);
+    expect(retry.isRetryableStatus(429)).toBe(false);
+  });
+});
+
+describe("sleep", () => {
+  it("should reject immediately when the token is cancelled", async () => {
+    let cancel: () => void = () => {};
+    const dispose = jest.fn();
+    const token = {
+      isCancellationRequested: false,
+      onCancellationRequested: jest.fn((listener: () => void) => {
+        cancel = listener;
+        return { dispose };
+      }),
+    } as unknown as vscode.CancellationToken;
+
+    const pending = sleep(60000, token);
+    cancel();
+
+    await expect(pending).rejects.toBeInstanceOf(vscode.CancellationError);
+    expect(dispose).toHaveBeenCalled();
+  });
+
+  it("should not wait for an already cancelled token", async () => {
+    const token = {
+      isCancellationRequested: true,
+      onCancellationRequested: jest.fn(),
+    } as unknown as vscode.CancellationToken;
+    await expect(sleep(60000, token)).rejects.toBeInstanceOf(
+      vscode.CancellationError
+    );
+  });
+
+  it("should resolve after the delay", async () => {
+    await expect(sleep(1)).resolves.toBeUndefined();
+  });
+});
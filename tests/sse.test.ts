@@ -0,0 +1,156 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the server-sent events decoder in sse.ts
+ */
+
+import * as vscode from "vscode";
+import { readSseEvents, SseDecoder } from "../src/sse";
+import type { SseEvent } from "../src/sse";
+
+function decodeAll(chunks: string[]): SseEvent[] {
+  const decoder = new SseDecoder();
+  const events: SseEvent[] = [];
+  for (const chunk of chunks) {
+    events.push(...decoder.push(chunk));
+  }
+  events.push(...decoder.end());
+  return events;
+}
+
+function streamOf(
+  chunks: Array<string | Uint8Array>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(
+          typeof chunk === "string" ? encoder.encode(chunk) : chunk
+        );
+      }
+      controller.close();
+    },
+  });
+}
+
+describe("SseDecoder", () => {
+  it("should decode data events separated by blank lines", () => {
+    expect(decodeAll(['data: {"a":1}\n\ndata: {"b":2}\n\n'])).toEqual([
+      { type: "message", data: '{"a":1}' },
+      { type: "message", data: '{"b":2}' },
+    ]);
+  });
+
+  it("should accept CRLF and CR line endings", () => {
+    expect(
+      decodeAll(["data: one\r\n\r\ndata: two\r\rdata: three\n\n"]).map(
+        (e) => e.data
+      )
+    ).toEqual(["one", "two", "three"]);
+  });
+
+  it("should handle a CRLF split across chunks", () => {
+    const events = decodeAll(["data: one\r", "\n\r", "\ndata: two\r\n\r\n"]);
+    expect(events.map((e) => e.data)).toEqual(["one", "two"]);
+  });
+
+  it("should join multi-line data with newlines", () => {
+    expect(decodeAll(["data: first\ndata: second\ndata:\n\n"])).toEqual([
+      { type: "message", data: "first\nsecond\n" },
+    ]);
+  });
+
+  it("should accept fields without a space after the colon", () => {
+    expect(decodeAll(['data:{"x":true}\n\n'])[0].data).toBe('{"x":true}');
+    // Only a single leading space is removed
+    expect(decodeAll(["data:  padded\n\n"])[0].data).toBe(" padded");
+  });
+
+  it("should read event, id and retry fields", () => {
+    const [event] = decodeAll([
+      "event: content_block_delta\nid: 42\nretry: 3000\ndata: {}\n\n",
+    ]);
+    expect(event).toEqual({
+      type: "content_block_delta",
+      data: "{}",
+      id: "42",
+      retry: 3000,
+    });
+  });
+
+  it("should keep the last event id for later events", () => {
+    const decoder = new SseDecoder();
+    decoder.push("id: 7\ndata: a\n\n");
+    const [event] = decoder.push("data: b\n\n");
+    expect(event.id).toBe("7");
+    expect(decoder.lastEventId).toBe("7");
+  });
+
+  it("should ignore comments, unknown fields and events without data", () => {
+    expect(
+      decodeAll([
+        ": keep-alive\n\n",
+        "event: ping\n\n",
+        "foo: bar\nretry: soon\ndata: real\n\n",
+      ])
+    ).toEqual([{ type: "message", data: "real" }]);
+  });
+
+  it("should reset the event type after each dispatch", () => {
+    const events = decodeAll(["event: error\ndata: x\n\ndata: y\n\n"]);
+    expect(events.map((e) => e.type)).toEqual(["error", "message"]);
+  });
+
+  it("should dispatch a final event without a trailing blank line", () => {
+    expect(decodeAll(["data: [DONE]"])).toEqual([
+      { type: "message", data: "[DONE]" },
+    ]);
+  });
+
+  it("should reassemble lines split mid-field", () => {
+    const events = decodeAll(["da", 'ta: {"choi', 'ces":[]}\n', "\n"]);
+    expect(events[0].data).toBe('{"choices":[]}');
+  });
+
+  it("should strip a leading byte order mark", () => {
+    expect(decodeAll(["\ufeffdata: x\n\n"])[0].data).toBe("x");
+  });
+});
+
+describe("readSseEvents", () => {
+  it("should decode a byte stream with multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode("data: 思考\n\n");
+    const events: SseEvent[] = [];
+    for await (const event of readSseEvents(
+      streamOf([bytes.slice(0, 8), bytes.slice(8)])
+    )) {
+      events.push(event);
+    }
+    expect(events.map((e) => e.data)).toEqual(["思考"]);
+  });
+
+  it("should stop reading once the request is cancelled", async () => {
+    const token = {
+      isCancellationRequested: false,
+      onCancellationRequested: jest.fn(),
+    } as unknown as vscode.CancellationToken;
+    const events: string[] = [];
+    for await (const event of readSseEvents(
+      streamOf(["data: a\n\n", "data: b\n\n"]),
+      token
+    )) {
+      events.push(event.data);
+      (token as { isCancellationRequested: boolean }).isCancellationRequested =
+        true;
+    }
+    expect(events).toEqual(["a"]);
+  });
+
+  it("should release the reader when iteration stops early", async () => {
+    const stream = streamOf(["data: a\n\ndata: b\n\n"]);
+    for await (const _event of readSseEvents(stream)) {
+      break;
+    }
+    expect(stream.locked).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for thinking controls in thinking.ts
+ */
+
+import * as vscode from "vscode";
+import {
+  ZaiThinkingControls,
+  formatThinkingFooter,
+  quoteReasoning,
+  toThinkingMode,
+} from "../src/thinking";
+
+function withSettings(settings: Record<string, unknown>): void {
+  (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+    get: jest.fn((key: string, defaultValue: unknown) =>
+      key in settings ? settings[key] : defaultValue
+    ),
+  });
+}
+
+describe("toThinkingMode", () => {
+  it("should accept modes and booleans", () => {
+    expect(toThinkingMode("auto")).toBe("auto");
+    expect(toThinkingMode(true)).toBe("enabled");
+    expect(toThinkingMode(false)).toBe("disabled");
+    expect(toThinkingMode("on")).toBeUndefined();
+    expect(toThinkingMode(1)).toBeUndefined();
+  });
+});
+
+describe("markdown reasoning", () => {
+  it("should continue the quote block across line breaks", () => {
+    expect(quoteReasoning("a\nb\r\n\nc")).toBe("a\n> b\n> \n> c");
+  });
+
+  it("should close the block with the thinking time", () => {
+    expect(formatThinkingFooter(200)).toBe(
+      "\n>\n> *Thought for 1s*\n\n---\n\n"
+    );
+    expect(formatThinkingFooter(83_400)).toContain("*Thought for 83s*");
+  });
+});
+
+describe("ZaiThinkingControls", () => {
+  afterEach(() => {
+    withSettings({});
+  });
+
+  it("should resolve the request, session, model and global modes in order", () => {
+    withSettings({ "thinking.mode": "auto" });
+    const controls = new ZaiThinkingControls();
+    expect(controls.resolveMode(undefined, undefined)).toBe("auto");
+    expect(controls.resolveMode(undefined, "disabled")).toBe("disabled");
+    expect(controls.resolveMode("enabled", "disabled")).toBe("enabled");
+
+    // The session toggle beats settings but not the request
+    expect(controls.toggle()).toBe("disabled");
+    expect(controls.resolveMode(undefined, "enabled")).toBe("disabled");
+    expect(controls.resolveMode("auto", "enabled")).toBe("auto");
+    expect(controls.toggle()).toBe("enabled");
+    expect(controls.getMode()).toBe("enabled");
+  });
+
+  it("should notify listeners when toggled", () => {
+    const controls = new ZaiThinkingControls();
+    const listener = jest.fn();
+    controls.onDidChange(listener);
+    controls.toggle();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should read the display and honor zai.enableThinking", () => {
+    const controls = new ZaiThinkingControls();
+    expect(controls.getDisplay()).toBe("native");
+    withSettings({ "thinking.display": "outputChannel" });
+    expect(controls.getDisplay()).toBe("outputChannel");
+    withSettings({ "thinking.display": "sideways" });
+    expect(controls.getDisplay()).toBe("native");
+    withSettings({ "thinking.display": "markdown", enableThinking: false });
+    expect(controls.getDisplay()).toBe("hidden");
+  });
+
+  it("should create the output channel once", () => {
+    const controls = new ZaiThinkingControls();
+    const create = vscode.window.createOutputChannel as jest.Mock;
+    create.mockClear();
+    controls.appendToOutput("Plan ");
+    controls.appendToOutput("the edit.");
+    expect(create).toHaveBeenCalledTimes(1);
+    const channel = create.mock.results[0].value;
+    expect(channel.append.mock.calls).toEqual([["Plan "], ["the edit."]]);
+    controls.dispose();
+    expect(channel.dispose).toHaveBeenCalled();
+  });
+});
@@ -13,6 +13,7 @@ import {
   estimateMessagesTokens,
   convertMessages,
   convertTools,
+  mapWithConcurrency,
 } from "../src/utils";
 
 /**
@@ -233,6 +234,35 @@ describe("estimateMessagesTokens", () => {
     expect(tokens).toBeGreaterThanOrEqual(1500);
   });
 
+  it("should count images in tool results as images", () => {
+    const image = vscode.LanguageModelDataPart.image(
+      new Uint8Array(4096).fill(7),
+      "image/png"
+    );
+    const topLevel = estimateMessagesTokens(
+      toEstimatableMessages([
+        new vscode.LanguageModelChatMessage(
+          vscode.LanguageModelChatMessageRole.User,
+          [image]
+        ),
+      ])
+    );
+    const inToolResult = estimateMessagesTokens(
+      toEstimatableMessages([
+        new vscode.LanguageModelChatMessage(
+          vscode.LanguageModelChatMessageRole.User,
+          [
+            new vscode.LanguageModelToolResultPart("call_1", [
+              new vscode.LanguageModelTextPart("ok"),
+              image,
+            ]),
+          ]
+        ),
+      ])
+    );
+    expect(inToolResult).toBe(topLevel + 1);
+  });
+
   it("should estimate tokens for text data parts", () => {
     const text = "Token count from data part";
     const dataPart = vscode.LanguageModelDataPart.text(text);
@@ -381,6 +411,32 @@ describe("convertTools", () => {
 });
 
 describe("convertMessages", () => {
+  it("should send assistant thinking back as reasoning_content only when preserved", () => {
+    const assistant = new vscode.LanguageModelChatMessage(
+      vscode.LanguageModelChatMessageRole.Assistant,
+      [
+        new vscode.LanguageModelThinkingPart("Need the weather. "),
+        new vscode.LanguageModelThinkingPart(["Call ", "the tool."]),
+        new vscode.LanguageModelTextPart("Calling tool"),
+        new vscode.LanguageModelToolCallPart("call_1", "get_weather", {
+          location: "Tokyo",
+        }),
+      ] as unknown as vscode.LanguageModelTextPart[]
+    );
+
+    const dropped = convertMessages([assistant]);
+    expect(dropped[0].content).toBe("Calling tool");
+    expect(dropped[0].reasoning_content).toBeUndefined();
+
+    const preserved = convertMessages([assistant], { preserveThinking: true });
+    expect(preserved).toHaveLength(1);
+    expect(preserved[0]).toMatchObject({
+      role: "assistant",
+      content: "Calling tool",
+      reasoning_content: "Need the weather. Call the tool.",
+    });
+  });
+
   it("should serialize assistant tool calls as assistant message with tool_calls", () => {
     const assistant = new vscode.LanguageModelChatMessage(
       vscode.LanguageModelChatMessageRole.Assistant,
@@ -416,6 +472,76 @@ describe("convertMessages", () => {
     expect(result[0].content).toBe("Sunny");
   });
 
+  it("should forward images returned by tools after the tool messages", () => {
+    const userToolResult = new vscode.LanguageModelChatMessage(
+      vscode.LanguageModelChatMessageRole.User,
+      [
+        new vscode.LanguageModelToolResultPart("call_1", [
+          new vscode.LanguageModelTextPart("Screenshot taken"),
+          vscode.LanguageModelDataPart.image(
+            new Uint8Array([1, 2, 3]),
+            "image/png"
+          ),
+        ]),
+        new vscode.LanguageModelToolResultPart("call_2", [
+          new vscode.LanguageModelTextPart("Clicked"),
+        ]),
+      ]
+    );
+
+    const result = convertMessages([userToolResult]);
+    expect(result.map((m) => m.role)).toEqual(["tool", "tool", "user"]);
+    expect(result[0].content).toBe(
+      "Screenshot taken\n[1 image(s) returned by the tool follow in the next message]"
+    );
+    expect(result[1].content).toBe("Clicked");
+    expect(result[2].content).toEqual([
+      {
+        type: "image_url",
+        image_url: { url: "data:image/png;base64,AQID" },
+      },
+    ]);
+  });
+
+  it("should render prompt-tsx and binary tool output without serializing it", () => {
+    const userToolResult = new vscode.LanguageModelChatMessage(
+      vscode.LanguageModelChatMessageRole.User,
+      [
+        new vscode.LanguageModelToolResultPart("call_1", [
+          new vscode.LanguageModelPromptTsxPart({
+            node: {
+              type: 1,
+              ctor: 2,
+              ctorName: "TerminalOutput",
+              children: [
+                { type: 2, text: "$ npm test", lineBreakBefore: false },
+                { type: 2, text: "Tests: 3 passed", lineBreakBefore: true },
+              ],
+            },
+          }),
+          new vscode.LanguageModelDataPart(
+            new Uint8Array(2048),
+            "application/pdf"
+          ),
+          new vscode.LanguageModelDataPart(
+            new TextEncoder().encode("ephemeral"),
+            "cache_control"
+          ),
+        ]),
+      ]
+    );
+
+    const result = convertMessages([userToolResult]);
+    expect(result).toEqual([
+      {
+        role: "tool",
+        tool_call_id: "call_1",
+        content:
+          "$ npm test\nTests: 3 passed\n[Binary data: application/pdf, 2 KB]",
+      },
+    ]);
+  });
+
   it("should not emit empty user messages for tool-result-only turns", () => {
     const userToolResult = new vscode.LanguageModelChatMessage(
       vscode.LanguageModelChatMessageRole.User,
@@ -431,3 +557,41 @@ describe("convertMessages", () => {
     expect(result.filter((m) => m.role === "tool").length).toBe(1);
   });
 });
+
+describe("mapWithConcurrency", () => {
+  it("should keep the item order and respect the limit", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency(
+      [30, 10, 20, 0, 5],
+      2,
+      async (ms, index) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        running--;
+        return `${index}:${ms}`;
+      }
+    );
+    expect(results).toEqual(["0:30", "1:10", "2:20", "3:0", "4:5"]);
+    expect(peak).toBe(2);
+  });
+
+  it("should stop starting calls after a failure", async () => {
+    const calls: number[] = [];
+    await expect(
+      mapWithConcurrency([1, 2, 3, 4], 1, async (n) => {
+        calls.push(n);
+        if (n === 2) {
+          throw new Error("boom");
+        }
+        return n;
+      })
+    ).rejects.toThrow("boom");
+    expect(calls).toEqual([1, 2]);
+  });
+
+  it("should return an empty array for no items", async () => {
+    await expect(mapWithConcurrency([], 3, async () => 1)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for vision routing in vision.ts
+ */
+
+import * as vscode from "vscode";
+import {
+  chooseVisionRoute,
+  formatVisionRouteNotice,
+  getVisionSettings,
+} from "../src/vision";
+
+function withSettings(settings: Record<string, unknown>): void {
+  (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+    get: jest.fn((key: string, defaultValue: unknown) =>
+      key in settings ? settings[key] : defaultValue
+    ),
+  });
+}
+
+describe("getVisionSettings", () => {
+  afterEach(() => {
+    withSettings({});
+  });
+
+  it("should default to auto with no vision model", () => {
+    expect(getVisionSettings("glm-4.7")).toEqual({
+      strategy: "auto",
+      model: undefined,
+    });
+  });
+
+  it("should read the strategy and vision model", () => {
+    withSettings({
+      "vision.strategy": "switch",
+      "vision.model": " glm-5v-turbo ",
+    });
+    expect(getVisionSettings("glm-4.7")).toEqual({
+      strategy: "switch",
+      model: "glm-5v-turbo",
+    });
+  });
+
+  it("should apply the override of the model", () => {
+    withSettings({
+      "vision.strategy": "switch",
+      "vision.model": "glm-5v-turbo",
+      "vision.modelOverrides": {
+        "glm-4.7": { strategy: "describe" },
+        "glm-5": { model: "glm-4.6v" },
+      },
+    });
+    expect(getVisionSettings("glm-4.7")).toEqual({
+      strategy: "describe",
+      model: "glm-5v-turbo",
+    });
+    expect(getVisionSettings("glm-5")).toEqual({
+      strategy: "switch",
+      model: "glm-4.6v",
+    });
+    // Without a model, e.g. in the image analysis tool
+    expect(getVisionSettings()).toEqual({
+      strategy: "switch",
+      model: "glm-5v-turbo",
+    });
+  });
+
+  it("should ignore invalid values", () => {
+    withSettings({
+      "vision.strategy": "sometimes",
+      "vision.model": 42,
+      "vision.modelOverrides": { "glm-4.7": "describe" },
+    });
+    expect(getVisionSettings("glm-4.7")).toEqual({
+      strategy: "auto",
+      model: undefined,
+    });
+  });
+});
+
+describe("chooseVisionRoute", () => {
+  it("should switch in auto mode unless the analysis tool is available", () => {
+    expect(chooseVisionRoute("auto", "glm-4.6v", false)).toEqual({
+      kind: "switch",
+      visionModel: "glm-4.6v",
+    });
+    expect(chooseVisionRoute("auto", "glm-4.6v", true)).toEqual({
+      kind: "describe",
+    });
+  });
+
+  it("should follow the switch and describe strategies", () => {
+    expect(chooseVisionRoute("switch", "glm-5v-turbo", true)).toEqual({
+      kind: "switch",
+      visionModel: "glm-5v-turbo",
+    });
+    expect(chooseVisionRoute("describe", "glm-5v-turbo", false)).toEqual({
+      kind: "describe",
+    });
+  });
+
+  it("should describe when no vision model is available", () => {
+    expect(chooseVisionRoute("switch", undefined, false)).toEqual({
+      kind: "describe",
+    });
+  });
+});
+
+describe("formatVisionRouteNotice", () => {
+  it("should name the models of the route", () => {
+    expect(
+      formatVisionRouteNotice(
+        { kind: "switch", visionModel: "glm-5v-turbo" },
+        "glm-4.7"
+      )
+    ).toBe(
+      "> 👁️ glm-4.7 cannot see images, so this request was sent to glm-5v-turbo.\n\n"
+    );
+    expect(formatVisionRouteNotice({ kind: "describe" }, "glm-4.7")).toContain(
+      "replaced with descriptions"
+    );
+    expect(
+      formatVisionRouteNotice({ kind: "describe" }, "glm-4.7", "glm-4.6v")
+    ).toContain("glm-4.6v is not available on your plan");
+  });
+});